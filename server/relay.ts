@@ -0,0 +1,176 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { WebSocketServer } from 'ws';
+import type { WebSocket } from 'ws';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+
+// =========================================================
+// COLLABORATION RELAY
+// =========================================================
+// A small self-hostable WebSocket server for shared documents (speaks the y-websocket protocol).
+// Every room is one document. The relay keeps a merged copy of it, so whoever connects later,
+// or comes back from being offline, gets everything they missed and hands over their own edits.
+//
+//   npm run relay                      ws://localhost:1234, rooms kept in memory
+//   PORT=4000 HOST=0.0.0.0 npm run relay  reachable from the local network
+//   RELAY_DATA=./relay-data npm run relay  rooms survive a restart
+
+const PORT = Number(process.env.PORT ?? 1234);
+const HOST = process.env.HOST ?? 'localhost';
+const DATA_DIR = process.env.RELAY_DATA;
+const SAVE_DELAY_MS = 2000;
+const PING_INTERVAL_MS = 30000;
+
+// Message types of the y-websocket protocol
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+const MESSAGE_QUERY_AWARENESS = 3;
+
+interface Room {
+    doc: Y.Doc;
+    awareness: awarenessProtocol.Awareness;
+    // Connections and the presence (awareness client ids) each of them announced
+    connections: Map<WebSocket, Set<number>>;
+}
+
+const rooms = new Map<string, Room>();
+
+const roomFile = (name: string) => join(DATA_DIR!, `${encodeURIComponent(name)}.bin`);
+
+const send = (socket: WebSocket, message: Uint8Array) => {
+    if (socket.readyState === socket.OPEN) socket.send(message);
+};
+
+const broadcast = (room: Room, message: Uint8Array) => {
+    room.connections.forEach((_, socket) => send(socket, message));
+};
+
+const encodeAwareness = (room: Room, clients: number[]) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(room.awareness, clients));
+    return encoding.toUint8Array(encoder);
+};
+
+const createRoom = (name: string): Room => {
+    const doc = new Y.Doc();
+    if (DATA_DIR) {
+        try {
+            Y.applyUpdate(doc, readFileSync(roomFile(name)));
+        } catch {
+            // New room
+        }
+    }
+    const room: Room = { doc, awareness: new awarenessProtocol.Awareness(doc), connections: new Map() };
+    room.awareness.setLocalState(null); // The relay itself is not a collaborator
+
+    let saveTimer: ReturnType<typeof setTimeout> | undefined;
+    doc.on('update', (update: Uint8Array) => {
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        syncProtocol.writeUpdate(encoder, update);
+        broadcast(room, encoding.toUint8Array(encoder));
+
+        if (DATA_DIR && saveTimer === undefined) {
+            saveTimer = setTimeout(() => {
+                saveTimer = undefined;
+                try {
+                    writeFileSync(roomFile(name), Y.encodeStateAsUpdate(doc));
+                } catch (e) {
+                    console.error(`Failed to save room "${name}"`, e);
+                }
+            }, SAVE_DELAY_MS);
+        }
+    });
+
+    room.awareness.on('update', ({ added, updated, removed }: Record<'added' | 'updated' | 'removed', number[]>, origin: unknown) => {
+        const owned = room.connections.get(origin as WebSocket);
+        added.forEach(id => owned?.add(id));
+        removed.forEach(id => owned?.delete(id));
+        broadcast(room, encodeAwareness(room, [...added, ...updated, ...removed]));
+    });
+    return room;
+};
+
+const handleMessage = (room: Room, socket: WebSocket, data: Uint8Array) => {
+    const decoder = decoding.createDecoder(data);
+    const encoder = encoding.createEncoder();
+    switch (decoding.readVarUint(decoder)) {
+        case MESSAGE_SYNC:
+            encoding.writeVarUint(encoder, MESSAGE_SYNC);
+            syncProtocol.readSyncMessage(decoder, encoder, room.doc, socket);
+            // Only a sync step 1 needs an answer (the missing updates)
+            if (encoding.length(encoder) > 1) send(socket, encoding.toUint8Array(encoder));
+            break;
+        case MESSAGE_AWARENESS:
+            awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), socket);
+            break;
+        case MESSAGE_QUERY_AWARENESS:
+            send(socket, encodeAwareness(room, [...room.awareness.getStates().keys()]));
+            break;
+    }
+};
+
+const server = new WebSocketServer({ port: PORT, host: HOST });
+if (DATA_DIR) mkdirSync(DATA_DIR, { recursive: true });
+
+server.on('connection', (socket, request) => {
+    // The room is the path: ws://host:port/<room>
+    let name: string;
+    try {
+        name = decodeURIComponent(new URL(request.url ?? '/', 'ws://relay').pathname.slice(1));
+    } catch {
+        socket.close(1008, 'Invalid room name'); // Policy violation
+        return;
+    }
+    const room = rooms.get(name) ?? createRoom(name);
+    rooms.set(name, room);
+    room.connections.set(socket, new Set());
+    socket.binaryType = 'arraybuffer';
+
+    let isAlive = true;
+    socket.on('pong', () => {
+        isAlive = true;
+    });
+    const ping = setInterval(() => {
+        if (!isAlive) {
+            socket.terminate();
+            return;
+        }
+        isAlive = false;
+        socket.ping();
+    }, PING_INTERVAL_MS);
+
+    socket.on('message', (data: ArrayBuffer) => {
+        try {
+            handleMessage(room, socket, new Uint8Array(data));
+        } catch (e) {
+            console.error(`Dropped an unreadable message in room "${name}"`, e);
+        }
+    });
+
+    socket.on('close', () => {
+        clearInterval(ping);
+        const owned = room.connections.get(socket);
+        room.connections.delete(socket);
+        if (owned?.size) awarenessProtocol.removeAwarenessStates(room.awareness, [...owned], null);
+        // Rooms without a data directory stay in memory until the relay stops, so everyone can go offline and come back
+    });
+
+    // Start the sync: our state vector (the client answers with what we are missing) and who is here
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeSyncStep1(encoder, room.doc);
+    send(socket, encoding.toUint8Array(encoder));
+    if (room.awareness.getStates().size > 0) {
+        send(socket, encodeAwareness(room, [...room.awareness.getStates().keys()]));
+    }
+});
+
+server.on('listening', () => {
+    console.log(`Collaboration relay running on ws://${HOST}:${PORT}${DATA_DIR ? ` (saving rooms to ${DATA_DIR})` : ''}`);
+});
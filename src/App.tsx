@@ -1,50 +1,135 @@
-import { useState } from 'react';
-import type { Mode } from './types';
+import { useState, useEffect, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { Mode, MindMapNode, MandalaChartData, Snapshot } from './types';
 import { MandalaView } from './components/Mandala/MandalaView';
 import { MindMapView } from './components/MindMap/MindMapCanvas';
-import { parseMindMap, parseMandala } from './utils/import';
+import { DocumentLibrary } from './components/Library/DocumentLibrary';
+import { RecoveryScreen } from './components/Recovery/RecoveryScreen';
+import { ConversionReportDialog } from './components/Convert/ConversionReportDialog';
+import { ImportDialog } from './components/Import/ImportDialog';
+import { CollabDialog } from './components/Collab/CollabDialog';
+import { ConflictNotice } from './components/Sync/ConflictNotice';
+import { SnapshotsDialog } from './components/Snapshots/SnapshotsDialog';
+import type { ImportResult } from './utils/import';
+import { mandalaToMindMap, mindMapToMandala } from './utils/convert';
+import type { ConversionReport } from './utils/convert';
 import { useMindMapData } from './components/MindMap/useMindMapData';
 import { useMandalaData } from './components/Mandala/useMandalaData';
+import { useDocumentLibrary } from './hooks/useDocumentLibrary';
+import { useCollaboration } from './hooks/useCollaboration';
+import { useSettings } from './hooks/useSettings';
+import { useSnapshots } from './hooks/useSnapshots';
+import { COLLAB_STATUSES, DEFAULT_COLLAB_SETTINGS } from './utils/collab';
+import { DEFAULT_DOCUMENT_NAMES } from './utils/documents';
+import { getSnapshotLabel, restoreBranch, restoreGrid } from './utils/snapshots';
+import type { VersionContent } from './utils/snapshots';
 import './App.css';
 
 function App() {
   const [mode, setMode] = useState<Mode>('mandala');
   const [isImportOpen, setIsImportOpen] = useState(false);
-  const [importText, setImportText] = useState('');
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isCollabOpen, setIsCollabOpen] = useState(false);
+  const [isSnapshotsOpen, setIsSnapshotsOpen] = useState(false);
+  const [conversionReport, setConversionReport] = useState<ConversionReport | null>(null);
 
   // Lifted Hooks
-  const mandalaHook = useMandalaData();
-  const mindMapHook = useMindMapData();
-
-  const handleImport = () => {
-    if (!importText.trim()) return;
-
-    // Detection Heuristic
-    if (importText.includes('## Center Grid') || importText.includes('## Main Grid')) {
-      // It's a Mandala
-      try {
-        const data = parseMandala(importText);
-        mandalaHook.setFullData(data); // Need to expose this in hook
-        setMode('mandala');
-        setIsImportOpen(false);
-        setImportText('');
-      } catch (e) {
-        alert('Failed to parse Mandala Chart');
-        console.error(e);
-      }
+  const library = useDocumentLibrary();
+  const { activeDocuments, touchDocument } = library;
+  const mandalaId = activeDocuments.mandala.id;
+  const mindMapId = activeDocuments.mindmap.id;
+  const touchMandala = useCallback(() => touchDocument(mandalaId), [touchDocument, mandalaId]);
+  const touchMindMap = useCallback(() => touchDocument(mindMapId), [touchDocument, mindMapId]);
+  const mandalaHook = useMandalaData(mandalaId, touchMandala);
+  const mindMapHook = useMindMapData(mindMapId, touchMindMap);
+  const activeDocument = activeDocuments[mode];
+
+  // Shared documents stay in sync with the others in their room (documents that failed to load are not synced)
+  const [collabSettings, updateCollabSettings] = useSettings('collaboration', DEFAULT_COLLAB_SETTINGS);
+  const userName = collabSettings.name.trim() || 'Guest';
+  const mandalaCollab = useCollaboration('mandala', mandalaId, mandalaHook.loadError ? undefined : activeDocuments.mandala.share, mandalaHook.data, mandalaHook.replaceState, userName);
+  const mindMapCollab = useCollaboration('mindmap', mindMapId, mindMapHook.loadError ? undefined : activeDocuments.mindmap.share, mindMapHook.root, mindMapHook.replaceState, userName);
+  const activeCollab = mode === 'mandala' ? mandalaCollab : mindMapCollab;
+
+  // Undo/Redo always targets the document of the active mode (only our own edits while it is shared)
+  const activeHook = mode === 'mandala' ? mandalaHook : mindMapHook;
+  const { undo, redo, canUndo, canRedo } = activeCollab.isShared ? activeCollab : activeHook;
+
+  // Named and automatic snapshots of both open documents (not of documents that failed to load)
+  const mandalaSnapshots = useSnapshots('mandala', mandalaId, mandalaHook.loadError ? null : mandalaHook.data);
+  const mindMapSnapshots = useSnapshots('mindmap', mindMapId, mindMapHook.loadError ? null : mindMapHook.root);
+  const activeSnapshots = mode === 'mandala' ? mandalaSnapshots : mindMapSnapshots;
+  const activeContent: VersionContent = mode === 'mandala' ? { mode, data: mandalaHook.data } : { mode, data: mindMapHook.root };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      const isUndo = key === 'z' && !e.shiftKey;
+      const isRedo = (key === 'z' && e.shiftKey) || key === 'y';
+      if (!isUndo && !isRedo) return;
+
+      // Text fields (node and cell editors, search, names, settings) keep native undo for what is typed there
+      const target = e.target;
+      if (target instanceof HTMLTextAreaElement || target instanceof HTMLInputElement || target instanceof HTMLSelectElement) return;
+      if (target instanceof HTMLElement && target.isContentEditable) return;
+
+      e.preventDefault();
+      if (isUndo) undo();
+      else redo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Conversions always create a new document, the source stays untouched
+  const handleConvertToMindMap = () => {
+    const root = mandalaToMindMap(mandalaHook.data);
+    library.createDocument('mindmap', `${activeDocuments.mandala.name} (Mind Map)`, root);
+    setMode('mindmap');
+  };
+
+  const handleConvertToMandala = (node: MindMapNode) => {
+    const { data, report } = mindMapToMandala(node);
+    library.createDocument('mandala', `${node.text || activeDocuments.mindmap.name} (Mandala)`, data);
+    setMode('mandala');
+    if (report.droppedCount > 0) setConversionReport(report);
+  };
+
+  const handleJoin = (room: string) => {
+    const meta = library.createDocument(mode, `${DEFAULT_DOCUMENT_NAMES[mode]} (Shared)`);
+    library.shareDocument(meta.id, { room, relayUrl: collabSettings.relayUrl.trim(), joined: true });
+  };
+
+  // Restoring is an undoable edit; a whole snapshot also saves the document as it is now first
+  const handleRestoreSnapshot = (snapshot: Snapshot, content: VersionContent) => {
+    const error = activeSnapshots.takeSnapshot(`Before restoring “${getSnapshotLabel(snapshot)}”`, true);
+    if (error && !confirm(`${error}\n\nRestore anyway? Undo still brings the current version back.`)) return;
+    if (content.mode === 'mandala') mandalaHook.setFullData(content.data);
+    else mindMapHook.setRoot(content.data);
+    setIsSnapshotsOpen(false);
+  };
+
+  const handleRestoreBranch = (root: MindMapNode, nodeId: string) => {
+    const next = restoreBranch(mindMapHook.root, root, nodeId);
+    if (next) mindMapHook.setRoot(next);
+  };
+
+  const handleRestoreGrid = (data: MandalaChartData, gridIndex: number) => {
+    mandalaHook.setFullData(restoreGrid(mandalaHook.data, data, gridIndex));
+  };
+
+  // Import goes into a new document unless the user explicitly restores over the current one
+  const handleRestore = (result: ImportResult, replaceCurrent: boolean) => {
+    if (result.kind === 'mandala') {
+      if (replaceCurrent) mandalaHook.setFullData(result.data);
+      else library.createDocument('mandala', result.data.centerGrid.cells[4].text || undefined, result.data);
     } else {
-      // Assume Mind Map
-      try {
-        const root = parseMindMap(importText);
-        mindMapHook.setRoot(root); // Need to expose this in hook
-        setMode('mindmap');
-        setIsImportOpen(false);
-        setImportText('');
-      } catch (e) {
-        alert('Failed to parse Mind Map');
-        console.error(e);
-      }
+      if (replaceCurrent) mindMapHook.setRoot(result.data);
+      else library.createDocument('mindmap', result.data.text || undefined, result.data);
     }
+    setMode(result.kind);
+    setIsImportOpen(false);
   };
 
   return (
@@ -59,6 +144,40 @@ function App() {
             </span>
           </h1>
           <div className="flex gap-3 w-full md:w-auto justify-center">
+            <button
+              onClick={() => setIsLibraryOpen(true)}
+              className="pop-btn pop-btn-neutral font-bold text-sm max-w-56 truncate"
+              title="Open the document library"
+            >
+              📚 {activeDocument.name}
+            </button>
+
+            <button
+              onClick={undo}
+              disabled={!canUndo}
+              className="pop-btn pop-btn-neutral font-bold text-sm disabled:opacity-40 disabled:pointer-events-none"
+              title="Undo (⌘+Z)"
+            >
+              ↶
+            </button>
+            <button
+              onClick={redo}
+              disabled={!canRedo}
+              className="pop-btn pop-btn-neutral font-bold text-sm disabled:opacity-40 disabled:pointer-events-none"
+              title="Redo (Shift+⌘+Z)"
+            >
+              ↷
+            </button>
+
+            <button
+              onClick={() => setIsSnapshotsOpen(true)}
+              disabled={!!activeHook.loadError}
+              className="pop-btn pop-btn-neutral font-bold text-sm disabled:opacity-40 disabled:pointer-events-none"
+              title="Snapshots: save, compare and restore versions"
+            >
+              🕘
+            </button>
+
             <button
               onClick={() => setIsImportOpen(true)}
               className="pop-btn pop-btn-neutral font-bold text-sm"
@@ -66,6 +185,20 @@ function App() {
               📥 Import
             </button>
 
+            <button
+              onClick={() => setIsCollabOpen(true)}
+              className="pop-btn pop-btn-neutral font-bold text-sm flex items-center gap-2"
+              title={activeCollab.isShared ? COLLAB_STATUSES[activeCollab.status].description : 'Edit together with others'}
+            >
+              👥
+              {activeCollab.isShared && <span className={`w-2.5 h-2.5 rounded-full ${COLLAB_STATUSES[activeCollab.status].dot}`}></span>}
+              {activeCollab.collaborators.slice(0, 3).map(c => (
+                <span key={c.clientId} className="w-5 h-5 -ml-1 first:ml-0 rounded-full text-[10px] text-white flex items-center justify-center" style={{ backgroundColor: c.color }} title={c.name}>
+                  {c.name.slice(0, 1).toUpperCase()}
+                </span>
+              ))}
+            </button>
+
             <div className="h-8 w-px bg-slate-200 mx-2 self-center"></div>
 
             <button
@@ -90,82 +223,139 @@ function App() {
 
       <main className="flex-1 overflow-hidden relative p-4 container mx-auto flex flex-col items-center">
         <div className="w-full max-w-7xl h-full flex flex-col">
-          {mode === 'mandala' ? (
+          {/* The same document edited in another tab at the same time */}
+          <ConflictNotice conflicts={activeHook.conflicts} onDismiss={activeHook.dismissConflicts} />
+          {activeHook.loadError ? (
+            <RecoveryScreen
+              key={activeDocument.id}
+              document={activeDocument}
+              error={activeHook.loadError}
+              onRepair={activeHook.repairData}
+              onDiscard={activeHook.discardData}
+              onOpenLibrary={() => setIsLibraryOpen(true)}
+            />
+          ) : mode === 'mandala' ? (
             <MandalaView
               data={mandalaHook.data}
+              documentName={activeDocuments.mandala.name}
               updateCell={mandalaHook.updateCell}
+              fillCells={mandalaHook.fillCells}
+              updateCells={mandalaHook.updateCells}
+              clearCells={mandalaHook.clearCells}
+              updateCellMeta={mandalaHook.updateCellMeta}
+              onConvertToMindMap={handleConvertToMindMap}
+              collaborators={mandalaCollab.collaborators}
+              onPresenceChange={mandalaCollab.setPresence}
             />
           ) : (
             <MindMapView
               root={mindMapHook.root}
+              documentId={activeDocuments.mindmap.id}
+              documentName={activeDocuments.mindmap.name}
               updateNodeText={mindMapHook.updateNodeText}
+              updateNodeTexts={mindMapHook.updateNodeTexts}
+              updateNodeMeta={mindMapHook.updateNodeMeta}
+              setNodePosition={mindMapHook.setNodePosition}
+              clearPositions={mindMapHook.clearPositions}
               addSibling={mindMapHook.addSibling}
               addChild={mindMapHook.addChild}
               removeNodes={mindMapHook.removeNodes}
+              removeSubtrees={mindMapHook.removeSubtrees}
+              insertSubtrees={mindMapHook.insertSubtrees}
               insertParent={mindMapHook.insertParent}
               addChildren={mindMapHook.addChildren}
+              moveSibling={mindMapHook.moveSibling}
+              indentNode={mindMapHook.indentNode}
+              outdentNode={mindMapHook.outdentNode}
+              moveNode={mindMapHook.moveNode}
+              toggleExpanded={mindMapHook.toggleExpanded}
+              setSiblingsExpanded={mindMapHook.setSiblingsExpanded}
+              expandToDepth={mindMapHook.expandToDepth}
+              revealNode={mindMapHook.revealNode}
+              onConvertToMandala={handleConvertToMandala}
+              collaborators={mindMapCollab.collaborators}
+              onPresenceChange={mindMapCollab.setPresence}
             />
           )}
         </div>
       </main>
 
+      {/* Document Library */}
+      {isLibraryOpen && (
+        <DocumentLibrary
+          documents={library.documents}
+          activeDocuments={activeDocuments}
+          mode={mode}
+          onOpen={(doc) => {
+            library.openDocument(doc.id);
+            setMode(doc.mode);
+            setIsLibraryOpen(false);
+          }}
+          onCreate={(newMode) => {
+            library.createDocument(newMode);
+            setMode(newMode);
+            setIsLibraryOpen(false);
+          }}
+          onRename={library.renameDocument}
+          onDuplicate={library.duplicateDocument}
+          onDelete={library.deleteDocument}
+          onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
+
+      {/* Collaboration */}
+      {isCollabOpen && (
+        <CollabDialog
+          document={activeDocument}
+          status={activeCollab.status}
+          collaborators={activeCollab.collaborators}
+          settings={collabSettings}
+          onUpdateSettings={updateCollabSettings}
+          onShare={() => library.shareDocument(activeDocument.id, { room: uuidv4(), relayUrl: collabSettings.relayUrl.trim() })}
+          onStopSharing={() => library.shareDocument(activeDocument.id, null)}
+          onJoin={handleJoin}
+          onClose={() => setIsCollabOpen(false)}
+        />
+      )}
+
+      {/* Snapshots */}
+      {isSnapshotsOpen && !activeHook.loadError && (
+        <SnapshotsDialog
+          document={activeDocument}
+          current={activeContent}
+          snapshots={activeSnapshots.snapshots}
+          onTakeSnapshot={activeSnapshots.takeSnapshot}
+          onRenameSnapshot={activeSnapshots.renameSnapshot}
+          onDeleteSnapshot={activeSnapshots.deleteSnapshot}
+          onRestore={handleRestoreSnapshot}
+          onRestoreBranch={handleRestoreBranch}
+          onRestoreGrid={handleRestoreGrid}
+          onClose={() => setIsSnapshotsOpen(false)}
+        />
+      )}
+
+      {/* Conversion Report */}
+      {conversionReport && (
+        <ConversionReportDialog
+          title="Converted to Mandala Chart"
+          report={conversionReport}
+          onClose={() => setConversionReport(null)}
+        />
+      )}
+
       {/* Import Modal */}
       {isImportOpen && (
-        <div className="fixed inset-0 bg-slate-900/40 flex items-center justify-center z-50 backdrop-blur-sm animate-fadeIn p-4">
-          <div className="pop-card p-8 w-full max-w-2xl flex flex-col gap-6 transform transition-all scale-100">
-            <div className="flex justify-between items-start">
-              <div>
-                <h2 className="text-2xl font-black text-pop-text mb-1">Import / Restore</h2>
-                <p className="text-slate-500 font-medium">
-                  Paste your exported text to checkoint restore your progress.
-                </p>
-              </div>
-              <button
-                onClick={() => setIsImportOpen(false)}
-                className="text-slate-400 hover:text-slate-600 transition-colors"
-              >
-                <span className="text-2xl font-bold">×</span>
-              </button>
-            </div>
-
-            <textarea
-              className="w-full h-64 pop-input font-mono text-sm text-slate-700 resize-none leading-relaxed"
-              placeholder={`- Root Node\n  - Child 1\n\nOR\n\n# Mandala Title\n## Center Grid\n- [0] ...`}
-              value={importText}
-              onChange={(e) => setImportText(e.target.value)}
-            />
-
-            <div className="flex justify-between items-center pt-2">
-              <button
-                onClick={() => {
-                  if (confirm('Are you sure you want to clear all data? This cannot be undone.')) {
-                    if (mode === 'mandala') mandalaHook.resetData();
-                    else mindMapHook.resetData();
-                    setIsImportOpen(false);
-                  }
-                }}
-                className="text-xs font-bold text-red-400 hover:text-red-500 hover:underline px-2"
-              >
-                🗑 Clear All Data
-              </button>
-
-              <div className="flex gap-3">
-                <button
-                  onClick={() => setIsImportOpen(false)}
-                  className="pop-btn pop-btn-neutral"
-                >
-                  Cancel
-                </button>
-                <button
-                  onClick={handleImport}
-                  className="pop-btn pop-btn-blue px-8 hover:shadow-lg hover:shadow-blue-200/50"
-                >
-                  RESTORE
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
+        <ImportDialog
+          onRestore={handleRestore}
+          onClearAll={() => {
+            if (confirm('Are you sure you want to clear all data? You can still undo it with ⌘+Z.')) {
+              if (mode === 'mandala') mandalaHook.resetData();
+              else mindMapHook.resetData();
+              setIsImportOpen(false);
+            }
+          }}
+          onClose={() => setIsImportOpen(false)}
+        />
       )}
     </div>
   );
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import type { DocumentMeta } from '../../types';
+import { COLLAB_STATUSES } from '../../utils/collab';
+import type { CollabSettings, CollabStatus, Collaborator } from '../../utils/collab';
+
+interface Props {
+    document: DocumentMeta; // The document of the active mode
+    status: CollabStatus;
+    collaborators: Collaborator[];
+    settings: CollabSettings;
+    onUpdateSettings: (patch: Partial<CollabSettings>) => void;
+    onShare: () => void;
+    onStopSharing: () => void;
+    onJoin: (room: string) => void; // Opens the room as a new document of the active mode
+    onClose: () => void;
+}
+
+// Share the current document through a relay (see server/relay.ts) or join someone else's
+export const CollabDialog: React.FC<Props> = ({ document, status, collaborators, settings, onUpdateSettings, onShare, onStopSharing, onJoin, onClose }) => {
+    const [room, setRoom] = useState('');
+    const { share } = document;
+
+    return (
+        <div className="fixed inset-0 bg-slate-900/40 flex items-center justify-center z-50 backdrop-blur-sm animate-fadeIn p-4" onClick={onClose}>
+            <div className="pop-card p-8 w-full max-w-lg flex flex-col gap-5" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start">
+                    <div>
+                        <h2 className="text-2xl font-black text-pop-text mb-1">Collaborate</h2>
+                        <p className="text-slate-500 font-medium text-sm">Edit “{document.name}” together in real time.</p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+                        <span className="text-2xl font-bold">×</span>
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                    <label className="flex flex-col gap-1 text-xs font-bold text-slate-500">
+                        Your name
+                        <input
+                            value={settings.name}
+                            onChange={(e) => onUpdateSettings({ name: e.target.value })}
+                            placeholder="Guest"
+                            className="pop-input text-sm py-1"
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1 text-xs font-bold text-slate-500">
+                        Relay server
+                        <input
+                            value={settings.relayUrl}
+                            onChange={(e) => onUpdateSettings({ relayUrl: e.target.value })}
+                            className="pop-input text-sm py-1 font-mono"
+                            title="Start one with “npm run relay”"
+                        />
+                    </label>
+                </div>
+
+                {share ? (
+                    <section className="flex flex-col gap-3 bg-blue-50 border-2 border-pop-blue-light rounded-xl p-4">
+                        <div className="flex items-center gap-2 text-sm font-bold text-slate-600">
+                            <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${COLLAB_STATUSES[status].dot}`} />
+                            {COLLAB_STATUSES[status].description}
+                            <span className="ml-auto text-xs font-mono text-slate-400 truncate" title={share.relayUrl}>{share.relayUrl}</span>
+                        </div>
+                        <div className="flex gap-2">
+                            <input readOnly value={share.room} className="pop-input flex-1 text-xs py-1 font-mono" onFocus={(e) => e.target.select()} />
+                            <button onClick={() => navigator.clipboard.writeText(share.room)} className="pop-btn pop-btn-neutral text-xs px-3 py-1" title="Others join with this room id">
+                                📋 Copy room id
+                            </button>
+                        </div>
+                        <ul className="flex flex-wrap gap-2">
+                            <li className="px-2 py-1 rounded-full bg-white border-2 border-slate-200 text-xs font-bold text-slate-500">{settings.name.trim() || 'Guest'} (you)</li>
+                            {collaborators.map(c => (
+                                <li key={c.clientId} className="px-2 py-1 rounded-full text-xs font-bold text-white" style={{ backgroundColor: c.color }}>{c.name}</li>
+                            ))}
+                        </ul>
+                        <button
+                            onClick={() => {
+                                if (confirm('Stop sharing this document? Your copy stays as it is now.')) onStopSharing();
+                            }}
+                            className="pop-btn pop-btn-neutral text-sm self-start"
+                        >
+                            Stop sharing
+                        </button>
+                    </section>
+                ) : (
+                    <section className="flex flex-col gap-2">
+                        <p className="text-sm text-slate-500 font-medium">Others join with the room id you get. Edits made offline are merged when you reconnect.</p>
+                        <button onClick={onShare} className="pop-btn pop-btn-blue self-start">👥 Share this document</button>
+                    </section>
+                )}
+
+                <section className="flex flex-col gap-2 border-t-2 border-slate-100 pt-4">
+                    <h3 className="font-black text-slate-600 text-sm">Join a shared document</h3>
+                    <div className="flex gap-2">
+                        <input
+                            value={room}
+                            onChange={(e) => setRoom(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter' && room.trim()) onJoin(room.trim());
+                            }}
+                            placeholder="Room id"
+                            className="pop-input flex-1 text-sm py-1 font-mono"
+                        />
+                        <button onClick={() => onJoin(room.trim())} disabled={!room.trim()} className="pop-btn pop-btn-orange text-sm disabled:opacity-40 disabled:pointer-events-none">
+                            Join
+                        </button>
+                    </div>
+                </section>
+            </div>
+        </div>
+    );
+};
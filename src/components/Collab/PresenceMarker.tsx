@@ -0,0 +1,32 @@
+import React from 'react';
+import type { Collaborator } from '../../utils/collab';
+
+interface Props {
+    id: string; // Node id or cell key
+    collaborators: Collaborator[]; // Those on this node or cell (see getCollaboratorsAt)
+    rounded: string; // Border radius class matching the card
+}
+
+// Other people on a node or cell: a solid outline with their name where they are typing,
+// a dashed one where they only selected it
+export const PresenceMarker: React.FC<Props> = ({ id, collaborators, rounded }) => {
+    if (collaborators.length === 0) return null;
+    const focused = collaborators.filter(c => c.focus === id);
+    return (
+        <>
+            <div
+                className={`absolute -inset-1.5 border-2 pointer-events-none z-20 ${rounded}`}
+                style={{ borderColor: collaborators[0].color, borderStyle: focused.length > 0 ? 'solid' : 'dashed' }}
+            />
+            {focused.length > 0 && (
+                <div className="absolute -top-5 left-2 z-30 flex gap-1 pointer-events-none">
+                    {focused.map(c => (
+                        <span key={c.clientId} className="px-1.5 py-0.5 rounded-full text-[10px] font-bold leading-none text-white whitespace-nowrap shadow-sm" style={{ backgroundColor: c.color }}>
+                            {c.name}
+                        </span>
+                    ))}
+                </div>
+            )}
+        </>
+    );
+};
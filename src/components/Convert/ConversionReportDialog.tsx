@@ -0,0 +1,34 @@
+import React from 'react';
+import type { ConversionReport } from '../../utils/convert';
+
+interface Props {
+    title: string;
+    report: ConversionReport;
+    onClose: () => void;
+}
+
+// Lists everything that did not fit when a mind map was squeezed into a 9x9 chart
+export const ConversionReportDialog: React.FC<Props> = ({ title, report, onClose }) => (
+    <div className="fixed inset-0 bg-slate-900/40 flex items-center justify-center z-50 backdrop-blur-sm animate-fadeIn p-4">
+        <div className="pop-card p-8 w-full max-w-2xl flex flex-col gap-5">
+            <div>
+                <h2 className="text-2xl font-black text-pop-text mb-1">{title}</h2>
+                <p className="text-slate-500 font-medium">
+                    {report.droppedCount === 0
+                        ? 'Everything fit into the chart.'
+                        : `${report.droppedCount} node(s) did not fit into the chart and were left out. Your mind map is unchanged.`}
+                </p>
+            </div>
+
+            {report.notes.length > 0 && (
+                <ul className="bg-orange-50 border-2 border-orange-200 rounded-xl p-4 text-sm text-slate-600 font-medium max-h-64 overflow-auto list-disc list-inside space-y-1">
+                    {report.notes.map((note, i) => <li key={i}>{note}</li>)}
+                </ul>
+            )}
+
+            <div className="flex justify-end">
+                <button onClick={onClose} className="pop-btn pop-btn-blue px-8">OK</button>
+            </div>
+        </div>
+    </div>
+);
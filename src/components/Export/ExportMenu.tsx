@@ -0,0 +1,67 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+export interface ExportMenuItem {
+    id: string;
+    label: string;
+    hint?: string; // Shown dimmed on the right, e.g. the file extension
+    onSelect: () => void;
+}
+
+interface Props {
+    label: string;
+    items: ExportMenuItem[];
+}
+
+// Toolbar dropdown listing export actions
+export const ExportMenu: React.FC<Props> = ({ label, items }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Close on any click outside the menu or on Escape
+    useEffect(() => {
+        if (!isOpen) return;
+        const handlePointerDown = (e: PointerEvent) => {
+            if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+        };
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') setIsOpen(false);
+        };
+        window.addEventListener('pointerdown', handlePointerDown);
+        window.addEventListener('keydown', handleKeyDown);
+        return () => {
+            window.removeEventListener('pointerdown', handlePointerDown);
+            window.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [isOpen]);
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className="pop-btn pop-btn-neutral text-sm whitespace-nowrap"
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+            >
+                {label} ▾
+            </button>
+            {isOpen && (
+                <div role="menu" className="absolute right-0 top-full mt-2 z-40 pop-card p-1.5 min-w-56 flex flex-col animate-fadeIn">
+                    {items.map(item => (
+                        <button
+                            key={item.id}
+                            role="menuitem"
+                            onClick={() => {
+                                setIsOpen(false);
+                                item.onSelect();
+                            }}
+                            className="flex items-center justify-between gap-4 px-3 py-2 rounded-lg text-sm font-bold text-slate-600 text-left hover:bg-slate-100"
+                        >
+                            {item.label}
+                            {item.hint && <span className="text-xs font-mono text-slate-400">{item.hint}</span>}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
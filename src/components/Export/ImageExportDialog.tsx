@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import type { ImageExportOptions, SvgImage } from '../../utils/imageExport';
+import { svgToPngBlob } from '../../utils/imageExport';
+import { downloadBlob, downloadText, toFileName } from '../../utils/download';
+
+interface Props {
+    documentName: string;
+    render: (options: ImageExportOptions) => SvgImage;
+    onClose: () => void;
+}
+
+const SCALES = [1, 2, 3, 4];
+
+export const ImageExportDialog: React.FC<Props> = ({ documentName, render, onClose }) => {
+    const [format, setFormat] = useState<'png' | 'svg'>('png');
+    const [scale, setScale] = useState(2);
+    const [background, setBackground] = useState<ImageExportOptions['background']>('white');
+    const [isExporting, setIsExporting] = useState(false);
+
+    const image = useMemo(() => render({ scale, background }), [render, scale, background]);
+    const previewUrl = useMemo(() => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.svg)}`, [image]);
+
+    const handleDownload = async () => {
+        if (format === 'svg') {
+            downloadText(toFileName(documentName, 'svg'), image.svg, 'image/svg+xml');
+            onClose();
+            return;
+        }
+        setIsExporting(true);
+        try {
+            downloadBlob(toFileName(documentName, 'png'), await svgToPngBlob(image));
+            onClose();
+        } catch (e) {
+            alert(e instanceof Error ? e.message : 'Failed to create the image');
+            console.error(e);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const optionButton = (isActive: boolean) =>
+        `px-3 py-1 rounded-full text-sm font-bold border-2 transition-all ${isActive
+            ? 'bg-pop-blue text-white border-pop-blue-dark'
+            : 'bg-white text-slate-500 border-slate-200 hover:border-pop-blue-light'}`;
+
+    return (
+        <div className="fixed inset-0 bg-slate-900/40 flex items-center justify-center z-50 backdrop-blur-sm animate-fadeIn p-4">
+            <div className="pop-card p-8 w-full max-w-3xl max-h-full overflow-y-auto flex flex-col gap-6">
+                <div className="flex justify-between items-start">
+                    <div>
+                        <h2 className="text-2xl font-black text-pop-text mb-1">Export Image</h2>
+                        <p className="text-slate-500 font-medium">
+                            Rendered in the browser, works offline.
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="text-slate-400 hover:text-slate-600 transition-colors"
+                    >
+                        <span className="text-2xl font-bold">×</span>
+                    </button>
+                </div>
+
+                <div className="flex flex-wrap gap-x-8 gap-y-3 text-sm font-bold text-slate-500">
+                    <div className="flex items-center gap-2">
+                        Format
+                        {(['png', 'svg'] as const).map(f => (
+                            <button key={f} onClick={() => setFormat(f)} className={optionButton(format === f)}>
+                                {f.toUpperCase()}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        Scale
+                        {SCALES.map(s => (
+                            <button key={s} onClick={() => setScale(s)} className={optionButton(scale === s)}>
+                                {s}×
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        Background
+                        <button onClick={() => setBackground('white')} className={optionButton(background === 'white')}>
+                            White
+                        </button>
+                        <button onClick={() => setBackground('transparent')} className={optionButton(background === 'transparent')}>
+                            Transparent
+                        </button>
+                    </div>
+                </div>
+
+                {/* Checkerboard behind the preview makes transparency visible */}
+                <div
+                    className="h-80 rounded-xl border-2 border-slate-200 overflow-auto flex items-center justify-center p-4"
+                    style={{ background: 'repeating-conic-gradient(#f1f5f9 0% 25%, #ffffff 0% 50%) 0 0 / 20px 20px' }}
+                >
+                    <img src={previewUrl} alt="Export preview" className="max-w-full max-h-full object-contain" />
+                </div>
+
+                <div className="flex justify-between items-center">
+                    <span className="text-sm font-mono text-slate-400">
+                        {image.width} × {image.height} px
+                    </span>
+                    <div className="flex gap-3">
+                        <button onClick={onClose} className="pop-btn pop-btn-neutral">
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleDownload}
+                            disabled={isExporting}
+                            className="pop-btn pop-btn-blue px-8 disabled:opacity-40 disabled:pointer-events-none"
+                        >
+                            {isExporting ? 'Rendering…' : `Download ${format.toUpperCase()}`}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
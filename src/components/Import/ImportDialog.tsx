@@ -0,0 +1,226 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+    IMPORT_FORMATS, detectImportFormat, getImportFormat, findImportFormatForFile, hasErrors,
+} from '../../utils/import';
+import type { ImportResult, ParseDiagnostic } from '../../utils/import';
+import { MindMapPreview, MandalaPreview } from './ImportPreview';
+
+interface Props {
+    onRestore: (result: ImportResult, replaceCurrent: boolean) => void;
+    onClearAll: () => void;
+    onClose: () => void;
+}
+
+const SEVERITY_STYLES: Record<ParseDiagnostic['severity'], { badge: string; line: string }> = {
+    error: { badge: 'bg-pop-red text-white', line: 'bg-red-100 text-pop-red' },
+    warning: { badge: 'bg-pop-yellow text-pop-text', line: 'bg-yellow-100 text-yellow-700' },
+};
+
+export const ImportDialog: React.FC<Props> = ({ onRestore, onClearAll, onClose }) => {
+    const [importText, setImportText] = useState('');
+    const [formatId, setFormatId] = useState('auto');
+    const [replaceOnImport, setReplaceOnImport] = useState(false);
+    const [scrollTop, setScrollTop] = useState(0);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const detectedFormat = detectImportFormat(importText);
+    const format = (formatId !== 'auto' && getImportFormat(formatId)) || detectedFormat;
+
+    // Live parse for the preview (parsers never throw, problems come back as diagnostics)
+    const parsed = useMemo(() => {
+        if (!importText.trim()) return null;
+        return format.parse(importText);
+    }, [importText, format]);
+
+    const diagnostics = parsed?.diagnostics ?? [];
+    const lineCount = importText.split('\n').length;
+
+    // Worst severity per line, for the gutter
+    const lineSeverity = new Map<number, ParseDiagnostic['severity']>();
+    diagnostics.forEach(d => {
+        if (d.line > 0 && lineSeverity.get(d.line) !== 'error') lineSeverity.set(d.line, d.severity);
+    });
+
+    // Select the offending line in the textarea
+    const jumpToLine = (line: number) => {
+        const textarea = textareaRef.current;
+        if (!textarea || line <= 0) return;
+        const lines = importText.split('\n');
+        const start = lines.slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0);
+        textarea.focus();
+        textarea.setSelectionRange(start, start + lines[line - 1].length);
+        const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+        textarea.scrollTop = Math.max(0, (line - 3) * lineHeight);
+    };
+
+    const handleOpenFile = async (file: File) => {
+        const text = await file.text();
+        setImportText(text);
+        setFormatId(findImportFormatForFile(file.name, text)?.id ?? 'auto');
+    };
+
+    const handleRestore = () => {
+        if (!parsed) return;
+        if (hasErrors(diagnostics) && !confirm('Some lines could not be imported (see the list). Import anyway?')) return;
+        onRestore(parsed.result, replaceOnImport);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-slate-900/40 flex items-center justify-center z-50 backdrop-blur-sm animate-fadeIn p-4">
+            <div className="pop-card p-8 w-full max-w-5xl max-h-full overflow-y-auto flex flex-col gap-6 transform transition-all scale-100">
+                <div className="flex justify-between items-start">
+                    <div>
+                        <h2 className="text-2xl font-black text-pop-text mb-1">Import</h2>
+                        <p className="text-slate-500 font-medium">
+                            Paste exported text, an outline, Markdown, OPML, a FreeMind map or a 9×9 spreadsheet range, or open a file. Earlier versions of a document are under 🕘 Snapshots.
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="text-slate-400 hover:text-slate-600 transition-colors"
+                    >
+                        <span className="text-2xl font-bold">×</span>
+                    </button>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-x-6 gap-y-3 -mb-2">
+                    <label className="flex items-center gap-2 text-sm font-bold text-slate-500">
+                        Format
+                        <select
+                            value={formatId}
+                            onChange={(e) => setFormatId(e.target.value)}
+                            className="pop-input py-1 px-2 text-sm"
+                        >
+                            <option value="auto">Auto-detect ({detectedFormat.label})</option>
+                            {IMPORT_FORMATS.map(f => (
+                                <option key={f.id} value={f.id}>{f.label}</option>
+                            ))}
+                        </select>
+                    </label>
+
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="pop-btn pop-btn-neutral text-sm py-1"
+                    >
+                        📂 Open File…
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".txt,.md,.markdown,.opml,.mm,.xml,.csv,.tsv,.json"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handleOpenFile(file);
+                            e.target.value = '';
+                        }}
+                    />
+
+                    <label className="flex items-center gap-2 text-sm font-bold text-slate-500">
+                        <input
+                            type="checkbox"
+                            checked={replaceOnImport}
+                            onChange={(e) => setReplaceOnImport(e.target.checked)}
+                        />
+                        Replace the current document instead of creating a new one
+                    </label>
+                </div>
+
+                <div className="grid md:grid-cols-2 gap-4">
+                    {/* Editor with a line gutter that marks lines that have diagnostics */}
+                    <div className="flex h-72 pop-input p-0 overflow-hidden">
+                        <div className="w-10 shrink-0 bg-slate-50 border-r-2 border-slate-200 overflow-hidden select-none">
+                            <div
+                                className="py-2 font-mono text-sm leading-relaxed text-right"
+                                style={{ transform: `translateY(${-scrollTop}px)` }}
+                            >
+                                {Array.from({ length: lineCount }).map((_, i) => {
+                                    const severity = lineSeverity.get(i + 1);
+                                    return (
+                                        <div key={i} className={`pr-1.5 ${severity ? `${SEVERITY_STYLES[severity].line} font-bold` : 'text-slate-300'}`}>
+                                            {i + 1}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                        <textarea
+                            ref={textareaRef}
+                            wrap="off"
+                            className="flex-1 h-full px-3 py-2 bg-transparent outline-none font-mono text-sm text-slate-700 resize-none leading-relaxed whitespace-pre"
+                            placeholder={`- Root Node\n  - Child 1\n\nOR\n\n# Mandala Title\n## Center Grid\n- [0] ...`}
+                            value={importText}
+                            onChange={(e) => setImportText(e.target.value)}
+                            onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+                        />
+                    </div>
+
+                    {/* Live Preview */}
+                    <div className="h-72 overflow-auto rounded-xl border-2 border-dashed border-slate-200 p-3 bg-slate-50/50">
+                        {parsed ? (
+                            <>
+                                <div className="text-xs font-black uppercase tracking-wide text-slate-400 mb-2">
+                                    Preview · {format.label} → {parsed.result.kind === 'mandala' ? 'Mandala Chart' : 'Mind Map'}
+                                </div>
+                                {parsed.result.kind === 'mandala'
+                                    ? <MandalaPreview data={parsed.result.data} />
+                                    : <MindMapPreview root={parsed.result.data} />}
+                            </>
+                        ) : (
+                            <div className="h-full flex items-center justify-center text-sm text-slate-400 font-medium">
+                                The parsed result appears here as you type.
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                {diagnostics.length > 0 && (
+                    <ul className="max-h-36 overflow-auto flex flex-col gap-1 text-sm">
+                        {diagnostics.map((d, i) => (
+                            <li key={i}>
+                                <button
+                                    onClick={() => jumpToLine(d.line)}
+                                    className="w-full text-left flex items-center gap-2 px-2 py-1 rounded-lg hover:bg-slate-50"
+                                >
+                                    <span className={`text-[10px] font-black uppercase px-2 py-0.5 rounded-full ${SEVERITY_STYLES[d.severity].badge}`}>
+                                        {d.severity}
+                                    </span>
+                                    <span className="font-mono text-xs text-slate-400 w-14 shrink-0">
+                                        {d.line > 0 ? `Line ${d.line}` : 'General'}
+                                    </span>
+                                    <span className="text-slate-600 font-medium">{d.message}</span>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <div className="flex justify-between items-center pt-2">
+                    <button
+                        onClick={onClearAll}
+                        className="text-xs font-bold text-red-400 hover:text-red-500 hover:underline px-2"
+                    >
+                        🗑 Clear All Data
+                    </button>
+
+                    <div className="flex gap-3">
+                        <button
+                            onClick={onClose}
+                            className="pop-btn pop-btn-neutral"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleRestore}
+                            disabled={!parsed}
+                            className="pop-btn pop-btn-blue px-8 hover:shadow-lg hover:shadow-blue-200/50 disabled:opacity-40 disabled:pointer-events-none"
+                        >
+                            IMPORT
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
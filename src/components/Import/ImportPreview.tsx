@@ -0,0 +1,55 @@
+import React from 'react';
+import type { MindMapNode, MandalaChartData } from '../../types';
+
+// Large pastes are only partially previewed to keep typing responsive
+const MAX_PREVIEW_NODES = 300;
+
+export const MindMapPreview: React.FC<{ root: MindMapNode }> = ({ root }) => {
+    let remaining = MAX_PREVIEW_NODES;
+
+    const renderNode = (node: MindMapNode): React.ReactNode => {
+        if (remaining <= 0) return null;
+        remaining--;
+        return (
+            <li key={node.id}>
+                <span className={`font-bold ${node.isExpanded === false ? 'text-pop-blue' : 'text-slate-600'}`}>
+                    {node.isExpanded === false && node.children.length > 0 ? '▸ ' : ''}{node.text || <em className="text-slate-400">(empty)</em>}
+                </span>
+                {node.children.length > 0 && (
+                    <ul className="pl-4 border-l-2 border-slate-200 ml-1">
+                        {node.children.map(renderNode)}
+                    </ul>
+                )}
+            </li>
+        );
+    };
+
+    const tree = renderNode(root);
+    return (
+        <div className="text-sm">
+            <ul>{tree}</ul>
+            {remaining <= 0 && <p className="text-xs text-slate-400 italic mt-2">Preview truncated after {MAX_PREVIEW_NODES} nodes…</p>}
+        </div>
+    );
+};
+
+export const MandalaPreview: React.FC<{ data: MandalaChartData }> = ({ data }) => (
+    <div className="grid grid-cols-3 gap-1">
+        {Array.from({ length: 9 }).map((_, gridIdx) => {
+            const grid = gridIdx === 4 ? data.centerGrid : data.surroundingGrids[gridIdx];
+            return (
+                <div key={gridIdx} className={`grid grid-cols-3 gap-px p-0.5 rounded-md ${gridIdx === 4 ? 'bg-pop-orange' : 'bg-slate-200'}`}>
+                    {grid.cells.map((cell, cellIdx) => (
+                        <div
+                            key={cellIdx}
+                            title={cell.text}
+                            className={`h-8 text-[9px] leading-tight p-0.5 overflow-hidden break-words rounded-sm ${cellIdx === 4 ? 'bg-orange-100 font-bold text-pop-orange-dark' : 'bg-white text-slate-600'}`}
+                        >
+                            {cell.text}
+                        </div>
+                    ))}
+                </div>
+            );
+        })}
+    </div>
+);
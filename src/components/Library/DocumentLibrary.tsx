@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import type { DocumentMeta, Mode } from '../../types';
+
+interface Props {
+    documents: DocumentMeta[];
+    activeDocuments: Record<Mode, DocumentMeta>;
+    mode: Mode;
+    onOpen: (doc: DocumentMeta) => void;
+    onCreate: (mode: Mode) => void;
+    onRename: (id: string, name: string) => void;
+    onDuplicate: (id: string) => void;
+    onDelete: (id: string) => void;
+    onClose: () => void;
+}
+
+const SECTIONS: { mode: Mode; label: string; icon: string }[] = [
+    { mode: 'mindmap', label: 'Mind Maps', icon: '🌳' },
+    { mode: 'mandala', label: 'Mandala Charts', icon: '🪷' },
+];
+
+const formatTimestamp = (ts: number) =>
+    new Date(ts).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const DocumentLibrary: React.FC<Props> = ({ documents, activeDocuments, mode, onOpen, onCreate, onRename, onDuplicate, onDelete, onClose }) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+
+    const startRename = (doc: DocumentMeta) => {
+        setEditingId(doc.id);
+        setDraftName(doc.name);
+    };
+
+    const commitRename = () => {
+        if (editingId) onRename(editingId, draftName);
+        setEditingId(null);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-slate-900/40 flex z-50 backdrop-blur-sm animate-fadeIn" onClick={onClose}>
+            <aside
+                className="pop-card rounded-l-none h-full w-full max-w-sm p-6 flex flex-col gap-6 overflow-y-auto"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-start">
+                    <div>
+                        <h2 className="text-2xl font-black text-pop-text mb-1">Documents</h2>
+                        <p className="text-slate-500 font-medium text-sm">All your mind maps and mandala charts.</p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+                        <span className="text-2xl font-bold">×</span>
+                    </button>
+                </div>
+
+                {SECTIONS.map(section => {
+                    // Most recently edited first
+                    const docs = documents
+                        .filter(d => d.mode === section.mode)
+                        .sort((a, b) => b.updatedAt - a.updatedAt);
+
+                    return (
+                        <section key={section.mode} className="flex flex-col gap-2">
+                            <div className="flex justify-between items-center">
+                                <h3 className="font-black text-slate-600">{section.icon} {section.label}</h3>
+                                <button
+                                    onClick={() => onCreate(section.mode)}
+                                    className={`pop-btn text-xs px-3 py-1 ${section.mode === 'mandala' ? 'pop-btn-orange' : 'pop-btn-blue'}`}
+                                >
+                                    + New
+                                </button>
+                            </div>
+
+                            <ul className="flex flex-col gap-2">
+                                {docs.map(doc => {
+                                    const isActive = activeDocuments[doc.mode].id === doc.id;
+                                    const isCurrent = isActive && doc.mode === mode;
+                                    return (
+                                        <li
+                                            key={doc.id}
+                                            className={`group rounded-xl border-2 px-3 py-2 flex items-center gap-2 transition-all ${isCurrent
+                                                ? 'border-pop-blue bg-blue-50'
+                                                : isActive ? 'border-pop-blue-light bg-white' : 'border-slate-200 bg-white hover:border-pop-blue-light'
+                                                }`}
+                                        >
+                                            {editingId === doc.id ? (
+                                                <input
+                                                    autoFocus
+                                                    value={draftName}
+                                                    onChange={(e) => setDraftName(e.target.value)}
+                                                    onBlur={commitRename}
+                                                    onKeyDown={(e) => {
+                                                        if (e.key === 'Enter') commitRename();
+                                                        if (e.key === 'Escape') setEditingId(null);
+                                                    }}
+                                                    className="pop-input flex-1 text-sm py-1"
+                                                />
+                                            ) : (
+                                                <button className="flex-1 text-left min-w-0" onClick={() => onOpen(doc)}>
+                                                    <div className="font-bold text-pop-text truncate">{doc.name}</div>
+                                                    <div className="text-xs text-slate-400 font-medium">Edited {formatTimestamp(doc.updatedAt)}</div>
+                                                </button>
+                                            )}
+
+                                            <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                                <button onClick={() => startRename(doc)} className="w-7 h-7 rounded-full hover:bg-slate-100" title="Rename">✏️</button>
+                                                <button onClick={() => onDuplicate(doc.id)} className="w-7 h-7 rounded-full hover:bg-slate-100" title="Duplicate">⧉</button>
+                                                <button
+                                                    onClick={() => {
+                                                        if (confirm(`Delete "${doc.name}"? This cannot be undone.`)) onDelete(doc.id);
+                                                    }}
+                                                    className="w-7 h-7 rounded-full hover:bg-red-50"
+                                                    title="Delete"
+                                                >
+                                                    🗑
+                                                </button>
+                                            </div>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </section>
+                    );
+                })}
+            </aside>
+        </div>
+    );
+};
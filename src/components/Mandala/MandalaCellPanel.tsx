@@ -0,0 +1,96 @@
+import React from 'react';
+import type { MandalaCell, MandalaCellMeta } from '../../types';
+import { CELL_STATUSES } from '../../utils/cellStatus';
+import type { CellProgress, MandalaCellKind } from '../../utils/cellStatus';
+
+interface Props {
+    cell: MandalaCell; // Render with key per cell so the inputs reset when the focus moves
+    kind: MandalaCellKind;
+    progress: CellProgress | null; // Aggregated progress of a sub-goal or the core
+    onChange: (patch: Partial<MandalaCellMeta>) => void;
+    onClose: () => void;
+}
+
+const KIND_LABELS: Record<MandalaCellKind, string> = { core: 'Main goal', 'sub-goal': 'Sub-goal', action: 'Action' };
+
+export const MandalaCellPanel: React.FC<Props> = ({ cell, kind, progress, onChange, onClose }) => {
+    const optionButton = (isActive: boolean) =>
+        `px-2.5 py-1 rounded-full text-xs font-bold border-2 transition-all ${isActive
+            ? 'bg-pop-blue text-white border-pop-blue-dark'
+            : 'bg-white text-slate-500 border-slate-200 hover:border-pop-blue-light'}`;
+
+    const sectionLabel = 'text-xs font-black text-slate-400 uppercase tracking-wide';
+
+    return (
+        <aside className="w-full max-w-sm md:w-80 shrink-0 pop-card p-5 flex flex-col gap-4 animate-fadeIn">
+            <div className="flex justify-between items-start gap-2">
+                <div className="min-w-0">
+                    <div className={sectionLabel}>{KIND_LABELS[kind]}</div>
+                    <h2 className="text-lg font-black text-pop-text break-words">{cell.text || '(empty)'}</h2>
+                </div>
+                <button onClick={onClose} className="text-slate-400 hover:text-slate-600 font-bold text-xl leading-none" title="Close (⌘+I)">×</button>
+            </div>
+
+            {kind === 'action' ? (
+                <div className="flex flex-col gap-2">
+                    <span className={sectionLabel}>Status <span className="normal-case font-bold">(Space)</span></span>
+                    <div className="flex flex-wrap gap-1">
+                        <button onClick={() => onChange({ status: undefined })} className={optionButton(cell.status === undefined)}>None</button>
+                        {CELL_STATUSES.map(status => (
+                            <button key={status.id} onClick={() => onChange({ status: status.id })} className={optionButton(cell.status === status.id)}>
+                                {status.icon} {status.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            ) : (
+                <div className="flex flex-col gap-2">
+                    <span className={sectionLabel}>Progress</span>
+                    {progress ? (
+                        <>
+                            <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+                                <div className="h-full bg-pop-green transition-all" style={{ width: `${progress.percent}%` }} />
+                            </div>
+                            <span className="text-sm font-bold text-slate-500">
+                                {progress.percent}% · {progress.done} of {progress.total} {kind === 'core' ? 'actions in the chart' : 'actions'} done
+                            </span>
+                        </>
+                    ) : (
+                        <span className="text-sm font-medium text-slate-400">
+                            {kind === 'core' ? 'Write actions around the sub-goals to track progress.' : 'Write actions around this sub-goal to track progress.'}
+                        </span>
+                    )}
+                </div>
+            )}
+
+            <div className="flex flex-col gap-2">
+                <span className={sectionLabel}>Due date</span>
+                <div className="flex items-center gap-2">
+                    <input
+                        type="date"
+                        className="pop-input py-1 px-2 text-sm flex-1"
+                        value={cell.due ?? ''}
+                        onChange={(e) => onChange({ due: e.target.value || undefined })}
+                    />
+                    <button
+                        onClick={() => onChange({ due: undefined })}
+                        disabled={cell.due === undefined}
+                        className="text-xs font-bold text-slate-400 hover:text-slate-600 disabled:opacity-30"
+                    >
+                        Clear
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <span className={sectionLabel}>Note</span>
+                <textarea
+                    className="pop-input text-sm min-h-32 resize-y"
+                    value={cell.note ?? ''}
+                    onChange={(e) => onChange({ note: e.target.value })}
+                    placeholder="Details, next steps..."
+                />
+            </div>
+        </aside>
+    );
+};
@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import type { MandalaChartData } from '../../types';
+import { useSettings } from '../../hooks/useSettings';
+import { DEFAULT_AUTO_EXPAND_SETTINGS } from '../../utils/suggestions';
+import { getTargetGrid, isCenterTarget, suggestCellFill } from '../../utils/mandalaFill';
+import type { FillSuggestion, FillTarget } from '../../utils/mandalaFill';
+
+interface Props {
+    data: MandalaChartData;
+    target: FillTarget;
+    onApply: (suggestions: FillSuggestion[]) => void;
+    onClose: () => void;
+}
+
+type RequestState =
+    | { status: 'loading' }
+    | { status: 'error'; message: string }
+    | { status: 'done'; suggestions: FillSuggestion[] };
+
+export const MandalaFillDialog: React.FC<Props> = ({ data, target, onApply, onClose }) => {
+    // Shares the LLM endpoint and language with the mind map suggestions
+    const [settings, updateSettings] = useSettings('auto-expand', DEFAULT_AUTO_EXPAND_SETTINGS);
+    const [request, setRequest] = useState<RequestState>({ status: 'loading' });
+    const [rejected, setRejected] = useState<Set<number>>(new Set());
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [reloadCount, setReloadCount] = useState(0);
+
+    const { language, llm } = settings;
+    const grid = getTargetGrid(data, target);
+
+    // Edited settings are used once the settings panel closes or on "Ask again", not on every keystroke
+    const [applied, setApplied] = useState({ llm, language });
+    const applySettings = () => {
+        if (applied.llm !== llm || applied.language !== language) setApplied({ llm, language });
+    };
+
+    // The chart is read once when the dialog opens; later edits do not restart the request
+    const [snapshot] = useState(data);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        Promise.resolve()
+            .then(() => {
+                setRequest({ status: 'loading' });
+                setRejected(new Set());
+                return suggestCellFill(snapshot, target, applied, controller.signal);
+            })
+            .then(suggestions => {
+                if (!controller.signal.aborted) setRequest({ status: 'done', suggestions });
+            })
+            .catch(e => {
+                if (controller.signal.aborted) return;
+                console.error(e);
+                setRequest({ status: 'error', message: e instanceof Error ? e.message : String(e) });
+            });
+        return () => controller.abort();
+    }, [snapshot, target, applied, reloadCount]);
+
+    const suggestions = request.status === 'done' ? request.suggestions : [];
+    const accepted = suggestions.filter(s => !rejected.has(s.cellIndex));
+
+    const toggle = (cellIndex: number) => {
+        setRejected(prev => {
+            const next = new Set(prev);
+            if (next.has(cellIndex)) next.delete(cellIndex);
+            else next.add(cellIndex);
+            return next;
+        });
+    };
+
+    const fieldClass = 'pop-input py-1 px-2 text-sm w-full';
+
+    return (
+        <div
+            className="fixed inset-0 bg-slate-900/40 flex items-center justify-center z-50 backdrop-blur-sm animate-fadeIn p-4"
+            onKeyDown={(e) => {
+                if (e.key === 'Escape') onClose();
+            }}
+        >
+            <div className="pop-card p-8 w-full max-w-lg flex flex-col gap-5 max-h-full overflow-y-auto">
+                <div className="flex justify-between items-start">
+                    <div>
+                        <h2 className="text-2xl font-black text-pop-text mb-1">✨ Suggest</h2>
+                        <p className="text-slate-500 font-medium">
+                            {isCenterTarget(target) ? 'Sub-goals for ' : 'Actions for '}
+                            <span className="font-bold text-pop-orange-dark">{grid.cells[4].text}</span>.
+                            Only empty cells are filled, untick what you do not want.
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="text-slate-400 hover:text-slate-600 transition-colors"
+                    >
+                        <span className="text-2xl font-bold">×</span>
+                    </button>
+                </div>
+
+                {/* Preview of the grid: existing cells stay as they are, suggestions can be toggled */}
+                <div className="grid grid-cols-3 gap-1 p-2 rounded-2xl border-4 border-slate-100 self-center">
+                    {grid.cells.map((cell, cellIdx) => {
+                        const suggestion = suggestions.find(s => s.cellIndex === cellIdx);
+                        const base = 'w-24 h-24 flex items-center justify-center text-center text-sm p-1 rounded-xl border-2 break-words whitespace-pre-wrap overflow-hidden leading-tight';
+                        if (!suggestion) {
+                            return (
+                                <div
+                                    key={cellIdx}
+                                    className={`${base} ${cellIdx === 4 ? 'bg-orange-100 text-pop-orange-dark border-orange-200 font-bold' : 'bg-pop-bg border-pop-border text-slate-400'}`}
+                                >
+                                    {request.status === 'loading' && !cell.text.trim() && cellIdx !== 4
+                                        ? <span className="animate-pulse">✨</span>
+                                        : cell.text}
+                                </div>
+                            );
+                        }
+                        const isAccepted = !rejected.has(cellIdx);
+                        return (
+                            <button
+                                key={cellIdx}
+                                onClick={() => toggle(cellIdx)}
+                                title={isAccepted ? 'Click to skip' : 'Click to use'}
+                                className={`${base} font-bold transition-all ${isAccepted
+                                    ? 'bg-blue-50 border-pop-blue text-pop-text'
+                                    : 'bg-white border-dashed border-slate-200 text-slate-300 line-through'}`}
+                            >
+                                {suggestion.text}
+                            </button>
+                        );
+                    })}
+                </div>
+
+                {request.status === 'loading' && (
+                    <div className="flex items-center gap-2 text-sm font-bold text-pop-orange-dark animate-pulse">
+                        <span className="animate-spin">✨</span> Generating...
+                    </div>
+                )}
+                {request.status === 'error' && (
+                    <div className="text-sm font-medium text-pop-red bg-red-50 rounded-lg p-2">{request.message}</div>
+                )}
+                {request.status === 'done' && suggestions.length === 0 && (
+                    <div className="text-sm text-slate-400 font-medium">The model did not return anything usable. Try asking again.</div>
+                )}
+
+                {isSettingsOpen && (
+                    <div className="flex flex-col gap-2 border-t-2 border-slate-100 pt-3 text-xs font-bold text-slate-500">
+                        <label className="flex flex-col gap-1">
+                            Endpoint (…/v1)
+                            <input className={fieldClass} value={llm.endpoint} onChange={(e) => updateSettings({ llm: { ...llm, endpoint: e.target.value } })} />
+                        </label>
+                        <div className="flex gap-2">
+                            <label className="flex-1 flex flex-col gap-1">
+                                Model
+                                <input className={fieldClass} value={llm.model} onChange={(e) => updateSettings({ llm: { ...llm, model: e.target.value } })} />
+                            </label>
+                            <label className="flex-1 flex flex-col gap-1">
+                                Language
+                                <input className={fieldClass} value={language} onChange={(e) => updateSettings({ language: e.target.value.trim() })} placeholder="ja, en, de..." />
+                            </label>
+                        </div>
+                        <label className="flex flex-col gap-1">
+                            API Key (optional)
+                            <input className={fieldClass} type="password" value={llm.apiKey} onChange={(e) => updateSettings({ llm: { ...llm, apiKey: e.target.value } })} />
+                        </label>
+                    </div>
+                )}
+
+                <div className="flex items-center justify-between gap-3 pt-2">
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={() => {
+                                if (isSettingsOpen) applySettings();
+                                setIsSettingsOpen(!isSettingsOpen);
+                            }}
+                            className="text-xs font-bold text-slate-400 hover:text-slate-600"
+                        >
+                            ⚙ Settings
+                        </button>
+                        <button
+                            onClick={() => {
+                                applySettings();
+                                setReloadCount(n => n + 1);
+                            }}
+                            disabled={request.status === 'loading'}
+                            className="text-xs font-bold text-slate-400 hover:text-slate-600 disabled:opacity-40"
+                        >
+                            ↻ Ask again
+                        </button>
+                    </div>
+                    <div className="flex gap-3">
+                        <button onClick={onClose} className="pop-btn pop-btn-neutral">
+                            Cancel
+                        </button>
+                        <button
+                            onClick={() => onApply(accepted)}
+                            disabled={accepted.length === 0}
+                            className="pop-btn pop-btn-orange px-6 disabled:opacity-40 disabled:pointer-events-none"
+                        >
+                            Apply {accepted.length}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,18 +1,63 @@
-import React, { useRef, useState, useEffect } from 'react';
-import type { MandalaChartData, MandalaGridData } from '../../types';
-import { exportMandala } from '../../utils/export';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
+import type { CellStatus, MandalaCellMeta, MandalaChartData, MandalaGridData } from '../../types';
+import { exportMandala, MANDALA_EXPORTERS } from '../../utils/export';
+import { downloadText, toFileName } from '../../utils/download';
+import { ExportMenu } from '../Export/ExportMenu';
+import { ImageExportDialog } from '../Export/ImageExportDialog';
+import { PrintDialog } from '../Print/PrintDialog';
+import { renderMandalaSvg } from '../../utils/imageExport';
+import type { ImageExportOptions } from '../../utils/imageExport';
+import { MandalaFillDialog } from './MandalaFillDialog';
+import { getEmptyCellIndices } from '../../utils/mandalaFill';
+import type { FillSuggestion, FillTarget } from '../../utils/mandalaFill';
+import type { CellEdit, MandalaCellEdit, MandalaCellPosition } from './useMandalaData';
+import { SearchBar } from '../Search/SearchBar';
+import type { ReplacePreview } from '../Search/SearchBar';
+import { HighlightedText } from '../Search/HighlightedText';
+import { cellKey, compileSearch, DEFAULT_SEARCH_OPTIONS, findTextRanges, getCellText, replaceText, searchMandala } from '../../utils/search';
+import type { MandalaCellRef, SearchOptions, TextRange } from '../../utils/search';
+import { MandalaCellPanel } from './MandalaCellPanel';
+import { CELL_STATUSES, formatDueDate, getCellKind, getCoreProgress, getSubGoalProgress, getToday, isActionCell, isOverdue, nextCellStatus } from '../../utils/cellStatus';
+import type { CellProgress } from '../../utils/cellStatus';
+import { formatCellsText, planCellPaste, splitPastedCells } from '../../utils/clipboard';
+import { getCellRectangle } from '../../utils/selection';
+import { getCollaboratorsAt } from '../../utils/collab';
+import type { Collaborator, Presence } from '../../utils/collab';
+import { PresenceMarker } from '../Collab/PresenceMarker';
 
 
 
 interface Props {
     data: MandalaChartData;
+    documentName: string; // Used for export file names
     updateCell: (type: 'center' | 'surrounding', gridIndex: number, cellIndex: number, text: string) => void;
+    fillCells: (type: 'center' | 'surrounding', gridIndex: number, edits: CellEdit[]) => void;
+    updateCells: (edits: MandalaCellEdit[]) => void;
+    clearCells: (cells: MandalaCellPosition[]) => void;
+    updateCellMeta: (type: 'center' | 'surrounding', gridIndex: number, cellIndex: number, patch: Partial<MandalaCellMeta>) => void;
+    onConvertToMindMap: () => void;
+    collaborators: Collaborator[]; // Others in this document while it is shared
+    onPresenceChange: (presence: Presence) => void;
 }
 
-export const MandalaView: React.FC<Props> = ({ data, updateCell }) => {
+export const MandalaView: React.FC<Props> = ({ data, documentName, updateCell, fillCells, updateCells, clearCells, updateCellMeta, onConvertToMindMap, collaborators, onPresenceChange }) => {
     const [focused, setFocused] = useState<{ grid: number; cell: number } | null>(null);
     const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
     const [mobileActiveGrid, setMobileActiveGrid] = useState(4); // Default to Center Grid
+    const [isImageExportOpen, setIsImageExportOpen] = useState(false);
+    const [isPrintOpen, setIsPrintOpen] = useState(false);
+    const [fillTarget, setFillTarget] = useState<FillTarget | null>(null);
+    const [isSearchOpen, setIsSearchOpen] = useState(false);
+    const [searchFocusRequest, setSearchFocusRequest] = useState(0);
+    const [query, setQuery] = useState('');
+    const [searchOptions, setSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+    const [isFilterOn, setIsFilterOn] = useState(false);
+    const [currentMatch, setCurrentMatch] = useState<MandalaCellRef | null>(null);
+    const [isReplaceOpen, setIsReplaceOpen] = useState(false);
+    const [replacement, setReplacement] = useState('');
+    const [isDetailsOpen, setIsDetailsOpen] = useState(false);
+    // Shift/⌘ multi-selection; it lasts while it contains the focused cell
+    const [selection, setSelection] = useState<{ cells: MandalaCellRef[]; anchor: MandalaCellRef } | null>(null);
 
     useEffect(() => {
         const handleResize = () => setIsMobile(window.innerWidth < 768);
@@ -20,8 +65,180 @@ export const MandalaView: React.FC<Props> = ({ data, updateCell }) => {
         return () => window.removeEventListener('resize', handleResize);
     }, []);
 
+    // ⌘+F / Ctrl+F opens the search bar instead of the browser search
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.metaKey || e.ctrlKey) || e.altKey || e.shiftKey || e.key.toLowerCase() !== 'f') return;
+            e.preventDefault();
+            setIsSearchOpen(true);
+            setSearchFocusRequest(n => n + 1);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    const { pattern, error: searchError } = useMemo(() => compileSearch(query, searchOptions), [query, searchOptions]);
+    const matches = useMemo(() => (isSearchOpen ? searchMandala(data, pattern) : []), [isSearchOpen, data, pattern]);
+    const matchKeys = useMemo(() => new Set(matches.map(cellKey)), [matches]);
+    const isSearching = isSearchOpen && pattern !== null;
+    const currentMatchIndex = currentMatch ? matches.findIndex(m => cellKey(m) === cellKey(currentMatch)) : -1;
+
+    const replacePreviews = useMemo<ReplacePreview[]>(() => {
+        if (!isReplaceOpen || !pattern) return [];
+        return matches.map(ref => {
+            const text = getCellText(data, ref);
+            return { key: cellKey(ref), before: text, ranges: findTextRanges(text, pattern), after: replaceText(text, pattern, replacement, searchOptions) };
+        });
+    }, [isReplaceOpen, pattern, matches, data, replacement, searchOptions]);
+
+    // Sub-goals (both copies) and the core show the progress of the actions below them
+    const subGoalProgress = useMemo(() => Array.from({ length: 9 }).map((_, i) => getSubGoalProgress(data, i)), [data]);
+    const coreProgress = useMemo(() => getCoreProgress(data), [data]);
+    const today = getToday();
+
+    const getCellProgress = (gridIdx: number, cellIdx: number): CellProgress | null => {
+        if (gridIdx === 4) return cellIdx === 4 ? coreProgress : subGoalProgress[cellIdx];
+        return cellIdx === 4 ? subGoalProgress[gridIdx] : null;
+    };
+
+    // =========================================================
+    // SELECTION
+    // =========================================================
+
+    const focusedRef: MandalaCellRef | null = focused ? { gridIndex: focused.grid, cellIndex: focused.cell } : null;
+    const isSelectionActive = selection !== null && focusedRef !== null && selection.cells.some(ref => cellKey(ref) === cellKey(focusedRef));
+    const selectedCells = isSelectionActive ? selection.cells : focusedRef ? [focusedRef] : [];
+    const selectedKeys = new Set(selectedCells.map(cellKey));
+    const selectionAnchor = isSelectionActive ? selection.anchor : focusedRef;
+
+    // Shown to the others while the document is shared
+    const presenceFocus = focusedRef ? cellKey(focusedRef) : null;
+    const presenceSelection = isSelectionActive ? selection.cells.map(cellKey).join(' ') : '';
+    useEffect(() => {
+        onPresenceChange({ focus: presenceFocus, selection: presenceSelection ? presenceSelection.split(' ') : [] });
+    }, [onPresenceChange, presenceFocus, presenceSelection]);
+
+    const toPosition = (ref: MandalaCellRef): MandalaCellPosition => ({ gridType: ref.gridIndex === 4 ? 'center' : 'surrounding', gridIndex: ref.gridIndex, cellIndex: ref.cellIndex });
+
+    // Shift+Click: rectangle from the anchor. ⌘/Ctrl+Click: add or remove one cell. Click: just that cell.
+    const handleCellClick = (e: React.MouseEvent, ref: MandalaCellRef) => {
+        if (!e.shiftKey && !e.metaKey && !e.ctrlKey) {
+            setSelection(null);
+            return;
+        }
+        if (!selectionAnchor) {
+            setFocused({ grid: ref.gridIndex, cell: ref.cellIndex });
+            return;
+        }
+        let cells = getCellRectangle(selectionAnchor, ref);
+        let anchor = selectionAnchor;
+        let focus = ref;
+        if (!e.shiftKey) {
+            const isSelected = selectedKeys.has(cellKey(ref));
+            cells = isSelected ? selectedCells.filter(cell => cellKey(cell) !== cellKey(ref)) : [...selectedCells, ref];
+            if (cells.length === 0) return; // Something always stays selected
+            anchor = ref;
+            focus = isSelected ? cells[cells.length - 1] : ref;
+        }
+        setSelection({ cells, anchor });
+        setFocused({ grid: focus.gridIndex, cell: focus.cellIndex });
+    };
+
+    const clearSelection = () => clearCells(selectedCells.map(toPosition));
+
+    const copySelection = () => navigator.clipboard.writeText(formatCellsText(data, selectedCells));
+
+    // Copy / cut of the selected cells while no cell is being edited (the textarea copies text as usual)
+    const handleCopy = (e: React.ClipboardEvent, isCut: boolean) => {
+        if (e.target instanceof HTMLTextAreaElement || selectedCells.length === 0) return;
+        e.preventDefault();
+        e.clipboardData.setData('text/plain', formatCellsText(data, selectedCells));
+        if (isCut) clearSelection();
+    };
+
+    const focusedCell = focused ? (focused.grid === 4 ? data.centerGrid : data.surroundingGrids[focused.grid]).cells[focused.cell] : null;
+
+    const updateFocusedMeta = (patch: Partial<MandalaCellMeta>) => {
+        if (!focused) return;
+        updateCellMeta(focused.grid === 4 ? 'center' : 'surrounding', focused.grid, focused.cell, patch);
+    };
+
+    // On mobile only one grid is shown at a time
+    const isOnScreen = (ref: MandalaCellRef) => !isMobile || ref.gridIndex === mobileActiveGrid;
+
+    const changeSearch = (newQuery: string, newOptions: SearchOptions) => {
+        setQuery(newQuery);
+        setSearchOptions(newOptions);
+        setCurrentMatch(searchMandala(data, compileSearch(newQuery, newOptions).pattern).find(isOnScreen) ?? null);
+    };
+
+    const goToMatch = (match: MandalaCellRef | null) => {
+        setCurrentMatch(match);
+        if (match && isMobile) setMobileActiveGrid(match.gridIndex);
+    };
+
+    const handleSearchStep = (direction: -1 | 1) => {
+        if (matches.length === 0) return;
+        const nextIndex = currentMatchIndex === -1
+            ? (direction === 1 ? 0 : matches.length - 1)
+            : (currentMatchIndex + direction + matches.length) % matches.length;
+        goToMatch(matches[nextIndex]);
+    };
+
+    const toReplaceEdit = (ref: MandalaCellRef, replacePattern: RegExp): MandalaCellEdit => ({
+        gridType: ref.gridIndex === 4 ? 'center' : 'surrounding',
+        gridIndex: ref.gridIndex,
+        cellIndex: ref.cellIndex,
+        text: replaceText(getCellText(data, ref), replacePattern, replacement, searchOptions),
+    });
+
+    // Replaces inside the current cell (the first match if none is active yet), then moves on
+    const handleReplaceOne = () => {
+        if (!pattern || matches.length === 0) return;
+        const index = Math.max(0, currentMatchIndex);
+        updateCells([toReplaceEdit(matches[index], pattern)]);
+        goToMatch(matches.length > 1 ? matches[(index + 1) % matches.length] : null);
+    };
+
+    const handleReplaceAll = () => {
+        if (!pattern || matches.length === 0) return;
+        updateCells(matches.map(ref => toReplaceEdit(ref, pattern)));
+        setCurrentMatch(null);
+    };
+
+    // Closing focuses the current match so keyboard navigation continues from there
+    const closeSearch = () => {
+        setIsSearchOpen(false);
+        if (currentMatch && currentMatchIndex !== -1) setFocused({ grid: currentMatch.gridIndex, cell: currentMatch.cellIndex });
+    };
+
     // Helper to handle navigation
     const handleKeyDown = (e: React.KeyboardEvent, gridIdx: number, cellIdx: number) => {
+        // ⌘+I shows the status, due date and note of the focused cell
+        if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'i') {
+            e.preventDefault();
+            setIsDetailsOpen(isOpen => !isOpen);
+            return;
+        }
+        // Delete / Backspace empties the selected cells, Esc keeps only the focused one
+        if (e.key === 'Delete' || e.key === 'Backspace') {
+            e.preventDefault();
+            clearSelection();
+            return;
+        }
+        if (e.key === 'Escape' && isSelectionActive) {
+            e.preventDefault();
+            setSelection(null);
+            return;
+        }
+
+        // Space steps an action through not started -> in progress -> done -> unset
+        if (e.key === ' ' && isActionCell(gridIdx, cellIdx)) {
+            e.preventDefault();
+            updateCellMeta('surrounding', gridIdx, cellIdx, { status: nextCellStatus(data.surroundingGrids[gridIdx].cells[cellIdx].status) });
+            return;
+        }
+
         // ... (Navigation Logic kept mostly same, but need to consider mobile visibility?)
         // For MVP, focus logic works internally, but visual might jump.
         // Let's keep existing logic.
@@ -63,6 +280,12 @@ export const MandalaView: React.FC<Props> = ({ data, updateCell }) => {
 
         e.preventDefault();
         setFocused({ grid: nextGridIndex, cell: nextCellIndex });
+        // Shift+Arrow grows or shrinks the rectangle from the anchor
+        if (e.shiftKey && selectionAnchor) {
+            setSelection({ cells: getCellRectangle(selectionAnchor, { gridIndex: nextGridIndex, cellIndex: nextCellIndex }), anchor: selectionAnchor });
+        } else {
+            setSelection(null);
+        }
 
         // [Mobile] If navigating to another grid, switch view
         if (isMobile && nextGridIndex !== mobileActiveGrid) {
@@ -76,6 +299,38 @@ export const MandalaView: React.FC<Props> = ({ data, updateCell }) => {
         alert('Copied to clipboard!');
     };
 
+    // Multi-line text pasted into a cell spreads over the empty cells after it
+    const handlePasteCells = (gridIdx: number, cellIdx: number, text: string) => {
+        const grid = gridIdx === 4 ? data.centerGrid : data.surroundingGrids[gridIdx];
+        const { edits, overflow } = planCellPaste(grid.cells, cellIdx, splitPastedCells(text));
+        if (edits.length === 0) return;
+        fillCells(gridIdx === 4 ? 'center' : 'surrounding', gridIdx, edits);
+        if (overflow > 0) alert(`${overflow} pasted ${overflow === 1 ? 'line' : 'lines'} did not fit into the empty cells of this grid.`);
+    };
+
+    const renderImage = useCallback((options: ImageExportOptions) => renderMandalaSvg(data, options), [data]);
+
+    const exportItems = [
+        { id: 'clipboard', label: '📋 Copy as Text', onSelect: copyToClipboard },
+        ...MANDALA_EXPORTERS.map(exporter => ({
+            id: exporter.id,
+            label: `⬇ ${exporter.label}`,
+            hint: `.${exporter.extension}`,
+            onSelect: () => downloadText(
+                toFileName(documentName, exporter.extension),
+                exporter.export(data, documentName),
+                exporter.mimeType,
+            ),
+        })),
+        { id: 'image', label: '🖼 Image (PNG / SVG)…', onSelect: () => setIsImageExportOpen(true) },
+    ];
+
+    const handleApplyFill = (suggestions: FillSuggestion[]) => {
+        if (!fillTarget) return;
+        fillCells(fillTarget.gridIndex === 4 ? 'center' : 'surrounding', fillTarget.gridIndex, suggestions);
+        setFillTarget(null);
+    };
+
     const handleMobileGridSelect = (cellIdx: number) => {
         if (!isMobile) return;
 
@@ -105,13 +360,64 @@ export const MandalaView: React.FC<Props> = ({ data, updateCell }) => {
                 <div className="flex-1"></div>
 
                 <button
-                    onClick={copyToClipboard}
+                    onClick={onConvertToMindMap}
+                    className="pop-btn pop-btn-neutral text-sm whitespace-nowrap"
+                    title="Create a new mind map from this chart"
+                >
+                    🌳 To Mind Map
+                </button>
+                <button
+                    onClick={() => {
+                        setIsSearchOpen(true);
+                        setSearchFocusRequest(n => n + 1);
+                    }}
                     className="pop-btn pop-btn-neutral text-sm whitespace-nowrap"
+                    title="Search (⌘+F)"
                 >
-                    📋 Export
+                    🔍
+                </button>
+                <button
+                    onClick={() => setIsDetailsOpen(isOpen => !isOpen)}
+                    className={`pop-btn text-sm whitespace-nowrap ${isDetailsOpen ? 'pop-btn-blue' : 'pop-btn-neutral'}`}
+                    title="Status, due date and note of the selected cell (⌘+I)"
+                >
+                    📝 Details
+                </button>
+                <ExportMenu label="📤 Export" items={exportItems} />
+                <button
+                    onClick={() => setIsPrintOpen(true)}
+                    className="pop-btn pop-btn-neutral text-sm whitespace-nowrap"
+                >
+                    🖨 Print
                 </button>
             </div>
 
+            {isSearchOpen && (
+                <SearchBar
+                    query={query}
+                    onQueryChange={(newQuery) => changeSearch(newQuery, searchOptions)}
+                    options={searchOptions}
+                    onOptionsChange={(newOptions) => changeSearch(query, newOptions)}
+                    error={searchError}
+                    matchCount={matches.length}
+                    currentIndex={currentMatchIndex}
+                    onStep={handleSearchStep}
+                    isFilterOn={isFilterOn}
+                    onFilterChange={setIsFilterOn}
+                    onClose={closeSearch}
+                    focusRequest={searchFocusRequest}
+                    isReplaceOpen={isReplaceOpen}
+                    onReplaceOpenChange={setIsReplaceOpen}
+                    replacement={replacement}
+                    onReplacementChange={setReplacement}
+                    previews={replacePreviews}
+                    currentKey={currentMatch ? cellKey(currentMatch) : null}
+                    onSelectPreview={(key) => goToMatch(matches.find(m => cellKey(m) === key) ?? null)}
+                    onReplaceOne={handleReplaceOne}
+                    onReplaceAll={handleReplaceAll}
+                />
+            )}
+
             {/* Context Title for Mobile */}
             {isMobile && mobileActiveGrid !== 4 && (
                 <div className="text-xl font-bold text-pop-text animate-fadeIn">
@@ -119,61 +425,143 @@ export const MandalaView: React.FC<Props> = ({ data, updateCell }) => {
                 </div>
             )}
 
-            <div className={`grid gap-4 p-4 transition-all duration-300 ${isMobile ? 'grid-cols-1 w-full max-w-sm' : 'grid-cols-3 max-w-5xl'}`}>
-                {Array.from({ length: 9 }).map((_, gridIdx) => {
-                    // [Mobile Visibility Logic]
-                    if (isMobile && gridIdx !== mobileActiveGrid) return null;
-
-                    let gridData: MandalaGridData;
-                    let isCenterGrid = false;
-
-                    if (gridIdx === 4) {
-                        gridData = data.centerGrid;
-                        isCenterGrid = true;
-                    } else {
-                        gridData = data.surroundingGrids[gridIdx];
-                    }
-
-                    return (
-                        <div
-                            key={gridIdx}
-                            className={`grid grid-cols-3 gap-1 p-2 rounded-2xl border-4 transition-all duration-300 shadow-sm animate-popIn ${isCenterGrid
-                                ? 'bg-orange-50 border-pop-orange shadow-orange-100'
-                                : 'bg-white border-white shadow-slate-200/50'
-                                }`}
-                        >
-                            {gridData.cells.map((cell, cellIdx) => {
-                                // Check if this cell is the "Center" of its grid (index 4)
-                                const isCenterCell = cellIdx === 4;
-                                const isFocused = focused?.grid === gridIdx && focused?.cell === cellIdx;
-
-                                // Special Styling for the Absolute Core (Center Grid + Center Cell)
-                                const isAbsoluteCore = isCenterGrid && isCenterCell;
-
-                                return (
-                                    <Cell
-                                        key={cellIdx}
-                                        text={cell.text}
-                                        isFocused={isFocused}
-                                        isCenter={isCenterCell}
-                                        isCore={isAbsoluteCore}
-                                        // On mobile center grid, tapping acts as navigation
-                                        onClickProp={isMobile && isCenterGrid && !isCenterCell ? () => handleMobileGridSelect(cellIdx) : undefined}
-                                        onChange={(val) => updateCell(isCenterGrid ? 'center' : 'surrounding', gridIdx, cellIdx, val)}
-                                        onKeyDown={(e) => handleKeyDown(e, gridIdx, cellIdx)}
-                                        onFocus={() => {
-                                            setFocused({ grid: gridIdx, cell: cellIdx });
-                                            // Ensure visible on focus (keyboard nav)
-                                            if (isMobile && gridIdx !== mobileActiveGrid) setMobileActiveGrid(gridIdx);
-                                        }}
-                                        placeholder={isAbsoluteCore ? 'MAIN GOAL' : ''}
-                                    />
-                                );
-                            })}
-                        </div>
-                    );
-                })}
+            {/* Bulk actions for a multi-selection */}
+            {isSelectionActive && selectedCells.length > 1 && (
+                <div className="flex items-center gap-2 pop-card px-3 py-1.5 animate-fadeIn">
+                    <span className="text-xs font-black text-pop-blue-dark">{selectedCells.length} cells selected</span>
+                    <button onClick={copySelection} className="px-2 py-1 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100" title="Copy as rows of tab-separated cells (⌘+C)">📋 Copy</button>
+                    <button onClick={clearSelection} className="px-2 py-1 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100" title="Empty text, status, due date and note (Del)">🧹 Clear</button>
+                    <button onClick={() => setSelection(null)} className="px-2 py-1 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100" title="Keep only the focused cell (Esc)">✕</button>
+                </div>
+            )}
+
+            <div className={`flex gap-4 items-start ${isMobile ? 'flex-col items-center w-full' : ''}`}>
+                <div
+                    onCopy={(e) => handleCopy(e, false)}
+                    onCut={(e) => handleCopy(e, true)}
+                    className={`grid gap-4 p-4 transition-all duration-300 ${isMobile ? 'grid-cols-1 w-full max-w-sm' : 'grid-cols-3 max-w-5xl'}`}>
+                    {Array.from({ length: 9 }).map((_, gridIdx) => {
+                        // [Mobile Visibility Logic]
+                        if (isMobile && gridIdx !== mobileActiveGrid) return null;
+
+                        let gridData: MandalaGridData;
+                        let isCenterGrid = false;
+
+                        if (gridIdx === 4) {
+                            gridData = data.centerGrid;
+                            isCenterGrid = true;
+                        } else {
+                            gridData = data.surroundingGrids[gridIdx];
+                        }
+
+                        // A grid can be filled in once it has a theme (main goal / sub-goal) and room left
+                        const hasTheme = gridData.cells[4].text.trim() !== '';
+                        const canSuggest = getEmptyCellIndices(data, { gridIndex: gridIdx }).length > 0;
+
+                        return (
+                            <div
+                                key={gridIdx}
+                                className={`relative group grid grid-cols-3 gap-1 p-2 rounded-2xl border-4 transition-all duration-300 shadow-sm animate-popIn ${isCenterGrid
+                                    ? 'bg-orange-50 border-pop-orange shadow-orange-100'
+                                    : 'bg-white border-white shadow-slate-200/50'
+                                    }`}
+                            >
+                                {canSuggest && (
+                                    <button
+                                        onClick={() => setFillTarget({ gridIndex: gridIdx })}
+                                        disabled={!hasTheme}
+                                        className={`absolute -top-3 -right-3 z-20 w-8 h-8 rounded-full bg-white border-2 border-pop-border shadow-sm text-sm transition-all hover:scale-110 hover:border-pop-orange disabled:opacity-40 disabled:pointer-events-none ${isMobile ? '' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'}`}
+                                        title={hasTheme
+                                            ? (isCenterGrid ? 'Suggest sub-goals for the empty cells' : 'Suggest actions for the empty cells')
+                                            : (isCenterGrid ? 'Write the main goal first' : 'Write the sub-goal first')}
+                                    >
+                                        ✨
+                                    </button>
+                                )}
+                                {gridData.cells.map((cell, cellIdx) => {
+                                    // Check if this cell is the "Center" of its grid (index 4)
+                                    const isCenterCell = cellIdx === 4;
+                                    const isFocused = focused?.grid === gridIdx && focused?.cell === cellIdx;
+                                    const isSelected = isSelectionActive && !isFocused && selectedKeys.has(cellKey({ gridIndex: gridIdx, cellIndex: cellIdx }));
+                                    const isMatch = isSearching && matchKeys.has(cellKey({ gridIndex: gridIdx, cellIndex: cellIdx }));
+
+                                    // Special Styling for the Absolute Core (Center Grid + Center Cell)
+                                    const isAbsoluteCore = isCenterGrid && isCenterCell;
+
+                                    return (
+                                        <Cell
+                                            key={cellIdx}
+                                            text={cell.text}
+                                            isFocused={isFocused}
+                                            isSelected={isSelected}
+                                            collaborators={getCollaboratorsAt(collaborators, cellKey({ gridIndex: gridIdx, cellIndex: cellIdx }))}
+                                            presenceId={cellKey({ gridIndex: gridIdx, cellIndex: cellIdx })}
+                                            isCenter={isCenterCell}
+                                            isCore={isAbsoluteCore}
+                                            status={isActionCell(gridIdx, cellIdx) ? cell.status : undefined}
+                                            progress={getCellProgress(gridIdx, cellIdx)}
+                                            due={cell.due}
+                                            isOverdue={isOverdue(cell, today)}
+                                            note={cell.note}
+                                            highlights={isMatch ? findTextRanges(cell.text, pattern) : []}
+                                            isCurrentMatch={isMatch && currentMatch?.gridIndex === gridIdx && currentMatch?.cellIndex === cellIdx}
+                                            isDimmed={isSearching && isFilterOn && !isMatch}
+                                            // On mobile center grid, tapping acts as navigation
+                                            onClickProp={isMobile && isCenterGrid && !isCenterCell ? () => handleMobileGridSelect(cellIdx) : undefined}
+                                            onChange={(val) => updateCell(isCenterGrid ? 'center' : 'surrounding', gridIdx, cellIdx, val)}
+                                            onKeyDown={(e) => handleKeyDown(e, gridIdx, cellIdx)}
+                                            onPasteText={(text) => handlePasteCells(gridIdx, cellIdx, text)}
+                                            onSelectClick={(e) => handleCellClick(e, { gridIndex: gridIdx, cellIndex: cellIdx })}
+                                            onFocus={() => {
+                                                setFocused({ grid: gridIdx, cell: cellIdx });
+                                                // Ensure visible on focus (keyboard nav)
+                                                if (isMobile && gridIdx !== mobileActiveGrid) setMobileActiveGrid(gridIdx);
+                                            }}
+                                            placeholder={isAbsoluteCore ? 'MAIN GOAL' : ''}
+                                        />
+                                    );
+                                })}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {isDetailsOpen && focused && focusedCell && (
+                    <MandalaCellPanel
+                        key={`${focused.grid}:${focused.cell}`}
+                        cell={focusedCell}
+                        kind={getCellKind(focused.grid, focused.cell)}
+                        progress={getCellProgress(focused.grid, focused.cell)}
+                        onChange={updateFocusedMeta}
+                        onClose={() => setIsDetailsOpen(false)}
+                    />
+                )}
             </div>
+
+            {isImageExportOpen && (
+                <ImageExportDialog
+                    documentName={documentName}
+                    render={renderImage}
+                    onClose={() => setIsImageExportOpen(false)}
+                />
+            )}
+
+            {fillTarget && (
+                <MandalaFillDialog
+                    data={data}
+                    target={fillTarget}
+                    onApply={handleApplyFill}
+                    onClose={() => setFillTarget(null)}
+                />
+            )}
+
+            {isPrintOpen && (
+                <PrintDialog
+                    target={{ kind: 'mandala', data }}
+                    documentName={documentName}
+                    onClose={() => setIsPrintOpen(false)}
+                />
+            )}
         </div>
     );
 };
@@ -181,16 +569,30 @@ export const MandalaView: React.FC<Props> = ({ data, updateCell }) => {
 interface CellProps {
     text: string;
     isFocused: boolean;
+    isSelected: boolean; // Part of a multi-selection (the focused cell has its own style)
+    collaborators: Collaborator[]; // Others on this cell
+    presenceId: string;
     isCenter: boolean;
     isCore: boolean;
+    status?: CellStatus; // Action cells only
+    progress: CellProgress | null; // Sub-goals and the core: progress of the actions below
+    due?: string;
+    isOverdue: boolean;
+    note?: string;
+    highlights: TextRange[]; // Search hits inside the text
+    isCurrentMatch: boolean;
+    isDimmed: boolean; // Filter mode: not a search hit
     onChange: (val: string) => void;
     onKeyDown: (e: React.KeyboardEvent) => void;
+    onPasteText: (text: string) => void; // Replaces the cell, extra lines go to the next empty cells
+    onSelectClick: (e: React.MouseEvent) => void; // Every click; with Shift/⌘ it only changes the selection
     onFocus: () => void;
     placeholder?: string;
     onClickProp?: () => void; // New prop for custom click handling (e.g. mobile nav)
 }
 
-const Cell: React.FC<CellProps> = ({ text, isFocused, isCenter, isCore, onChange, onKeyDown, onFocus, placeholder, onClickProp }) => {
+const Cell: React.FC<CellProps> = ({ text, isFocused, isSelected, collaborators, presenceId, isCenter, isCore, status, progress, due, isOverdue, note, highlights, isCurrentMatch, isDimmed, onChange, onKeyDown, onPasteText, onSelectClick, onFocus, placeholder, onClickProp }) => {
+    const cellRef = useRef<HTMLDivElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLTextAreaElement>(null);
     const [editMode, setEditMode] = useState(false);
@@ -211,6 +613,10 @@ const Cell: React.FC<CellProps> = ({ text, isFocused, isCenter, isCore, onChange
         }
     }, [isFocused, editMode]);
 
+    useEffect(() => {
+        if (isCurrentMatch) cellRef.current?.scrollIntoView({ block: 'nearest', inline: 'nearest', behavior: 'smooth' });
+    }, [isCurrentMatch]);
+
     const commitChange = () => {
         onChange(localText);
         setEditMode(false);
@@ -240,6 +646,16 @@ const Cell: React.FC<CellProps> = ({ text, isFocused, isCenter, isCore, onChange
         // Allow default typing behavior
     };
 
+    // While editing, single lines are pasted into the text as usual
+    const handlePaste = (e: React.ClipboardEvent) => {
+        const pasted = e.clipboardData.getData('text/plain');
+        if (editMode && !/[\n\t]/.test(pasted.trim())) return;
+        e.preventDefault();
+        // Commit the edit in progress first, so its blur cannot overwrite the pasted text afterwards
+        inputRef.current?.blur();
+        onPasteText(pasted);
+    };
+
     // Dynamic Classes for Pop Design
     const baseClasses = "relative w-24 h-24 flex items-center justify-center cursor-pointer text-center text-sm p-1 transition-all duration-200 rounded-xl border-2";
 
@@ -251,6 +667,23 @@ const Cell: React.FC<CellProps> = ({ text, isFocused, isCenter, isCore, onChange
     } else if (isCenter) {
         // Surrounding Grid Center Cell (Sub Goals)
         colorClasses = "bg-orange-100 text-pop-orange-dark border-orange-200 font-bold hover:bg-orange-50";
+    } else if (status === 'done') {
+        colorClasses = "bg-green-100 border-pop-green text-slate-500 hover:bg-green-50";
+    } else if (status === 'doing') {
+        colorClasses = "bg-yellow-50 border-pop-yellow text-pop-text hover:bg-white";
+    }
+
+    if (isCurrentMatch) {
+        colorClasses += " ring-4 ring-yellow-300 border-yellow-400";
+    } else if (highlights.length > 0) {
+        colorClasses += " border-yellow-300";
+    }
+    if (isDimmed) {
+        colorClasses += " opacity-30";
+    }
+
+    if (isSelected) {
+        colorClasses += " ring-4 ring-pop-blue-light/60 border-pop-blue-light";
     }
 
     if (isFocused) {
@@ -260,8 +693,15 @@ const Cell: React.FC<CellProps> = ({ text, isFocused, isCenter, isCore, onChange
 
     return (
         <div
+            ref={cellRef}
             className={`${baseClasses} ${colorClasses}`}
-            onClick={() => {
+            // Shift/⌘ clicks keep the focus (and the selection anchor) where they are
+            onMouseDown={(e) => {
+                if (e.shiftKey || e.metaKey || e.ctrlKey) e.preventDefault();
+            }}
+            onClick={(e) => {
+                onSelectClick(e);
+                if (e.shiftKey || e.metaKey || e.ctrlKey) return;
                 if (onClickProp) {
                     onClickProp();
                 } else {
@@ -270,6 +710,32 @@ const Cell: React.FC<CellProps> = ({ text, isFocused, isCenter, isCore, onChange
                 }
             }}
         >
+            {/* Progress fills the sub-goal / core cell from the bottom */}
+            {progress && (
+                <div
+                    className={`absolute inset-x-0 bottom-0 rounded-b-[10px] pointer-events-none transition-all duration-300 ${isCore ? 'bg-white/25' : 'bg-pop-green/30'} ${progress.percent === 100 ? 'rounded-t-[10px]' : ''}`}
+                    style={{ height: `${progress.percent}%` }}
+                />
+            )}
+            {status && (
+                <span className="absolute top-0.5 left-1.5 text-xs text-slate-400 pointer-events-none" title={CELL_STATUSES.find(s => s.id === status)?.label}>
+                    {CELL_STATUSES.find(s => s.id === status)?.icon}
+                </span>
+            )}
+            {note && <span className="absolute top-0.5 right-1 text-[10px]" title={note}>📝</span>}
+            <PresenceMarker id={presenceId} collaborators={collaborators} rounded="rounded-2xl" />
+            {(due || progress) && (
+                <div className="absolute bottom-0.5 inset-x-1 flex justify-between items-end gap-1 text-[10px] font-bold leading-none pointer-events-none">
+                    <span className={isOverdue ? 'text-pop-red' : isCore ? 'text-white/80' : 'text-slate-400'} title={due && `Due ${due}${isOverdue ? ' (overdue)' : ''}`}>
+                        {due ? `📅 ${formatDueDate(due)}` : ''}
+                    </span>
+                    {progress && (
+                        <span className={isCore ? 'text-white' : 'text-pop-green'} title={`${progress.done} of ${progress.total} actions done`}>
+                            {progress.percent}%
+                        </span>
+                    )}
+                </div>
+            )}
             {editMode ? (
                 <textarea
                     ref={inputRef}
@@ -277,19 +743,21 @@ const Cell: React.FC<CellProps> = ({ text, isFocused, isCenter, isCore, onChange
                     onChange={(e) => setLocalText(e.target.value)}
                     onKeyDown={handleInputKeyDown}
                     onBlur={commitChange}
+                    onPaste={handlePaste}
                     placeholder={placeholder}
-                    className="w-full h-full bg-transparent resize-none outline-none text-center font-bold"
+                    className="relative w-full h-full bg-transparent resize-none outline-none text-center font-bold"
                     style={{ color: isCore ? 'white' : 'inherit' }}
                 />
             ) : (
                 <div
                     ref={containerRef}
                     tabIndex={0}
-                    className="w-full h-full flex items-center justify-center outline-none break-words whitespace-pre-wrap overflow-hidden leading-tight font-medium"
+                    className={`relative w-full h-full flex items-center justify-center outline-none break-words whitespace-pre-wrap overflow-hidden leading-tight font-medium ${status === 'done' ? 'line-through decoration-2' : ''}`}
                     onKeyDown={handleContainerKeyDown}
+                    onPaste={handlePaste}
                     onFocus={onFocus}
                 >
-                    {text || (placeholder && <span className="opacity-60 italic font-normal text-xs">{placeholder}</span>)}
+                    {text ? <HighlightedText text={text} ranges={highlights} /> : (placeholder && <span className="opacity-60 italic font-normal text-xs">{placeholder}</span>)}
                 </div>
             )}
         </div>
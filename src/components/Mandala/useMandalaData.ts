@@ -1,5 +1,10 @@
-import { useState, useCallback } from 'react';
-import type { MandalaChartData, MandalaGridData } from '../../types';
+import { useCallback } from 'react';
+import type { MandalaCell, MandalaCellMeta, MandalaChartData, MandalaGridData } from '../../types';
+import { useHistoryState } from '../../hooks/useHistoryState';
+import { documentStorageKey } from '../../utils/documents';
+import { mandalaCodec } from '../../utils/schema';
+import { MERGERS } from '../../utils/merge';
+import { withCellMeta } from '../../utils/cellStatus';
 
 const INITIAL_GRID_TITLES = [
     'Top Left', 'Top Center', 'Top Right',
@@ -18,101 +23,154 @@ const createEmptyGrid = (idPrefix: string, title: string): MandalaGridData => {
     };
 };
 
-export const useMandalaData = () => {
-    const [data, setData] = useState<MandalaChartData>(() => {
-        // [NEW] LocalStorage Load
-        const saved = localStorage.getItem('mandala-data-v1');
-        if (saved) {
-            try {
-                return JSON.parse(saved);
-            } catch (e) {
-                console.error("Failed to parse saved Mandala data", e);
-            }
-        }
-
-        // Default Init
-        const centerGrid = createEmptyGrid('center', 'Main Goal');
-        const surroundingGrids = Array.from({ length: 9 }).map((_, i) => {
-            if (i === 4) return createEmptyGrid('center-placeholder', 'Center'); // Placeholder
-            return createEmptyGrid(`surrounding-${i}`, INITIAL_GRID_TITLES[i]);
-        });
-        return { centerGrid, surroundingGrids };
+const createInitialData = (): MandalaChartData => {
+    const centerGrid = createEmptyGrid('center', 'Main Goal');
+    const surroundingGrids = Array.from({ length: 9 }).map((_, i) => {
+        if (i === 4) return createEmptyGrid('center-placeholder', 'Center'); // Placeholder
+        return createEmptyGrid(`surrounding-${i}`, INITIAL_GRID_TITLES[i]);
     });
+    return { centerGrid, surroundingGrids };
+};
 
-    // Helper to save to local storage
-    const saveData = (newData: MandalaChartData) => {
-        localStorage.setItem('mandala-data-v1', JSON.stringify(newData));
-    };
+export type MandalaGridType = 'center' | 'surrounding';
+
+export interface CellEdit {
+    cellIndex: number;
+    text: string;
+    meta?: Partial<MandalaCellMeta>; // e.g. the "{done}" block of pasted text
+}
+
+export interface MandalaCellPosition {
+    gridType: MandalaGridType;
+    gridIndex: number;
+    cellIndex: number;
+}
+
+export interface MandalaCellEdit extends CellEdit, MandalaCellPosition {}
+
+// Sync logic: When Center Grid's outer cells change, update Surrounding Grid's center (index 4).
+// When Surrounding Grid's center changes, update Center Grid's outer cell.
+// `change` returns the new version of a cell and is applied to both copies of a sub-goal.
+const applyCellChange = (prev: MandalaChartData, gridType: MandalaGridType, gridIndex: number, cellIndex: number, change: (cell: MandalaCell) => MandalaCell): MandalaChartData => {
+    const next = { ...prev };
+
+    if (gridType === 'center') {
+        // Update Center Grid
+        const newCells = [...next.centerGrid.cells];
+        newCells[cellIndex] = change(newCells[cellIndex]);
+        next.centerGrid = { ...next.centerGrid, cells: newCells };
+
+        // If it's not the absolute center (index 4), sync with surrounding grid
+        if (cellIndex !== 4) {
+            const surroundingGrid = { ...next.surroundingGrids[cellIndex] };
+            const sCells = [...surroundingGrid.cells];
+            sCells[4] = change(sCells[4]); // Center of surrounding grid
+            surroundingGrid.cells = sCells;
+
+            const newSurrounding = [...next.surroundingGrids];
+            newSurrounding[cellIndex] = surroundingGrid;
+            next.surroundingGrids = newSurrounding;
+        }
+    } else {
+        // Update Surrounding Grid
+        const surroundingGrid = { ...next.surroundingGrids[gridIndex] };
+        const sCells = [...surroundingGrid.cells];
+        sCells[cellIndex] = change(sCells[cellIndex]);
+        surroundingGrid.cells = sCells;
+
+        const newSurrounding = [...next.surroundingGrids];
+        newSurrounding[gridIndex] = surroundingGrid;
+
+        next.surroundingGrids = newSurrounding;
+
+        // If updated cell was the center (4) of a surrounding grid, sync to Main Grid
+        if (cellIndex === 4) {
+            const mainCells = [...next.centerGrid.cells];
+            mainCells[gridIndex] = change(mainCells[gridIndex]);
+            next.centerGrid = { ...next.centerGrid, cells: mainCells };
+        }
+    }
 
-    // Sync logic: When Center Grid's outer cells change, update Surrounding Grid's center (index 4).
-    // When Surrounding Grid's center changes, update Center Grid's outer cell.
-
-    const updateCell = useCallback((gridType: 'center' | 'surrounding', gridIndex: number, cellIndex: number, newText: string) => {
-        setData(prev => {
-            const next = { ...prev };
-
-            if (gridType === 'center') {
-                // Update Center Grid
-                const newCells = [...next.centerGrid.cells];
-                newCells[cellIndex] = { ...newCells[cellIndex], text: newText };
-                next.centerGrid = { ...next.centerGrid, cells: newCells };
-
-                // If it's not the absolute center (index 4), sync with surrounding grid
-                if (cellIndex !== 4) {
-                    const surroundingGrid = { ...next.surroundingGrids[cellIndex] };
-                    const sCells = [...surroundingGrid.cells];
-                    sCells[4] = { ...sCells[4], text: newText }; // Center of surrounding grid
-                    surroundingGrid.cells = sCells;
-
-                    const newSurrounding = [...next.surroundingGrids];
-                    newSurrounding[cellIndex] = surroundingGrid;
-                    next.surroundingGrids = newSurrounding;
-                }
-            } else {
-                // Update Surrounding Grid
-                const surroundingGrid = { ...next.surroundingGrids[gridIndex] };
-                const sCells = [...surroundingGrid.cells];
-                sCells[cellIndex] = { ...sCells[cellIndex], text: newText };
-                surroundingGrid.cells = sCells;
-
-                const newSurrounding = [...next.surroundingGrids];
-                newSurrounding[gridIndex] = surroundingGrid;
-
-                next.surroundingGrids = newSurrounding;
-
-                // If updated cell was the center (4) of a surrounding grid, sync to Main Grid
-                if (cellIndex === 4) {
-                    const mainCells = [...next.centerGrid.cells];
-                    mainCells[gridIndex] = { ...mainCells[gridIndex], text: newText };
-                    next.centerGrid = { ...next.centerGrid, cells: mainCells };
-                }
-            }
-
-            saveData(next); // [NEW] Auto-save
-            return next;
-        });
-    }, []);
-
-    const setFullData = (newData: MandalaChartData) => {
-        setData(newData);
-        saveData(newData); // [NEW] Auto-save on import
-    };
+    return next;
+};
 
-    const resetData = () => {
-        const centerGrid = createEmptyGrid('center', 'Main Goal');
-        const surroundingGrids = Array.from({ length: 9 }).map((_, i) => {
-            if (i === 4) return createEmptyGrid('center-placeholder', 'Center');
-            return createEmptyGrid(`surrounding-${i}`, INITIAL_GRID_TITLES[i]);
-        });
-        const initialData = { centerGrid, surroundingGrids };
-        setData(initialData);
-        saveData(initialData);
-    };
+const applyCellText = (prev: MandalaChartData, gridType: MandalaGridType, gridIndex: number, cellIndex: number, newText: string) =>
+    applyCellChange(prev, gridType, gridIndex, cellIndex, cell => ({ ...cell, text: newText }));
+
+// Data of one library document. `onChange` is called after every edit (used for last-modified timestamps).
+export const useMandalaData = (documentId: string, onChange?: () => void) => {
+    // Every mutation goes through `update` so it becomes an undoable step (auto-saved by the history hook)
+    const { state: data, update, replaceState, undo, redo, canUndo, canRedo, loadError, repairData, discardData, conflicts, dismissConflicts } = useHistoryState<MandalaChartData>(documentStorageKey(documentId), mandalaCodec, createInitialData, onChange, MERGERS.mandala);
+
+    const updateCell = useCallback((gridType: MandalaGridType, gridIndex: number, cellIndex: number, newText: string) => {
+        update(prev => {
+            // Committing an unchanged cell (e.g. blur without typing) should not create an undo step
+            const currentGrid = gridType === 'center' ? prev.centerGrid : prev.surroundingGrids[gridIndex];
+            if (currentGrid.cells[cellIndex].text === newText) return prev;
+            return applyCellText(prev, gridType, gridIndex, cellIndex, newText);
+        }, { group: `cell:${gridType}:${gridIndex}:${cellIndex}` });
+    }, [update]);
+
+    // Several cells of one grid at once (e.g. accepted suggestions, pasted lines): a single undo step
+    const fillCells = useCallback((gridType: MandalaGridType, gridIndex: number, edits: CellEdit[]) => {
+        update(prev => edits.reduce(
+            (next, edit) => applyCellChange(next, gridType, gridIndex, edit.cellIndex, cell => withCellMeta({ ...cell, text: edit.text }, edit.meta ?? {})),
+            prev,
+        ));
+    }, [update]);
+
+    // Cells anywhere in the chart (e.g. Replace All): a single undo step
+    const updateCells = useCallback((edits: MandalaCellEdit[]) => {
+        update(prev => edits.reduce((next, edit) => {
+            // Unchanged cells are skipped, so replacing a text with itself creates no undo step
+            const grid = edit.gridType === 'center' ? next.centerGrid : next.surroundingGrids[edit.gridIndex];
+            if (grid.cells[edit.cellIndex].text === edit.text) return next;
+            return applyCellText(next, edit.gridType, edit.gridIndex, edit.cellIndex, edit.text);
+        }, prev));
+    }, [update]);
+
+    // Empties cells completely (text, status, due date and note): a single undo step
+    const clearCells = useCallback((cells: MandalaCellPosition[]) => {
+        update(prev => cells.reduce(
+            (next, cell) => applyCellChange(next, cell.gridType, cell.gridIndex, cell.cellIndex, ({ id }) => ({ id, text: '' })),
+            prev,
+        ));
+    }, [update]);
+
+    // Status, due date or note of a cell
+    const updateCellMeta = useCallback((gridType: MandalaGridType, gridIndex: number, cellIndex: number, patch: Partial<MandalaCellMeta>) => {
+        update(
+            prev => applyCellChange(prev, gridType, gridIndex, cellIndex, cell => withCellMeta(cell, patch)),
+            { group: `cell-meta:${gridType}:${gridIndex}:${cellIndex}:${Object.keys(patch).join(',')}` }, // Typing a note merges into one undo step
+        );
+    }, [update]);
+
+    const setFullData = useCallback((newData: MandalaChartData) => {
+        update(() => newData); // Undoable, so an accidental import can be reverted
+    }, [update]);
+
+    const resetData = useCallback(() => {
+        update(() => createInitialData());
+    }, [update]);
 
     return {
         data,
         updateCell,
+        fillCells,
+        updateCells,
+        clearCells,
+        updateCellMeta,
         setFullData,
-        resetData
+        resetData,
+        replaceState,
+        undo,
+        redo,
+        canUndo,
+        canRedo,
+        loadError,
+        repairData,
+        discardData,
+        conflicts,
+        dismissConflicts
     };
 };
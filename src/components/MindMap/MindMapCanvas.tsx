@@ -1,6 +1,35 @@
-import React, { useRef, useState, useEffect, useCallback } from 'react';
-import type { MindMapNode } from '../../types';
-import { exportMindMap } from '../../utils/export';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
+import type { MindMapNode, DropPosition, NodeMeta, NodePosition } from '../../types';
+import { exportMindMap, MINDMAP_EXPORTERS } from '../../utils/export';
+import { downloadText, toFileName } from '../../utils/download';
+import { ExportMenu } from '../Export/ExportMenu';
+import { ImageExportDialog } from '../Export/ImageExportDialog';
+import { PrintDialog } from '../Print/PrintDialog';
+import { SuggestionPopover } from './SuggestionPopover';
+import { NodeBadges } from './NodeBadges';
+import { NodeDetailsPanel } from './NodeDetailsPanel';
+import { findNodePath } from './useMindMapData';
+import type { SuggestionContext } from '../../utils/suggestions';
+import { renderMindMapSvg } from '../../utils/imageExport';
+import type { ImageExportOptions } from '../../utils/imageExport';
+import { SearchBar } from '../Search/SearchBar';
+import type { ReplacePreview } from '../Search/SearchBar';
+import { HighlightedText } from '../Search/HighlightedText';
+import { collectMatchBranches, compileSearch, DEFAULT_SEARCH_OPTIONS, findTextRanges, replaceText, searchMindMap } from '../../utils/search';
+import type { SearchOptions } from '../../utils/search';
+import { getNodeColorHex } from '../../utils/nodeMeta';
+import { isMindMapLayout, layoutMindMap, MINDMAP_LAYOUTS } from '../../utils/layout';
+import type { MindMapLayout, Size } from '../../utils/layout';
+import { useSettings } from '../../hooks/useSettings';
+import { getVisibleRect, toLayoutPoint } from '../../utils/camera';
+import type { Point } from '../../utils/camera';
+import { useCanvasCamera } from './useCanvasCamera';
+import { MindMapMinimap } from './MindMapMinimap';
+import { getBoxesInRect, getSiblingIds, getSubtreeIds, selectRange, toggleSelection } from '../../utils/selection';
+import { cloneSubtree, decodeSubtrees, encodeSubtrees, formatSubtreesText, getSelectedSubtrees, MINDMAP_CLIPBOARD_TYPE, parseSubtreesText } from '../../utils/clipboard';
+import { getCollaboratorsAt } from '../../utils/collab';
+import type { Collaborator, Presence } from '../../utils/collab';
+import { PresenceMarker } from '../Collab/PresenceMarker';
 
 // Simple Tree View for now (Indented List style is easiest to navigate with keyboard initially)
 // Or a Canvas?
@@ -10,65 +39,484 @@ import { exportMindMap } from '../../utils/export';
 
 interface Props {
     root: MindMapNode;
+    documentId: string;
+    documentName: string; // Used for export file names
     updateNodeText: (id: string, text: string) => void;
+    updateNodeTexts: (edits: { id: string; text: string }[]) => void;
+    updateNodeMeta: (id: string, patch: Partial<NodeMeta>) => void;
+    setNodePosition: (id: string, position: NodePosition | null) => void;
+    clearPositions: () => void;
     addSibling: (id: string) => void;
     addChild: (id: string) => void;
     addChildren: (id: string, texts: string[]) => void;
     removeNodes: (ids: string[]) => void;
+    removeSubtrees: (ids: string[]) => void;
+    insertSubtrees: (parentId: string, subtrees: MindMapNode[]) => void;
     insertParent: (targetIds: string[], text?: string) => void;
+    moveSibling: (id: string, offset: -1 | 1) => void;
+    indentNode: (id: string) => void;
+    outdentNode: (id: string) => void;
+    moveNode: (id: string, targetId: string, position: DropPosition) => void;
+    toggleExpanded: (id: string) => void;
+    setSiblingsExpanded: (id: string, expanded: boolean) => void;
+    expandToDepth: (depth: number) => void;
+    revealNode: (id: string) => void;
+    onConvertToMandala: (node: MindMapNode) => void;
+    collaborators: Collaborator[]; // Others in this document while it is shared
+    onPresenceChange: (presence: Presence) => void;
 }
 
-export const MindMapView: React.FC<Props> = ({ root, updateNodeText, addSibling, addChild, addChildren, removeNodes, insertParent }) => {
+interface SearchState {
+    pattern: RegExp;
+    matchIds: Set<string>;
+    currentId: string | null;
+    visibleIds: Set<string> | null; // Filter mode: the matches and their ancestors, everything else is dimmed
+}
+
+interface DragState {
+    sourceId: string;
+    targetId?: string;
+    position?: DropPosition;
+}
+
+// Shift+drag on the canvas: viewport pixels, plus what stays selected (⌘/Ctrl adds to the selection)
+interface Marquee {
+    start: Point;
+    end: Point;
+    base: Set<string>;
+}
+
+// Dragging a pin handle: where the pointer and the node were when it started
+interface PinDrag {
+    id: string;
+    pointer: NodePosition;
+    origin: NodePosition;
+    scale: number; // Zoom of the canvas, pointer movement is divided by it
+}
+
+const DEFAULT_LAYOUT_SETTINGS: { layout: MindMapLayout; showMinimap: boolean } = { layout: 'right', showMinimap: true };
+
+// Until a card has been measured: roughly the size of a one-line card (min-w-[120px] / max-w-[240px])
+const estimateNodeSize = (node: MindMapNode): Size => ({
+    width: Math.min(240, Math.max(120, node.text.length * 9 + 56)),
+    height: 48,
+});
+
+const canvasButton = 'px-2 py-1 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100 transition-all';
+
+const hasPinnedNodes = (node: MindMapNode): boolean => node.position !== undefined || node.children.some(hasPinnedNodes);
+
+// Returns `id` if that node is visible, otherwise its nearest visible ancestor (null if not in the tree)
+const findVisibleAncestor = (node: MindMapNode, id: string): string | null => {
+    if (node.id === id) return id;
+    for (const child of node.children) {
+        const found = findVisibleAncestor(child, id);
+        if (found) return node.isExpanded === false ? node.id : found;
+    }
+    return null;
+};
+
+// Flatten the tree for navigation order
+const getVisibleNodes = (node: MindMapNode, list: MindMapNode[] = []): MindMapNode[] => {
+    list.push(node);
+    if (node.isExpanded !== false && node.children) {
+        node.children.forEach(c => getVisibleNodes(c, list));
+    }
+    return list;
+};
+
+export const MindMapView: React.FC<Props> = ({ root, documentId, documentName, updateNodeText, updateNodeTexts, updateNodeMeta, setNodePosition, clearPositions, addSibling, addChild, addChildren, removeNodes, removeSubtrees, insertSubtrees, insertParent, moveSibling, indentNode, outdentNode, moveNode, toggleExpanded, setSiblingsExpanded, expandToDepth, revealNode, onConvertToMandala, collaborators, onPresenceChange }) => {
     // Local UI state
     const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set([root.id]));
-    const [lastFocusedId, setLastFocusedId] = useState<string>(root.id); // For Shift+Click range anchor
-    const [isGenerating, setIsGenerating] = useState(false);
+    const [lastFocusedId, setLastFocusedId] = useState<string>(root.id); // Keyboard focus (edited when it is the only selected node)
+    const [anchorId, setAnchorId] = useState<string>(root.id); // Where Shift+Click / Shift+Arrow ranges start
+    const [marquee, setMarquee] = useState<Marquee | null>(null);
+    const [suggestionTarget, setSuggestionTarget] = useState<{ id: string; anchor: DOMRect; context: SuggestionContext } | null>(null);
+    const [dragState, setDragState] = useState<DragState | null>(null);
+    const [isImageExportOpen, setIsImageExportOpen] = useState(false);
+    const [isPrintOpen, setIsPrintOpen] = useState(false);
+    const [isSearchOpen, setIsSearchOpen] = useState(false);
+    const [searchFocusRequest, setSearchFocusRequest] = useState(0);
+    const [query, setQuery] = useState('');
+    const [searchOptions, setSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+    const [isFilterOn, setIsFilterOn] = useState(false);
+    const [currentMatchId, setCurrentMatchId] = useState<string | null>(null);
+    const [isReplaceOpen, setIsReplaceOpen] = useState(false);
+    const [replacement, setReplacement] = useState('');
+    const [isDetailsOpen, setIsDetailsOpen] = useState(false);
+    const [layoutSettings, updateLayoutSettings] = useSettings('mindmap-layout', DEFAULT_LAYOUT_SETTINGS);
+    const [nodeSizes, setNodeSizes] = useState<Map<string, Size>>(new Map());
+    const [pinDrag, setPinDrag] = useState<PinDrag | null>(null);
+    const [pinDragPosition, setPinDragPosition] = useState<NodePosition | null>(null);
+    const resizeObserverRef = useRef<ResizeObserver | null>(null);
+
+    // Undo/Redo can remove the focused node and folding can hide it.
+    // Fall back to the nearest visible ancestor (or root) so keyboard control isn't lost.
+    // An empty selection (e.g. after an import) also falls back to the root.
+    const selectOnly = (id: string) => {
+        setSelectedIds(new Set([id]));
+        setLastFocusedId(id);
+        setAnchorId(id);
+    };
+
+    const visibleFocusId = findVisibleAncestor(root, lastFocusedId) ?? root.id;
+    if (visibleFocusId !== lastFocusedId || selectedIds.size === 0) {
+        selectOnly(visibleFocusId);
+    }
 
+    // Shown to the others while the document is shared
     useEffect(() => {
-        // Reset selection if root changes (e.g. import)
-        if (!selectedIds.has(root.id) && selectedIds.size === 0) {
-            setSelectedIds(new Set([root.id]));
-            setLastFocusedId(root.id);
-        }
-    }, [root.id]);
+        onPresenceChange({ focus: visibleFocusId, selection: [...selectedIds] });
+    }, [onPresenceChange, visibleFocusId, selectedIds]);
+
+    // =========================================================
+    // LAYOUT
+    // =========================================================
+
+    // One observer for all cards; sizes only change state when they really changed
+    const observeSize = useCallback((element: HTMLElement) => {
+        resizeObserverRef.current ??= new ResizeObserver(entries => {
+            setNodeSizes(prev => {
+                let next: Map<string, Size> | null = null;
+                entries.forEach(entry => {
+                    const id = (entry.target as HTMLElement).dataset.nodeId;
+                    const box = entry.borderBoxSize[0];
+                    if (!id || !box) return;
+                    const old = prev.get(id);
+                    if (old && old.width === box.inlineSize && old.height === box.blockSize) return;
+                    next ??= new Map(prev);
+                    next.set(id, { width: box.inlineSize, height: box.blockSize });
+                });
+                return next ?? prev;
+            });
+        });
+        const observer = resizeObserverRef.current;
+        observer.observe(element);
+        return () => observer.unobserve(element);
+    }, []);
+
+    useEffect(() => () => resizeObserverRef.current?.disconnect(), []);
+
+    const layoutKind = isMindMapLayout(layoutSettings.layout) ? layoutSettings.layout : 'right';
+    const layout = useMemo(() => layoutMindMap(
+        root,
+        layoutKind,
+        node => nodeSizes.get(node.id) ?? estimateNodeSize(node),
+        // The dragged node follows the pointer until it is dropped
+        node => (pinDrag && pinDragPosition && node.id === pinDrag.id ? pinDragPosition : node.position),
+    ), [root, layoutKind, nodeSizes, pinDrag, pinDragPosition]);
+    const camera = useCanvasCamera(layout.bounds);
 
-    // Flatten the tree for navigation order
-    const getVisibleNodes = useCallback((node: MindMapNode, list: MindMapNode[] = []): MindMapNode[] => {
-        list.push(node);
-        if (node.isExpanded !== false && node.children) {
-            node.children.forEach(c => getVisibleNodes(c, list));
+    // The camera follows the focused node (keyboard navigation, new nodes) and the current search match
+    const [followed, setFollowed] = useState({ focusId: lastFocusedId, matchId: currentMatchId });
+    if (followed.focusId !== lastFocusedId || followed.matchId !== currentMatchId) {
+        const targetId = currentMatchId && followed.matchId !== currentMatchId ? currentMatchId : lastFocusedId;
+        const box = layout.boxes.get(targetId);
+        // Not laid out yet (e.g. its branch is unfolding): try again on the next render
+        if (box) {
+            setFollowed({ focusId: lastFocusedId, matchId: currentMatchId });
+            camera.reveal(box);
         }
-        return list;
+    }
+
+    const centerOnSelection = () => {
+        const boxes = [...selectedIds].map(id => layout.boxes.get(id)).filter(box => box !== undefined);
+        if (boxes.length === 0) return;
+        const minX = Math.min(...boxes.map(box => box.x - box.width / 2));
+        const maxX = Math.max(...boxes.map(box => box.x + box.width / 2));
+        const minY = Math.min(...boxes.map(box => box.y - box.height / 2));
+        const maxY = Math.max(...boxes.map(box => box.y + box.height / 2));
+        camera.centerOn({ x: (minX + maxX) / 2, y: (minY + maxY) / 2 });
+    };
+
+    const handlePinStart = (e: React.PointerEvent, id: string) => {
+        const box = layout.boxes.get(id);
+        if (!box || e.button !== 0) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setPinDrag({ id, pointer: { x: e.clientX, y: e.clientY }, origin: { x: box.x, y: box.y }, scale: camera.camera.scale });
+    };
+
+    // Follows the pointer anywhere on the page; a click without movement does not pin
+    useEffect(() => {
+        if (!pinDrag) return;
+        const toPosition = (e: PointerEvent) => ({
+            x: pinDrag.origin.x + (e.clientX - pinDrag.pointer.x) / pinDrag.scale,
+            y: pinDrag.origin.y + (e.clientY - pinDrag.pointer.y) / pinDrag.scale,
+        });
+        const hasMoved = (e: PointerEvent) => Math.hypot(e.clientX - pinDrag.pointer.x, e.clientY - pinDrag.pointer.y) > 3;
+        const handleMove = (e: PointerEvent) => {
+            if (hasMoved(e)) setPinDragPosition(toPosition(e));
+        };
+        const handleUp = (e: PointerEvent) => {
+            if (hasMoved(e)) setNodePosition(pinDrag.id, toPosition(e));
+            setPinDrag(null);
+            setPinDragPosition(null);
+        };
+        const handleCancel = () => {
+            setPinDrag(null);
+            setPinDragPosition(null);
+        };
+        window.addEventListener('pointermove', handleMove);
+        window.addEventListener('pointerup', handleUp);
+        window.addEventListener('pointercancel', handleCancel);
+        return () => {
+            window.removeEventListener('pointermove', handleMove);
+            window.removeEventListener('pointerup', handleUp);
+            window.removeEventListener('pointercancel', handleCancel);
+        };
+    }, [pinDrag, setNodePosition]);
+
+    // The details panel always shows the focused node
+    const focusedNode = findNodePath(root, lastFocusedId)?.at(-1) ?? null;
+
+    // Search runs over the whole tree, folded branches included
+    const { pattern, error: searchError } = useMemo(() => compileSearch(query, searchOptions), [query, searchOptions]);
+    const matches = useMemo(() => (isSearchOpen ? searchMindMap(root, pattern) : []), [isSearchOpen, root, pattern]);
+    const matchIds = useMemo(() => matches.map(n => n.id), [matches]);
+    const currentMatchIndex = currentMatchId ? matchIds.indexOf(currentMatchId) : -1;
+    const search = useMemo<SearchState | null>(() => {
+        if (!isSearchOpen || !pattern) return null;
+        const ids = new Set(matchIds);
+        return { pattern, matchIds: ids, currentId: currentMatchId, visibleIds: isFilterOn ? collectMatchBranches(root, ids) : null };
+    }, [isSearchOpen, pattern, matchIds, currentMatchId, isFilterOn, root]);
+
+    const replacePreviews = useMemo<ReplacePreview[]>(() => {
+        if (!isReplaceOpen || !pattern) return [];
+        return matches.map(node => ({
+            key: node.id,
+            before: node.text,
+            ranges: findTextRanges(node.text, pattern),
+            after: replaceText(node.text, pattern, replacement, searchOptions),
+        }));
+    }, [isReplaceOpen, pattern, matches, replacement, searchOptions]);
+
+    // ⌘+F / Ctrl+F opens the search bar instead of the browser search
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.metaKey || e.ctrlKey) || e.altKey || e.shiftKey || e.key.toLowerCase() !== 'f') return;
+            e.preventDefault();
+            setIsSearchOpen(true);
+            setSearchFocusRequest(n => n + 1);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
     }, []);
 
-    const handleAutoExpand = async (id: string, text: string) => {
-        setIsGenerating(true);
-        try {
-            // Wikipedia OpenSearch API (JA)
-            // limit=10 to fetch enough candidates, then we slice to 3
-            const res = await fetch(`https://ja.wikipedia.org/w/api.php?action=opensearch&search=${encodeURIComponent(text)}&limit=10&format=json&origin=*`);
-            const data = await res.json();
-            // data[1] contains keywords
-            // Filter out the query itself to avoid duplication
-            const keywords = (data[1] as string[]).filter(k => k !== text && !k.includes(text + ' '));
-
-            // Limit to 3 items
-            const limitedKeywords = keywords.slice(0, 3);
-
-            if (limitedKeywords.length > 0) {
-                addChildren(id, limitedKeywords);
-            } else {
-                alert('No related terms found.');
+    // Incremental: jump to the first match that is already on screen, folding stays as it is
+    const changeSearch = (newQuery: string, newOptions: SearchOptions) => {
+        setQuery(newQuery);
+        setSearchOptions(newOptions);
+        const visible = new Set(getVisibleNodes(root).map(n => n.id));
+        const first = searchMindMap(root, compileSearch(newQuery, newOptions).pattern).find(n => visible.has(n.id));
+        setCurrentMatchId(first?.id ?? null);
+    };
+
+    // Folded ancestors are expanded so the match can be shown
+    const goToMatch = (id: string | null) => {
+        if (id) revealNode(id);
+        setCurrentMatchId(id);
+    };
+
+    const handleSearchStep = (direction: -1 | 1) => {
+        if (matchIds.length === 0) return;
+        const nextIndex = currentMatchIndex === -1
+            ? (direction === 1 ? 0 : matchIds.length - 1)
+            : (currentMatchIndex + direction + matchIds.length) % matchIds.length;
+        goToMatch(matchIds[nextIndex]);
+    };
+
+    // Replaces inside the current node (the first match if none is active yet), then moves on
+    const handleReplaceOne = () => {
+        if (!pattern || matches.length === 0) return;
+        const index = Math.max(0, currentMatchIndex);
+        const node = matches[index];
+        updateNodeTexts([{ id: node.id, text: replaceText(node.text, pattern, replacement, searchOptions) }]);
+        goToMatch(matches.length > 1 ? matchIds[(index + 1) % matchIds.length] : null);
+    };
+
+    const handleReplaceAll = () => {
+        if (!pattern || matches.length === 0) return;
+        updateNodeTexts(matches.map(node => ({ id: node.id, text: replaceText(node.text, pattern, replacement, searchOptions) })));
+        setCurrentMatchId(null);
+    };
+
+    // Closing selects the current match so keyboard editing continues from there
+    const closeSearch = () => {
+        setIsSearchOpen(false);
+        if (currentMatchId && findVisibleAncestor(root, currentMatchId)) {
+            selectOnly(currentMatchId);
+        }
+    };
+
+    // Opens the suggestion popover; children are only added for the suggestions the user keeps
+    const handleAutoExpand = (id: string, anchor: DOMRect) => {
+        const path = findNodePath(root, id);
+        if (!path) return;
+        const node = path[path.length - 1];
+        setSuggestionTarget({
+            id,
+            anchor,
+            context: {
+                text: node.text,
+                path: path.slice(0, -1).map(n => n.text),
+                existing: node.children.map(c => c.text),
+                documentId,
+            },
+        });
+    };
+
+    // =========================================================
+    // SELECTION
+    // =========================================================
+
+    // Delete all selected (the root always stays), their children move up
+    const deleteSelection = () => {
+        const ids = [...selectedIds].filter(id => id !== root.id);
+        if (ids.length === 0) return;
+        const visible = getVisibleNodes(root);
+        let safeId = root.id;
+        let foundSafe = false;
+        const currentIdx = visible.findIndex((n: MindMapNode) => n.id === lastFocusedId);
+        if (currentIdx > 0) {
+            for (let i = currentIdx - 1; i >= 0; i--) {
+                if (!selectedIds.has(visible[i].id)) {
+                    safeId = visible[i].id;
+                    foundSafe = true;
+                    break;
+                }
             }
-        } catch (e) {
-            console.error(e);
-            alert('Failed to fetch related terms.');
-        } finally {
-            setIsGenerating(false);
         }
+        if (!foundSafe && visible.length > 0) safeId = visible[0].id; // root
+
+        removeNodes(ids);
+        selectOnly(safeId);
+    };
+
+    // Each group of selected siblings moves under a new parent
+    const groupSelection = () => {
+        const ids = [...selectedIds].filter(id => id !== root.id);
+        if (ids.length > 0) insertParent(ids);
+    };
+
+    // Click: only this node. Shift+Click: range from the anchor. ⌘/Ctrl+Click: add or remove one node.
+    const handleNodeClick = (e: React.MouseEvent, id: string) => {
+        if (e.shiftKey) {
+            setSelectedIds(selectRange(getVisibleNodes(root).map(n => n.id), anchorId, id));
+            setLastFocusedId(id);
+        } else if (e.metaKey || e.ctrlKey) {
+            const next = toggleSelection(selectedIds, id);
+            if (next.size === 0) return; // Something always stays selected
+            setSelectedIds(next);
+            setLastFocusedId(next.has(id) ? id : [...next][next.size - 1]);
+            setAnchorId(id);
+        } else {
+            selectOnly(id);
+        }
+    };
+
+    // Marquee: nodes touched by the rectangle are selected when the pointer is released
+    const toViewportPoint = (e: React.PointerEvent): Point => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    const canvasPointerHandlers = {
+        onPointerDown: (e: React.PointerEvent<HTMLDivElement>) => {
+            const target = e.target as HTMLElement;
+            if (!e.shiftKey || e.button !== 0 || target.closest('[data-node-id], button, input')) {
+                camera.panHandlers.onPointerDown(e);
+                return;
+            }
+            e.currentTarget.setPointerCapture(e.pointerId);
+            const point = toViewportPoint(e);
+            setMarquee({ start: point, end: point, base: e.metaKey || e.ctrlKey ? selectedIds : new Set() });
+        },
+        onPointerMove: (e: React.PointerEvent<HTMLDivElement>) => {
+            if (marquee) setMarquee({ ...marquee, end: toViewportPoint(e) });
+            else camera.panHandlers.onPointerMove(e);
+        },
+        onPointerUp: (e: React.PointerEvent<HTMLDivElement>) => {
+            if (!marquee) {
+                camera.panHandlers.onPointerUp(e);
+                return;
+            }
+            const [a, b] = [toLayoutPoint(camera.camera, marquee.start), toLayoutPoint(camera.camera, marquee.end)];
+            const hits = getBoxesInRect(layout.boxes, { minX: Math.min(a.x, b.x), minY: Math.min(a.y, b.y), maxX: Math.max(a.x, b.x), maxY: Math.max(a.y, b.y) });
+            const next = new Set([...marquee.base, ...hits]);
+            setMarquee(null);
+            if (next.size === 0) return;
+            // Focus the first selected node in visible order
+            const first = getVisibleNodes(root).find(n => next.has(n.id))?.id ?? [...next][0];
+            setSelectedIds(next);
+            setLastFocusedId(first);
+            setAnchorId(first);
+        },
+        onPointerCancel: () => {
+            setMarquee(null);
+            camera.panHandlers.onPointerCancel();
+        },
     };
 
     const handleKeyDown = (e: React.KeyboardEvent, id: string) => {
+        // ⌘+I shows the notes, links, tags etc. of the focused node
+        if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'i') {
+            e.preventDefault();
+            setIsDetailsOpen(isOpen => !isOpen);
+            return;
+        }
+
+        // Camera: ⌘+0 fits the whole map, ⌘+Shift+0 centers the selection, ⌘+= / ⌘+- zoom
+        if ((e.metaKey || e.ctrlKey) && ['Digit0', 'Equal', 'Minus'].includes(e.code)) {
+            e.preventDefault();
+            if (e.code === 'Equal') camera.zoomIn();
+            else if (e.code === 'Minus') camera.zoomOut();
+            else if (e.shiftKey) centerOnSelection();
+            else camera.fit();
+            return;
+        }
+
+        // Selection: Opt+A the node and its siblings, Opt+S its visible branch, Esc back to the focused node
+        if (e.altKey && (e.code === 'KeyA' || e.code === 'KeyS')) {
+            e.preventDefault();
+            setSelectedIds(new Set(e.code === 'KeyA' ? getSiblingIds(root, id) : getSubtreeIds(root, id)));
+            setAnchorId(id);
+            return;
+        }
+        if (e.key === 'Escape' && selectedIds.size > 1) {
+            e.preventDefault();
+            selectOnly(id);
+            return;
+        }
+
+        // Structure editing (Opt/Alt + Arrows)
+        if (e.altKey && e.key.startsWith('Arrow')) {
+            e.preventDefault();
+            if (e.key === 'ArrowUp') moveSibling(id, -1);
+            else if (e.key === 'ArrowDown') moveSibling(id, 1);
+            else if (e.key === 'ArrowRight') indentNode(id);
+            else if (e.key === 'ArrowLeft') outdentNode(id);
+            return;
+        }
+
+        // Folding: ⌘+. toggles this node, ⌘+Shift+. all siblings, Opt+1..9 the whole tree to that depth (Opt+0 = all)
+        if ((e.metaKey || e.ctrlKey) && e.code === 'Period') {
+            e.preventDefault();
+            if (e.shiftKey) {
+                const node = getVisibleNodes(root).find(n => n.id === id);
+                setSiblingsExpanded(id, node?.isExpanded === false);
+            } else {
+                toggleExpanded(id);
+            }
+            return;
+        }
+        if (e.altKey && /^Digit\d$/.test(e.code)) {
+            e.preventDefault();
+            const depth = Number(e.code.slice('Digit'.length));
+            expandToDepth(depth === 0 ? Infinity : depth);
+            return;
+        }
+
         // Navigation
         if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
             e.preventDefault();
@@ -81,15 +529,13 @@ export const MindMapView: React.FC<Props> = ({ root, updateNodeText, addSibling,
             if (e.key === 'ArrowUp' && idx > 0) nextId = visible[idx - 1].id;
 
             if (e.shiftKey) {
-                // Add to selection
-                const newSet = new Set(selectedIds);
-                newSet.add(nextId);
-                setSelectedIds(newSet);
+                // Grow or shrink the range from the anchor
+                setSelectedIds(selectRange(visible.map(n => n.id), anchorId, nextId));
+                setLastFocusedId(nextId);
             } else {
                 // Clear and move
-                setSelectedIds(new Set([nextId]));
+                selectOnly(nextId);
             }
-            setLastFocusedId(nextId);
         } else if (e.key === 'Enter') {
             if (e.shiftKey) {
                 e.preventDefault();
@@ -99,47 +545,85 @@ export const MindMapView: React.FC<Props> = ({ root, updateNodeText, addSibling,
             e.preventDefault();
             addChild(id);
         } else if ((e.key === 'Backspace' || e.key === 'Delete') && (e.ctrlKey || e.metaKey)) {
-            // Delete all selected
-            if (selectedIds.size > 0 && !selectedIds.has(root.id)) {
-                const visible = getVisibleNodes(root);
-                let safeId = root.id;
-                let foundSafe = false;
-                const currentIdx = visible.findIndex((n: MindMapNode) => n.id === lastFocusedId);
-                if (currentIdx > 0) {
-                    for (let i = currentIdx - 1; i >= 0; i--) {
-                        if (!selectedIds.has(visible[i].id)) {
-                            safeId = visible[i].id;
-                            foundSafe = true;
-                            break;
-                        }
-                    }
-                }
-                if (!foundSafe && visible.length > 0) safeId = visible[0].id; // root
-
-                removeNodes(Array.from(selectedIds));
-                setSelectedIds(new Set([safeId]));
-                setLastFocusedId(safeId);
-            }
+            deleteSelection();
         } else if ((e.altKey || e.metaKey) && (e.code === 'KeyP')) {
             // Insert Parent
             e.preventDefault();
-            if (selectedIds.size > 0 && !selectedIds.has(root.id)) {
-                insertParent(Array.from(selectedIds));
-            }
+            groupSelection();
         }
     };
 
-    const handleNodeClick = (e: React.MouseEvent, id: string) => {
-        if (e.shiftKey) {
-            const newSet = new Set(selectedIds);
-            if (newSet.has(id)) newSet.delete(id);
-            else newSet.add(id);
-            setSelectedIds(newSet);
-            setLastFocusedId(id);
-        } else {
-            setSelectedIds(new Set([id]));
-            setLastFocusedId(id);
+    // Drag & Drop: the pointer position inside the target card decides the drop position
+    // (top quarter = before, bottom quarter = after, middle = become a child)
+    const handleDragOver = (e: React.DragEvent, targetId: string) => {
+        if (!dragState || dragState.sourceId === targetId) return;
+        e.preventDefault();
+        const rect = e.currentTarget.getBoundingClientRect();
+        const ratio = (e.clientY - rect.top) / rect.height;
+        let position: DropPosition = 'inside';
+        if (targetId !== root.id) {
+            if (ratio < 0.25) position = 'before';
+            else if (ratio > 0.75) position = 'after';
+        }
+        if (dragState.targetId !== targetId || dragState.position !== position) {
+            setDragState({ ...dragState, targetId, position });
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent, targetId: string) => {
+        e.preventDefault();
+        if (dragState && dragState.targetId === targetId && dragState.position) {
+            moveNode(dragState.sourceId, targetId, dragState.position);
+            selectOnly(dragState.sourceId);
         }
+        setDragState(null);
+    };
+
+    // =========================================================
+    // CLIPBOARD
+    // =========================================================
+    // ⌘+C / ⌘+X / ⌘+V on the selected nodes. While a node is edited, a partial text selection
+    // keeps the normal text clipboard; with all (or none) of the text selected the node is copied.
+
+    const isCopyingText = () => {
+        const active = document.activeElement;
+        if (!(active instanceof HTMLInputElement) || active.selectionStart === active.selectionEnd) return false;
+        return !(active.selectionStart === 0 && active.selectionEnd === active.value.length);
+    };
+
+    const writeSelection = (e: React.ClipboardEvent): MindMapNode[] | null => {
+        if (isCopyingText()) return null;
+        const subtrees = getSelectedSubtrees(root, selectedIds);
+        if (subtrees.length === 0) return null;
+        e.preventDefault();
+        e.clipboardData.setData('text/plain', formatSubtreesText(subtrees));
+        e.clipboardData.setData(MINDMAP_CLIPBOARD_TYPE, encodeSubtrees(subtrees));
+        return subtrees;
+    };
+
+    const handleCut = (e: React.ClipboardEvent) => {
+        const subtrees = writeSelection(e);
+        if (!subtrees || subtrees.some(node => node.id === root.id)) return; // The root is only copied
+        // Focus moves to the parent of the first cut branch
+        const parent = findNodePath(root, subtrees[0].id)?.at(-2) ?? root;
+        removeSubtrees(subtrees.map(node => node.id));
+        selectOnly(parent.id);
+    };
+
+    // Copied nodes, indented text from any app, or a single line typed into a multi-selection
+    // become children of the focused node; a single line pasted into a node edits its text
+    const handlePaste = (e: React.ClipboardEvent) => {
+        const payload = e.clipboardData.getData(MINDMAP_CLIPBOARD_TYPE);
+        const text = e.clipboardData.getData('text/plain');
+        const isPlainLine = !text.trim().includes('\n') && document.activeElement instanceof HTMLInputElement;
+        const subtrees = (payload ? decodeSubtrees(payload) : null) ?? (isPlainLine ? [] : parseSubtreesText(text));
+        if (subtrees.length === 0) return;
+        e.preventDefault();
+        const copies = subtrees.map(cloneSubtree);
+        insertSubtrees(lastFocusedId, copies);
+        setSelectedIds(new Set(copies.map(node => node.id)));
+        setLastFocusedId(copies[0].id);
+        setAnchorId(copies[0].id);
     };
 
     const copyToClipboard = () => {
@@ -148,6 +632,23 @@ export const MindMapView: React.FC<Props> = ({ root, updateNodeText, addSibling,
         alert('Copied to clipboard!');
     };
 
+    const renderImage = useCallback((options: ImageExportOptions) => renderMindMapSvg(root, options, layoutKind), [root, layoutKind]);
+
+    const exportItems = [
+        { id: 'clipboard', label: '📋 Copy as Text', onSelect: copyToClipboard },
+        ...MINDMAP_EXPORTERS.map(exporter => ({
+            id: exporter.id,
+            label: `⬇ ${exporter.label}`,
+            hint: `.${exporter.extension}`,
+            onSelect: () => downloadText(
+                toFileName(documentName, exporter.extension),
+                exporter.export(root, documentName),
+                exporter.mimeType,
+            ),
+        })),
+        { id: 'image', label: '🖼 Image (PNG / SVG)…', onSelect: () => setIsImageExportOpen(true) },
+    ];
+
     return (
         <div className="flex flex-col h-full w-full mx-auto p-4 gap-4">
             <div className="flex gap-4 items-center justify-between pop-card px-6 py-3 w-full max-w-4xl mx-auto">
@@ -156,72 +657,337 @@ export const MindMapView: React.FC<Props> = ({ root, updateNodeText, addSibling,
                     <span className="flex items-center gap-1"><kbd className="bg-slate-100 border-b-2 border-slate-300 px-2 py-1 rounded-lg text-slate-600 font-mono text-xs">Tab</kbd> Child</span>
                     <span className="flex items-center gap-1"><kbd className="bg-slate-100 border-b-2 border-slate-300 px-2 py-1 rounded-lg text-slate-600 font-mono text-xs">Opt+P</kbd> Parent</span>
                     <span className="flex items-center gap-1"><kbd className="bg-slate-100 border-b-2 border-slate-300 px-2 py-1 rounded-lg text-slate-600 font-mono text-xs">⌘+Del</kbd> Delete</span>
+                    <span className="flex items-center gap-1"><kbd className="bg-slate-100 border-b-2 border-slate-300 px-2 py-1 rounded-lg text-slate-600 font-mono text-xs">Opt+↑↓</kbd> Move</span>
+                    <span className="flex items-center gap-1"><kbd className="bg-slate-100 border-b-2 border-slate-300 px-2 py-1 rounded-lg text-slate-600 font-mono text-xs">Opt+←→</kbd> Outdent/Indent</span>
+                    <span className="flex items-center gap-1"><kbd className="bg-slate-100 border-b-2 border-slate-300 px-2 py-1 rounded-lg text-slate-600 font-mono text-xs">⌘+.</kbd> Fold</span>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => {
+                            // The focused node becomes the center goal of the new chart
+                            const node = getVisibleNodes(root).find(n => n.id === lastFocusedId) ?? root;
+                            onConvertToMandala(node);
+                        }}
+                        className="pop-btn pop-btn-neutral text-sm whitespace-nowrap"
+                        title="Create a new mandala chart from the selected node"
+                    >
+                        🪷 To Mandala
+                    </button>
+                    <button
+                        onClick={() => {
+                            setIsSearchOpen(true);
+                            setSearchFocusRequest(n => n + 1);
+                        }}
+                        className="pop-btn pop-btn-neutral text-sm whitespace-nowrap"
+                        title="Search (⌘+F)"
+                    >
+                        🔍
+                    </button>
+                    <button
+                        onClick={() => setIsDetailsOpen(isOpen => !isOpen)}
+                        className={`pop-btn text-sm whitespace-nowrap ${isDetailsOpen ? 'pop-btn-blue' : 'pop-btn-neutral'}`}
+                        title="Notes, links, tags, color and progress of the selected node (⌘+I)"
+                    >
+                        📝 Details
+                    </button>
+                    <ExportMenu label="📤 Export" items={exportItems} />
+                    <button
+                        onClick={() => setIsPrintOpen(true)}
+                        className="pop-btn pop-btn-neutral text-sm whitespace-nowrap"
+                    >
+                        🖨 Print
+                    </button>
                 </div>
-                <button
-                    onClick={copyToClipboard}
-                    className="pop-btn pop-btn-neutral text-sm"
-                >
-                    📋 Export Text
-                </button>
             </div>
 
-            <div className="flex-1 overflow-auto p-8 popup-container relative">
-                {isGenerating && (
-                    <div className="absolute top-4 right-4 bg-white p-2 rounded-lg shadow-lg border border-pop-orange animate-pulse z-50 flex items-center gap-2">
-                        <span className="animate-spin text-xl">✨</span>
-                        <span className="text-xs font-bold text-pop-orange-dark">Generating...</span>
+            {isSearchOpen && (
+                <SearchBar
+                    query={query}
+                    onQueryChange={(newQuery) => changeSearch(newQuery, searchOptions)}
+                    options={searchOptions}
+                    onOptionsChange={(newOptions) => changeSearch(query, newOptions)}
+                    error={searchError}
+                    matchCount={matchIds.length}
+                    currentIndex={currentMatchIndex}
+                    onStep={handleSearchStep}
+                    isFilterOn={isFilterOn}
+                    onFilterChange={setIsFilterOn}
+                    onClose={closeSearch}
+                    focusRequest={searchFocusRequest}
+                    isReplaceOpen={isReplaceOpen}
+                    onReplaceOpenChange={setIsReplaceOpen}
+                    replacement={replacement}
+                    onReplacementChange={setReplacement}
+                    previews={replacePreviews}
+                    currentKey={currentMatchId}
+                    onSelectPreview={goToMatch}
+                    onReplaceOne={handleReplaceOne}
+                    onReplaceAll={handleReplaceAll}
+                />
+            )}
+
+            <div className="flex-1 flex gap-4 min-h-0">
+                <div className="flex-1 relative min-w-0 overflow-hidden rounded-2xl border-2 border-slate-200 bg-white/60">
+                    <div
+                        ref={camera.viewportRef}
+                        className={`absolute inset-0 touch-none ${camera.isPanning ? 'cursor-grabbing' : 'cursor-grab'}`}
+                        {...canvasPointerHandlers}
+                        onCopy={writeSelection}
+                        onCut={handleCut}
+                        onPaste={handlePaste}
+                    >
+                        <div
+                            className="absolute left-0 top-0 origin-top-left"
+                            style={{ transform: `translate(${camera.camera.x}px, ${camera.camera.y}px) scale(${camera.camera.scale})` }}
+                        >
+                            {/* Connectors, in layout coordinates */}
+                            <svg className="absolute left-0 top-0 overflow-visible pointer-events-none" width={1} height={1}>
+                                {layout.edges.map(edge => (
+                                    <path
+                                        key={edge.childId}
+                                        d={edge.path}
+                                        fill="none"
+                                        stroke="#cbd5e1"
+                                        strokeWidth={3}
+                                        strokeLinecap="round"
+                                        className={search?.visibleIds && !search.visibleIds.has(edge.childId) ? 'opacity-30' : ''}
+                                    />
+                                ))}
+                            </svg>
+                            {getVisibleNodes(root).map(node => {
+                                const box = layout.boxes.get(node.id);
+                                if (!box) return null;
+                                return (
+                                    <NodeView
+                                        key={node.id}
+                                        node={node}
+                                        x={box.x}
+                                        y={box.y}
+                                        isRoot={node.id === root.id}
+                                        selectedIds={selectedIds}
+                                        lastFocusedId={lastFocusedId}
+                                        collaborators={getCollaboratorsAt(collaborators, node.id)}
+                                        search={search}
+                                        observeSize={observeSize}
+                                        onSelect={handleNodeClick}
+                                        onUpdate={updateNodeText}
+                                        onKeyDown={handleKeyDown}
+                                        onAutoExpand={handleAutoExpand}
+                                        onToggleExpand={toggleExpanded}
+                                        onPinStart={handlePinStart}
+                                        onUnpin={(id) => setNodePosition(id, null)}
+                                        dragState={dragState}
+                                        onDragStart={(id) => setDragState({ sourceId: id })}
+                                        onDragOver={handleDragOver}
+                                        onDrop={handleDrop}
+                                        onDragEnd={() => setDragState(null)}
+                                    />
+                                );
+                            })}
+                        </div>
+                        {marquee && (
+                            <div
+                                className="absolute z-30 rounded-md border-2 border-pop-blue bg-pop-blue/10 pointer-events-none"
+                                style={{
+                                    left: Math.min(marquee.start.x, marquee.end.x),
+                                    top: Math.min(marquee.start.y, marquee.end.y),
+                                    width: Math.abs(marquee.end.x - marquee.start.x),
+                                    height: Math.abs(marquee.end.y - marquee.start.y),
+                                }}
+                            />
+                        )}
+                    </div>
+
+                    {/* Bulk actions for a multi-selection */}
+                    {selectedIds.size > 1 && (
+                        <div className="absolute top-14 left-2 z-30 flex items-center gap-1 bg-white/90 backdrop-blur-sm rounded-xl border-2 border-pop-blue-light p-1 shadow-sm animate-fadeIn">
+                            <span className="px-2 text-xs font-black text-pop-blue-dark">{selectedIds.size} selected</span>
+                            <button onClick={groupSelection} className={canvasButton} title="Group each set of selected siblings under a new parent (Opt+P)">⤴ Group</button>
+                            <button onClick={deleteSelection} className={canvasButton} title="Delete the selected nodes, their children move up (⌘+Del)">🗑 Delete</button>
+                            <button onClick={() => selectOnly(lastFocusedId)} className={canvasButton} title="Keep only the focused node (Esc)">✕</button>
+                        </div>
+                    )}
+
+                    {/* Layout picker */}
+                    <div className="absolute top-2 left-2 z-30 flex items-center gap-1 bg-white/90 backdrop-blur-sm rounded-xl border-2 border-slate-200 p-1 shadow-sm">
+                        {MINDMAP_LAYOUTS.map(option => (
+                            <button
+                                key={option.id}
+                                onClick={() => {
+                                    updateLayoutSettings({ layout: option.id });
+                                    camera.fit();
+                                }}
+                                className={`px-2 py-1 rounded-lg text-xs font-bold transition-all ${layoutKind === option.id ? 'bg-pop-blue text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+                                title={`${option.label} layout`}
+                            >
+                                <span className="mr-1">{option.icon}</span>{option.label}
+                            </button>
+                        ))}
+                        {hasPinnedNodes(root) && (
+                            <button
+                                onClick={clearPositions}
+                                className="px-2 py-1 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100 border-l-2 border-slate-100"
+                                title="Hand every pinned node back to the layout"
+                            >
+                                📌 Unpin all
+                            </button>
+                        )}
                     </div>
+
+                    {/* Minimap and zoom controls */}
+                    <div className="absolute bottom-2 right-2 z-30 flex flex-col items-end gap-2">
+                        {layoutSettings.showMinimap && (
+                            <div className="bg-white/90 backdrop-blur-sm rounded-xl border-2 border-slate-200 p-1 shadow-sm">
+                                <MindMapMinimap
+                                    layout={layout}
+                                    visibleRect={getVisibleRect(camera.camera, camera.viewport)}
+                                    selectedIds={selectedIds}
+                                    onNavigate={camera.centerOn}
+                                />
+                            </div>
+                        )}
+                        <div className="flex items-center gap-1 bg-white/90 backdrop-blur-sm rounded-xl border-2 border-slate-200 p-1 shadow-sm">
+                            <button onClick={camera.zoomOut} className={canvasButton} title="Zoom out (⌘+-)">−</button>
+                            <button onClick={camera.resetZoom} className={`${canvasButton} w-14 tabular-nums`} title="Zoom to 100%">
+                                {Math.round(camera.camera.scale * 100)}%
+                            </button>
+                            <button onClick={camera.zoomIn} className={canvasButton} title="Zoom in (⌘+=)">+</button>
+                            <button onClick={camera.fit} className={canvasButton} title="Fit the whole map (⌘+0)">⤢ Fit</button>
+                            <button onClick={centerOnSelection} className={canvasButton} title="Center on the selection (⌘+Shift+0)">◎</button>
+                            <button
+                                onClick={() => updateLayoutSettings({ showMinimap: !layoutSettings.showMinimap })}
+                                className={`${canvasButton} ${layoutSettings.showMinimap ? 'text-pop-blue' : ''}`}
+                                title={layoutSettings.showMinimap ? 'Hide the minimap' : 'Show the minimap'}
+                            >
+                                🗺
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
+                {isDetailsOpen && focusedNode && (
+                    <NodeDetailsPanel
+                        key={focusedNode.id}
+                        node={focusedNode}
+                        onChange={(patch) => updateNodeMeta(focusedNode.id, patch)}
+                        onClose={() => setIsDetailsOpen(false)}
+                    />
                 )}
-                <NodeView
-                    node={root}
-                    selectedIds={selectedIds}
-                    lastFocusedId={lastFocusedId}
-                    onSelect={handleNodeClick}
-                    onUpdate={updateNodeText}
-                    onKeyDown={handleKeyDown}
-                    onAutoExpand={handleAutoExpand}
-                    depth={0}
-                />
             </div>
+
+            {isImageExportOpen && (
+                <ImageExportDialog
+                    documentName={documentName}
+                    render={renderImage}
+                    onClose={() => setIsImageExportOpen(false)}
+                />
+            )}
+
+            {suggestionTarget && (
+                <SuggestionPopover
+                    context={suggestionTarget.context}
+                    anchor={suggestionTarget.anchor}
+                    onAccept={(texts) => {
+                        addChildren(suggestionTarget.id, texts);
+                        setSuggestionTarget(null);
+                    }}
+                    onClose={() => setSuggestionTarget(null)}
+                />
+            )}
+
+            {isPrintOpen && (
+                <PrintDialog
+                    target={{ kind: 'mindmap', root, layout: layoutKind }}
+                    documentName={documentName}
+                    onClose={() => setIsPrintOpen(false)}
+                />
+            )}
         </div>
     );
 };
 
 interface NodeProps {
     node: MindMapNode;
+    x: number; // Center of the card in canvas coordinates
+    y: number;
+    isRoot: boolean;
     selectedIds: Set<string>;
     lastFocusedId: string;
+    collaborators: Collaborator[];
+    search: SearchState | null;
+    observeSize: (element: HTMLElement) => () => void;
     onSelect: (e: React.MouseEvent, id: string) => void;
     onUpdate: (id: string, text: string) => void;
     onKeyDown: (e: React.KeyboardEvent, id: string) => void;
-    onAutoExpand: (id: string, text: string) => void;
-    depth: number;
+    onAutoExpand: (id: string, anchor: DOMRect) => void;
+    onToggleExpand: (id: string) => void;
+    onPinStart: (e: React.PointerEvent, id: string) => void;
+    onUnpin: (id: string) => void;
+    dragState: DragState | null;
+    onDragStart: (id: string) => void;
+    onDragOver: (e: React.DragEvent, id: string) => void;
+    onDrop: (e: React.DragEvent, id: string) => void;
+    onDragEnd: () => void;
 }
 
-const NodeView: React.FC<NodeProps> = ({ node, selectedIds, lastFocusedId, onSelect, onUpdate, onKeyDown, onAutoExpand, depth }) => {
+const NodeView: React.FC<NodeProps> = ({ node, x, y, isRoot, selectedIds, lastFocusedId, collaborators, search, observeSize, onSelect, onUpdate, onKeyDown, onAutoExpand, onToggleExpand, onPinStart, onUnpin, dragState, onDragStart, onDragOver, onDrop, onDragEnd }) => {
     const inputRef = useRef<HTMLInputElement>(null);
+    const cardRef = useRef<HTMLDivElement>(null);
     const isSelected = selectedIds.has(node.id);
     const isMultiSelecting = selectedIds.size > 1;
     const isFocused = isSelected && !isMultiSelecting && lastFocusedId === node.id;
+    const dropPosition = dragState?.targetId === node.id ? dragState.position : undefined;
+    const isDragSource = dragState?.sourceId === node.id;
+    const hasChildren = node.children.length > 0;
+    const isCollapsed = hasChildren && node.isExpanded === false;
+    const isMatch = search?.matchIds.has(node.id) ?? false;
+    const isCurrentMatch = search?.currentId === node.id;
+    const isDimmed = search?.visibleIds ? !search.visibleIds.has(node.id) : false;
+    const isPinned = node.position !== undefined;
+    // Selection, drop target and search rings win over the node's own color
+    const colorHex = getNodeColorHex(node.color);
+    const hasColoredBorder = colorHex !== undefined && !isSelected && dropPosition !== 'inside' && !isMatch;
 
     useEffect(() => {
         if (isFocused) {
-            inputRef.current?.focus();
+            // The camera brings the node into view; letting the browser scroll would shift the canvas
+            inputRef.current?.focus({ preventScroll: true });
             inputRef.current?.select();
         }
     }, [isFocused]);
 
+    // The layout places the card by its measured size
+    useEffect(() => (cardRef.current ? observeSize(cardRef.current) : undefined), [observeSize]);
+
     return (
-        <div className="flex items-center">
-            {/* Node Card */}
-            <div className="relative group">
-                <div
-                    className={`relative z-10 flex items-center p-3 rounded-full border-2 transition-all duration-200 cursor-pointer shadow-sm min-w-[120px] max-w-[240px] pr-8 ${isSelected
-                        ? 'bg-white border-pop-blue ring-4 ring-pop-blue-light/40 shadow-xl shadow-blue-200 scale-105'
-                        : 'bg-white border-slate-200 hover:border-pop-blue-light hover:shadow-lg hover:-translate-y-0.5'
-                        }`}
-                    onClick={(e) => onSelect(e, node.id)}
-                >
+        <div
+            className={`absolute w-max -translate-x-1/2 -translate-y-1/2 group transition-opacity ${isDimmed ? 'opacity-30' : ''} ${isFocused ? 'z-20' : 'z-10'}`}
+            style={{ left: x, top: y }}
+        >
+            {/* Drop indicators for sibling reordering */}
+            {dropPosition === 'before' && <div className="absolute -top-2 left-4 right-4 h-1 rounded-full bg-pop-blue z-20"></div>}
+            {dropPosition === 'after' && <div className="absolute -bottom-2 left-4 right-4 h-1 rounded-full bg-pop-blue z-20"></div>}
+            <div
+                ref={cardRef}
+                data-node-id={node.id}
+                className={`relative z-10 flex items-center p-3 rounded-full border-2 transition-all duration-200 cursor-pointer shadow-sm min-w-[120px] max-w-[240px] pr-8 ${isSelected
+                    ? 'bg-white border-pop-blue ring-4 ring-pop-blue-light/40 shadow-xl shadow-blue-200 scale-105'
+                    : 'bg-white border-slate-200 hover:border-pop-blue-light hover:shadow-lg hover:-translate-y-0.5'
+                    } ${dropPosition === 'inside' ? 'ring-4 ring-pop-orange-light border-pop-orange' : ''} ${isDragSource ? 'opacity-40' : ''} ${isCurrentMatch ? 'ring-4 ring-yellow-300 border-yellow-400' : isMatch ? 'border-yellow-300' : ''}`}
+                style={hasColoredBorder ? { borderColor: colorHex, backgroundColor: `${colorHex}14` } : undefined}
+                onClick={(e) => onSelect(e, node.id)}
+                draggable={!isRoot && !isFocused}
+                onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    e.dataTransfer.setData('text/plain', node.text);
+                    onDragStart(node.id);
+                }}
+                onDragOver={(e) => onDragOver(e, node.id)}
+                onDrop={(e) => onDrop(e, node.id)}
+                onDragEnd={onDragEnd}
+            >
+                {node.icon && <span className="mr-2 text-lg leading-none shrink-0">{node.icon}</span>}
+                <div className="flex-1 min-w-0 flex flex-col">
                     {isFocused ? (
                         <input
                             ref={inputRef}
@@ -235,60 +1001,64 @@ const NodeView: React.FC<NodeProps> = ({ node, selectedIds, lastFocusedId, onSel
                             className={`w-full text-center outline-none break-words ${isSelected ? 'text-pop-blue-dark font-black' : 'text-slate-600 font-bold'}`}
                             tabIndex={isSelected ? 0 : -1}
                             onKeyDown={(e) => isSelected && onKeyDown(e, node.id)}
-                            ref={(el) => { if (isSelected && lastFocusedId === node.id) el?.focus(); }}
+                            ref={(el) => { if (isSelected && lastFocusedId === node.id) el?.focus({ preventScroll: true }); }}
                         >
-                            {node.text}
+                            <HighlightedText text={node.text} ranges={isMatch && search ? findTextRanges(node.text, search.pattern) : []} />
                         </div>
                     )}
+                    <NodeBadges node={node} />
                 </div>
-
-                {/* Magic Expand Button - Visible on Hover or Selection */}
-                {(isSelected || 'group-hover:opacity-100') && (
-                    <button
-                        className={`absolute -top-3 -right-3 z-20 w-8 h-8 rounded-full flex items-center justify-center bg-gradient-to-br from-pop-orange to-pop-orange-dark text-white shadow-lg shadow-orange-200/50 hover:scale-110 transition-all duration-200 ${isSelected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
-                        onClick={(e) => {
-                            e.stopPropagation();
-                            onAutoExpand(node.id, node.text);
-                        }}
-                        title="Mind Tree Bubble: Auto-generate children"
-                    >
-                        ✨
-                    </button>
-                )}
+                <PresenceMarker id={node.id} collaborators={collaborators} rounded="rounded-full" />
             </div>
 
-            {/* Children Group */}
-            {node.children && node.children.length > 0 && (
-                <div className="flex items-center">
-                    <div className="w-8 h-[3px] bg-slate-300 rounded-full"></div>
-                    <div className="flex flex-col gap-4 relative">
-                        {node.children.map((child, idx) => (
-                            <div key={child.id} className="relative flex items-center">
-                                {node.children.length > 1 && (
-                                    <div className={`absolute left-0 w-[3px] bg-slate-300 ${idx === 0 ? 'h-1/2 top-1/2 rounded-tl-full' :
-                                        idx === node.children.length - 1 ? 'h-1/2 bottom-1/2 rounded-bl-full' : 'h-full'
-                                        }`}></div>
-                                )}
-                                {node.children.length > 0 && (
-                                    <div className="w-8 h-[3px] bg-slate-300 rounded-r-full"></div>
-                                )}
-                                <NodeView
-                                    node={child}
-                                    selectedIds={selectedIds}
-                                    lastFocusedId={lastFocusedId}
-                                    onSelect={onSelect}
-                                    onUpdate={onUpdate}
-                                    onKeyDown={onKeyDown}
-                                    onAutoExpand={onAutoExpand}
-                                    depth={depth + 1}
-                                />
-                            </div>
-                        ))}
-                    </div>
-                </div>
+            {/* Pin Handle - drag to place the branch freely, stays visible while pinned */}
+            {!isRoot && (
+                <button
+                    className={`absolute -top-3 -left-3 z-20 w-7 h-7 rounded-full flex items-center justify-center text-xs border-2 shadow-sm cursor-grab active:cursor-grabbing touch-none transition-all duration-200 hover:scale-110 ${isPinned
+                        ? 'bg-pop-yellow border-yellow-500 opacity-100'
+                        : `bg-white border-slate-300 ${isSelected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`
+                        }`}
+                    onPointerDown={(e) => onPinStart(e, node.id)}
+                    onDoubleClick={(e) => {
+                        e.stopPropagation();
+                        onUnpin(node.id);
+                    }}
+                    title={isPinned ? 'Pinned: drag to move, double-click to unpin' : 'Drag to place this branch freely'}
+                >
+                    📌
+                </button>
+            )}
+
+            {/* Magic Expand Button - Visible on Hover or Selection */}
+            {(isSelected || 'group-hover:opacity-100') && (
+                <button
+                    className={`absolute -top-3 -right-3 z-20 w-8 h-8 rounded-full flex items-center justify-center bg-gradient-to-br from-pop-orange to-pop-orange-dark text-white shadow-lg shadow-orange-200/50 hover:scale-110 transition-all duration-200 ${isSelected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onAutoExpand(node.id, e.currentTarget.getBoundingClientRect());
+                    }}
+                    title="Mind Tree Bubble: Suggest children"
+                >
+                    ✨
+                </button>
+            )}
+
+            {/* Fold Toggle - shows the child count while collapsed */}
+            {hasChildren && (
+                <button
+                    className={`absolute -bottom-3 -right-3 z-20 min-w-7 h-7 px-1.5 rounded-full flex items-center justify-center text-xs font-black border-2 transition-all duration-200 ${isCollapsed
+                        ? 'bg-pop-blue text-white border-pop-blue-dark shadow-md shadow-blue-200 opacity-100'
+                        : `bg-white text-slate-400 border-slate-300 hover:text-pop-blue hover:border-pop-blue ${isSelected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`
+                        }`}
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onToggleExpand(node.id);
+                    }}
+                    title={isCollapsed ? `Expand (${node.children.length} children)` : 'Collapse'}
+                >
+                    {isCollapsed ? `+${node.children.length}` : '−'}
+                </button>
             )}
         </div>
     );
 };
-
-
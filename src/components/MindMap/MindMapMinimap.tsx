@@ -0,0 +1,74 @@
+import React, { useRef } from 'react';
+import type { LayoutBounds, MindMapLayoutResult } from '../../utils/layout';
+import type { Point } from '../../utils/camera';
+
+interface Props {
+    layout: MindMapLayoutResult;
+    visibleRect: LayoutBounds; // The part of the map on screen, in layout coordinates
+    selectedIds: Set<string>;
+    onNavigate: (point: Point) => void; // Center the camera on this layout point
+}
+
+const MINIMAP_WIDTH = 180;
+const MINIMAP_HEIGHT = 120;
+const MINIMAP_PADDING = 40; // Layout units around the map
+
+// The whole map in miniature; click or drag to move the viewport there
+export const MindMapMinimap: React.FC<Props> = ({ layout, visibleRect, selectedIds, onNavigate }) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const { bounds } = layout;
+    const viewBox = [
+        bounds.minX - MINIMAP_PADDING,
+        bounds.minY - MINIMAP_PADDING,
+        bounds.maxX - bounds.minX + MINIMAP_PADDING * 2,
+        bounds.maxY - bounds.minY + MINIMAP_PADDING * 2,
+    ];
+
+    const navigate = (e: React.PointerEvent) => {
+        const matrix = svgRef.current?.getScreenCTM();
+        if (!matrix) return;
+        const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+        onNavigate({ x: point.x, y: point.y });
+    };
+
+    return (
+        <svg
+            ref={svgRef}
+            width={MINIMAP_WIDTH}
+            height={MINIMAP_HEIGHT}
+            viewBox={viewBox.join(' ')}
+            className="block cursor-pointer touch-none"
+            onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                navigate(e);
+            }}
+            onPointerMove={(e) => {
+                if (e.currentTarget.hasPointerCapture(e.pointerId)) navigate(e);
+            }}
+        >
+            {layout.edges.map(edge => (
+                <path key={edge.childId} d={edge.path} fill="none" stroke="#cbd5e1" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+            ))}
+            {[...layout.boxes].map(([id, box]) => (
+                <rect
+                    key={id}
+                    x={box.x - box.width / 2}
+                    y={box.y - box.height / 2}
+                    width={box.width}
+                    height={box.height}
+                    rx={box.height / 2}
+                    className={selectedIds.has(id) ? 'fill-pop-blue' : 'fill-slate-300'}
+                />
+            ))}
+            <rect
+                x={visibleRect.minX}
+                y={visibleRect.minY}
+                width={visibleRect.maxX - visibleRect.minX}
+                height={visibleRect.maxY - visibleRect.minY}
+                className="fill-pop-blue/10 stroke-pop-blue"
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+            />
+        </svg>
+    );
+};
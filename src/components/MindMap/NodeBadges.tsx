@@ -0,0 +1,55 @@
+import React from 'react';
+import type { MindMapNode } from '../../types';
+
+// Index = priority - 1
+const PRIORITY_CLASSES = [
+    'bg-red-100 text-red-600',
+    'bg-orange-100 text-orange-600',
+    'bg-yellow-100 text-yellow-700',
+    'bg-blue-100 text-blue-600',
+    'bg-slate-100 text-slate-500',
+];
+
+interface Props {
+    node: MindMapNode;
+}
+
+// Small row of metadata below the node text; renders nothing for plain nodes
+export const NodeBadges: React.FC<Props> = ({ node }) => {
+    const { tags = [], links = [], priority, progress, note } = node;
+    if (tags.length === 0 && links.length === 0 && priority === undefined && progress === undefined && !note) return null;
+
+    return (
+        <div className="flex flex-wrap items-center justify-center gap-1 mt-1 text-[10px] font-bold leading-none">
+            {priority !== undefined && (
+                <span className={`px-1.5 py-0.5 rounded-full ${PRIORITY_CLASSES[priority - 1]}`} title={`Priority ${priority}`}>
+                    P{priority}
+                </span>
+            )}
+            {progress !== undefined && (
+                <span className="flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-slate-100 text-slate-500" title={`${progress}% done`}>
+                    <span className="w-8 h-1.5 rounded-full bg-slate-200 overflow-hidden">
+                        <span className="block h-full bg-pop-green" style={{ width: `${progress}%` }} />
+                    </span>
+                    {progress}%
+                </span>
+            )}
+            {tags.map(tag => (
+                <span key={tag} className="px-1.5 py-0.5 rounded-full bg-blue-50 text-pop-blue-dark">#{tag}</span>
+            ))}
+            {note && <span title={note}>📝</span>}
+            {links.length > 0 && (
+                <a
+                    href={links[0]}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={(e) => e.stopPropagation()}
+                    className="hover:scale-125 transition-transform"
+                    title={links.join('\n')}
+                >
+                    🔗{links.length > 1 ? links.length : ''}
+                </a>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import type { MindMapNode, NodeMeta } from '../../types';
+import { MAX_PRIORITY, MIN_PRIORITY, NODE_COLORS, parseTagList } from '../../utils/nodeMeta';
+
+interface Props {
+    node: MindMapNode; // Render with key={node.id} so the local input state resets per node
+    onChange: (patch: Partial<NodeMeta>) => void;
+    onClose: () => void;
+}
+
+const QUICK_ICONS = ['⭐', '💡', '🚀', '✅', '⚠️', '❓', '🔥', '📌'];
+
+const PRIORITIES = Array.from({ length: MAX_PRIORITY - MIN_PRIORITY + 1 }).map((_, i) => MIN_PRIORITY + i);
+
+// "example.com" -> "https://example.com"; spaces are not allowed in a link line of the text format
+const normalizeLink = (link: string) => {
+    const trimmed = link.trim().replace(/\s/g, '%20');
+    if (trimmed === '') return '';
+    return /^[a-z][a-z\d+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
+
+export const NodeDetailsPanel: React.FC<Props> = ({ node, onChange, onClose }) => {
+    const [tagInput, setTagInput] = useState('');
+    const [linkInput, setLinkInput] = useState('');
+    const tags = node.tags ?? [];
+    const links = node.links ?? [];
+
+    const addTags = () => {
+        const added = parseTagList(tagInput).filter(tag => !tags.includes(tag));
+        if (added.length > 0) onChange({ tags: [...tags, ...added] });
+        setTagInput('');
+    };
+
+    const addLink = () => {
+        const link = normalizeLink(linkInput);
+        if (link && !links.includes(link)) onChange({ links: [...links, link] });
+        setLinkInput('');
+    };
+
+    const optionButton = (isActive: boolean) =>
+        `px-2.5 py-1 rounded-full text-xs font-bold border-2 transition-all ${isActive
+            ? 'bg-pop-blue text-white border-pop-blue-dark'
+            : 'bg-white text-slate-500 border-slate-200 hover:border-pop-blue-light'}`;
+
+    const sectionLabel = 'text-xs font-black text-slate-400 uppercase tracking-wide';
+
+    return (
+        <aside className="w-80 shrink-0 pop-card p-5 flex flex-col gap-4 overflow-y-auto animate-fadeIn">
+            <div className="flex justify-between items-start gap-2">
+                <h2 className="text-lg font-black text-pop-text break-words min-w-0">
+                    {node.icon && <span className="mr-1">{node.icon}</span>}
+                    {node.text || '(empty)'}
+                </h2>
+                <button onClick={onClose} className="text-slate-400 hover:text-slate-600 font-bold text-xl leading-none" title="Close (⌘+I)">×</button>
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <span className={sectionLabel}>Icon</span>
+                <div className="flex flex-wrap items-center gap-1">
+                    <input
+                        className="pop-input py-1 px-2 w-14 text-center"
+                        value={node.icon ?? ''}
+                        onChange={(e) => onChange({ icon: e.target.value.replace(/[\s{}]/g, '') })}
+                        placeholder="—"
+                    />
+                    {QUICK_ICONS.map(icon => (
+                        <button
+                            key={icon}
+                            onClick={() => onChange({ icon: node.icon === icon ? undefined : icon })}
+                            className={`w-8 h-8 rounded-lg hover:bg-slate-100 ${node.icon === icon ? 'bg-blue-50 ring-2 ring-pop-blue-light' : ''}`}
+                        >
+                            {icon}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <span className={sectionLabel}>Color</span>
+                <div className="flex flex-wrap gap-2">
+                    <button
+                        onClick={() => onChange({ color: undefined })}
+                        className={`w-7 h-7 rounded-full border-2 border-dashed border-slate-300 text-slate-300 text-xs font-black ${!node.color ? 'ring-2 ring-offset-2 ring-pop-blue' : ''}`}
+                        title="No color"
+                    >
+                        ∅
+                    </button>
+                    {NODE_COLORS.map(color => (
+                        <button
+                            key={color.id}
+                            onClick={() => onChange({ color: color.id })}
+                            className={`w-7 h-7 rounded-full ${node.color === color.id ? 'ring-2 ring-offset-2 ring-pop-blue' : ''}`}
+                            style={{ backgroundColor: color.hex }}
+                            title={color.label}
+                        />
+                    ))}
+                </div>
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <span className={sectionLabel}>Priority</span>
+                <div className="flex flex-wrap gap-1">
+                    <button onClick={() => onChange({ priority: undefined })} className={optionButton(node.priority === undefined)}>None</button>
+                    {PRIORITIES.map(priority => (
+                        <button key={priority} onClick={() => onChange({ priority })} className={optionButton(node.priority === priority)}>
+                            P{priority}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <span className={sectionLabel}>Progress</span>
+                <div className="flex items-center gap-2">
+                    <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        step={5}
+                        value={node.progress ?? 0}
+                        onChange={(e) => onChange({ progress: Number(e.target.value) })}
+                        className="flex-1"
+                    />
+                    <span className="w-10 text-right text-sm font-bold text-slate-500">{node.progress === undefined ? '—' : `${node.progress}%`}</span>
+                    <button
+                        onClick={() => onChange({ progress: undefined })}
+                        disabled={node.progress === undefined}
+                        className="text-xs font-bold text-slate-400 hover:text-slate-600 disabled:opacity-30"
+                    >
+                        Clear
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <span className={sectionLabel}>Tags</span>
+                {tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                        {tags.map(tag => (
+                            <span key={tag} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-blue-50 text-pop-blue-dark text-xs font-bold">
+                                #{tag}
+                                <button onClick={() => onChange({ tags: tags.filter(t => t !== tag) })} className="text-slate-400 hover:text-pop-red">×</button>
+                            </span>
+                        ))}
+                    </div>
+                )}
+                <input
+                    className="pop-input py-1 px-2 text-sm"
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') addTags();
+                    }}
+                    onBlur={addTags}
+                    placeholder="Add tags (comma separated)"
+                />
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <span className={sectionLabel}>Links</span>
+                {links.map(link => (
+                    <div key={link} className="flex items-center gap-2 text-sm">
+                        <a href={link} target="_blank" rel="noopener noreferrer" className="flex-1 min-w-0 truncate font-medium text-pop-blue-dark hover:underline" title={link}>
+                            🔗 {link}
+                        </a>
+                        <button onClick={() => onChange({ links: links.filter(l => l !== link) })} className="text-slate-400 hover:text-pop-red font-bold">×</button>
+                    </div>
+                ))}
+                <div className="flex gap-2">
+                    <input
+                        className="pop-input py-1 px-2 text-sm flex-1 min-w-0"
+                        value={linkInput}
+                        onChange={(e) => setLinkInput(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') addLink();
+                        }}
+                        placeholder="https://..."
+                    />
+                    <button onClick={addLink} disabled={linkInput.trim() === ''} className="pop-btn pop-btn-neutral text-xs py-1 px-3 disabled:opacity-40">
+                        Add
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex flex-col gap-2 flex-1">
+                <span className={sectionLabel}>Note</span>
+                <textarea
+                    className="pop-input text-sm min-h-32 flex-1 resize-none"
+                    value={node.note ?? ''}
+                    onChange={(e) => onChange({ note: e.target.value })}
+                    placeholder="Longer notes..."
+                />
+            </div>
+        </aside>
+    );
+};
@@ -0,0 +1,232 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useSettings } from '../../hooks/useSettings';
+import { DEFAULT_AUTO_EXPAND_SETTINGS, SUGGESTION_PROVIDERS, getSuggestionProvider } from '../../utils/suggestions';
+import type { SuggestionContext, SuggestionProviderId } from '../../utils/suggestions';
+
+interface Props {
+    context: SuggestionContext;
+    anchor: DOMRect; // The button that opened the popover
+    onAccept: (texts: string[]) => void;
+    onClose: () => void;
+}
+
+type RequestState =
+    | { status: 'loading' }
+    | { status: 'error'; message: string }
+    | { status: 'done'; suggestions: string[] };
+
+const POPOVER_WIDTH = 340;
+
+export const SuggestionPopover: React.FC<Props> = ({ context, anchor, onAccept, onClose }) => {
+    const [settings, updateSettings] = useSettings('auto-expand', DEFAULT_AUTO_EXPAND_SETTINGS);
+    const [request, setRequest] = useState<RequestState>({ status: 'loading' });
+    const [rejected, setRejected] = useState<Set<string>>(new Set());
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [reloadCount, setReloadCount] = useState(0);
+    const popoverRef = useRef<HTMLDivElement>(null);
+
+    const provider = getSuggestionProvider(settings.providerId);
+    const { count, language, wikipediaEndpoint, llm } = settings;
+
+    // Edited settings are used once the settings panel closes or on "Ask again", not on every keystroke
+    const [applied, setApplied] = useState({ count, language, wikipediaEndpoint, llm });
+    const applySettings = () => {
+        const isChanged = applied.count !== count || applied.language !== language
+            || applied.wikipediaEndpoint !== wikipediaEndpoint || applied.llm !== llm;
+        if (isChanged) setApplied({ count, language, wikipediaEndpoint, llm });
+    };
+
+    // (Re)load whenever the provider changes or settings are applied; a newer request cancels the older one
+    useEffect(() => {
+        const controller = new AbortController();
+        const requestSettings = { ...applied, providerId: provider.id };
+
+        Promise.resolve()
+            .then(() => {
+                setRequest({ status: 'loading' });
+                setRejected(new Set());
+                if (provider.requiresNetwork && !navigator.onLine) {
+                    throw new Error(`You are offline. Try "${getSuggestionProvider('documents').label}".`);
+                }
+                return provider.suggest(context, requestSettings, controller.signal);
+            })
+            .then(suggestions => {
+                if (!controller.signal.aborted) setRequest({ status: 'done', suggestions });
+            })
+            .catch(e => {
+                if (controller.signal.aborted) return;
+                console.error(e);
+                setRequest({ status: 'error', message: e instanceof Error ? e.message : String(e) });
+            });
+
+        return () => controller.abort();
+    }, [provider, context, applied, reloadCount]);
+
+    // Close on outside click
+    useEffect(() => {
+        const handlePointerDown = (e: PointerEvent) => {
+            if (!popoverRef.current?.contains(e.target as Node)) onClose();
+        };
+        window.addEventListener('pointerdown', handlePointerDown);
+        return () => window.removeEventListener('pointerdown', handlePointerDown);
+    }, [onClose]);
+
+    const accepted = request.status === 'done' ? request.suggestions.filter(s => !rejected.has(s)) : [];
+
+    const toggle = (suggestion: string) => {
+        setRejected(prev => {
+            const next = new Set(prev);
+            if (next.has(suggestion)) next.delete(suggestion);
+            else next.add(suggestion);
+            return next;
+        });
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        // Keep shortcuts of the mind map away while the popover has focus
+        e.stopPropagation();
+        if (e.key === 'Escape') onClose();
+        if (e.key === 'Enter' && !(e.target instanceof HTMLInputElement && e.target.type !== 'checkbox') && accepted.length > 0) {
+            e.preventDefault();
+            onAccept(accepted);
+        }
+    };
+
+    // Below the button, kept inside the viewport
+    const left = Math.max(8, Math.min(anchor.left - POPOVER_WIDTH / 2, window.innerWidth - POPOVER_WIDTH - 8));
+    const top = Math.min(anchor.bottom + 8, window.innerHeight - 120);
+
+    const fieldClass = 'pop-input py-1 px-2 text-sm w-full';
+
+    return (
+        <div
+            ref={popoverRef}
+            role="dialog"
+            aria-label="Suggestions"
+            className="fixed z-50 pop-card p-4 flex flex-col gap-3 animate-fadeIn max-h-[70vh] overflow-y-auto"
+            style={{ left, top, width: POPOVER_WIDTH }}
+            onKeyDown={handleKeyDown}
+            onClick={(e) => e.stopPropagation()}
+        >
+            <div className="flex items-center justify-between gap-2">
+                <div className="font-black text-pop-text truncate">✨ {context.text || '(empty)'}</div>
+                <button onClick={onClose} className="text-slate-400 hover:text-slate-600 font-bold text-xl leading-none">×</button>
+            </div>
+
+            <div className="flex items-center gap-2">
+                <select
+                    value={settings.providerId}
+                    onChange={(e) => updateSettings({ providerId: e.target.value as SuggestionProviderId })}
+                    className={fieldClass}
+                >
+                    {SUGGESTION_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+                <button
+                    onClick={() => {
+                        applySettings();
+                        setReloadCount(n => n + 1);
+                    }}
+                    className="pop-btn pop-btn-neutral text-sm py-1 px-3"
+                    title="Ask again"
+                >
+                    ↻
+                </button>
+            </div>
+
+            {request.status === 'loading' && (
+                <div className="flex items-center gap-2 text-sm font-bold text-pop-orange-dark animate-pulse py-2">
+                    <span className="animate-spin">✨</span> Generating...
+                </div>
+            )}
+            {request.status === 'error' && (
+                <div className="text-sm font-medium text-pop-red bg-red-50 rounded-lg p-2">{request.message}</div>
+            )}
+            {request.status === 'done' && (
+                request.suggestions.length === 0 ? (
+                    <div className="text-sm text-slate-400 font-medium py-2">No related terms found.</div>
+                ) : (
+                    <ul className="flex flex-col gap-1">
+                        {request.suggestions.map(suggestion => (
+                            <li key={suggestion}>
+                                <label className="flex items-center gap-2 px-2 py-1 rounded-lg hover:bg-slate-50 text-sm font-bold text-slate-600 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={!rejected.has(suggestion)}
+                                        onChange={() => toggle(suggestion)}
+                                    />
+                                    <span className={rejected.has(suggestion) ? 'line-through text-slate-300' : ''}>{suggestion}</span>
+                                </label>
+                            </li>
+                        ))}
+                    </ul>
+                )
+            )}
+
+            {isSettingsOpen && (
+                <div className="flex flex-col gap-2 border-t-2 border-slate-100 pt-3 text-xs font-bold text-slate-500">
+                    <div className="flex gap-2">
+                        <label className="flex-1 flex flex-col gap-1">
+                            Language
+                            <input className={fieldClass} value={language} onChange={(e) => updateSettings({ language: e.target.value.trim() })} placeholder="ja, en, de..." />
+                        </label>
+                        <label className="flex-1 flex flex-col gap-1">
+                            Results
+                            <input
+                                className={fieldClass}
+                                type="number"
+                                min={1}
+                                max={20}
+                                value={count}
+                                onChange={(e) => updateSettings({ count: Math.max(1, Math.min(20, Number(e.target.value) || 1)) })}
+                            />
+                        </label>
+                    </div>
+                    {settings.providerId === 'wikipedia' && (
+                        <label className="flex flex-col gap-1">
+                            Wikipedia API ({'{lang}'} = language)
+                            <input className={fieldClass} value={wikipediaEndpoint} onChange={(e) => updateSettings({ wikipediaEndpoint: e.target.value })} />
+                        </label>
+                    )}
+                    {settings.providerId === 'llm' && (
+                        <>
+                            <label className="flex flex-col gap-1">
+                                Endpoint (…/v1)
+                                <input className={fieldClass} value={llm.endpoint} onChange={(e) => updateSettings({ llm: { ...llm, endpoint: e.target.value } })} />
+                            </label>
+                            <label className="flex flex-col gap-1">
+                                Model
+                                <input className={fieldClass} value={llm.model} onChange={(e) => updateSettings({ llm: { ...llm, model: e.target.value } })} />
+                            </label>
+                            <label className="flex flex-col gap-1">
+                                API Key (optional)
+                                <input className={fieldClass} type="password" value={llm.apiKey} onChange={(e) => updateSettings({ llm: { ...llm, apiKey: e.target.value } })} />
+                            </label>
+                        </>
+                    )}
+                </div>
+            )}
+
+            <div className="flex items-center justify-between gap-2">
+                <button
+                    onClick={() => {
+                        if (isSettingsOpen) applySettings();
+                        setIsSettingsOpen(!isSettingsOpen);
+                    }}
+                    className="text-xs font-bold text-slate-400 hover:text-slate-600"
+                >
+                    ⚙ Settings
+                </button>
+                <div className="flex gap-2">
+                    <button onClick={onClose} className="pop-btn pop-btn-neutral text-sm py-1">Cancel</button>
+                    <button
+                        onClick={() => onAccept(accepted)}
+                        disabled={accepted.length === 0}
+                        className="pop-btn pop-btn-orange text-sm py-1 disabled:opacity-40 disabled:pointer-events-none"
+                    >
+                        Add {accepted.length}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
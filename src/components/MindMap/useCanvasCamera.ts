@@ -0,0 +1,136 @@
+import { useEffect, useRef, useState } from 'react';
+import type { LayoutBounds, NodeBox, Size } from '../../utils/layout';
+import { centerOn, fitCamera, revealBox, zoomAt } from '../../utils/camera';
+import type { Camera, Point } from '../../utils/camera';
+
+const WHEEL_ZOOM_SPEED = 0.0015;
+const ZOOM_STEP = 1.25; // Zoom buttons and ⌘+= / ⌘+-
+
+// Camera and pointers when the current pan/pinch gesture (re)started, plus where the pointers are now
+interface Gesture {
+    camera: Camera;
+    start: Map<number, Point>;
+    current: Map<number, Point>;
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+const midpoint = (a: Point, b: Point) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+// Pan and zoom of the mind map canvas. Until the user moves the camera it keeps the whole map
+// fitted, so a new or growing map is always in view; `fit` goes back to that mode.
+export const useCanvasCamera = (bounds: LayoutBounds) => {
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const gestureRef = useRef<Gesture | null>(null);
+    const [viewport, setViewport] = useState<Size>({ width: 0, height: 0 });
+    const [userCamera, setUserCamera] = useState<Camera | null>(null);
+    const [isPanning, setIsPanning] = useState(false);
+    const camera = userCamera ?? fitCamera(bounds, viewport);
+    // The fitted camera for the wheel listener, which zooms from it while the user has not moved the camera yet
+    const fittedRef = useRef({ bounds, viewport });
+
+    useEffect(() => {
+        fittedRef.current = { bounds, viewport };
+    }, [bounds, viewport]);
+
+    useEffect(() => {
+        const element = viewportRef.current;
+        if (!element) return;
+        const observer = new ResizeObserver(([entry]) => {
+            setViewport({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
+
+    // Wheel and trackpad pinch (a wheel event with ctrlKey) zoom around the pointer.
+    // Registered natively: React's wheel listener is passive and cannot stop the page from scrolling.
+    // Several wheel events can arrive before the next render, so each one zooms from the latest camera.
+    useEffect(() => {
+        const element = viewportRef.current;
+        if (!element) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = element.getBoundingClientRect();
+            const speed = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? WHEEL_ZOOM_SPEED * 16 : WHEEL_ZOOM_SPEED;
+            const factor = Math.exp(-e.deltaY * speed * (e.ctrlKey ? 4 : 1));
+            const point = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+            setUserCamera(prev => {
+                const from = prev ?? fitCamera(fittedRef.current.bounds, fittedRef.current.viewport);
+                return zoomAt(from, from.scale * factor, point);
+            });
+        };
+        element.addEventListener('wheel', handleWheel, { passive: false });
+        return () => element.removeEventListener('wheel', handleWheel);
+    }, []);
+
+    const toViewportPoint = (e: React.PointerEvent): Point => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    // One pointer drags the map, two pointers (touch) pinch-zoom it.
+    // Cards, buttons and inputs keep their own pointer handling.
+    const panHandlers = {
+        onPointerDown: (e: React.PointerEvent<HTMLDivElement>) => {
+            const target = e.target as HTMLElement;
+            if (!gestureRef.current && (e.button > 1 || target.closest('[data-node-id], button, input, textarea'))) return;
+            e.currentTarget.setPointerCapture(e.pointerId);
+            const pointers = new Map(gestureRef.current?.current);
+            pointers.set(e.pointerId, toViewportPoint(e));
+            gestureRef.current = { camera, start: new Map(pointers), current: pointers };
+            setIsPanning(true);
+        },
+        onPointerMove: (e: React.PointerEvent<HTMLDivElement>) => {
+            const gesture = gestureRef.current;
+            if (!gesture?.current.has(e.pointerId)) return;
+            gesture.current.set(e.pointerId, toViewportPoint(e));
+            const [startA, startB] = [...gesture.start.values()];
+            const [nowA, nowB] = [...gesture.current.values()];
+            if (startB && nowB) {
+                const anchor = midpoint(startA, startB);
+                const pinched = zoomAt(gesture.camera, gesture.camera.scale * (distance(nowA, nowB) / Math.max(distance(startA, startB), 1)), anchor);
+                const moved = midpoint(nowA, nowB);
+                setUserCamera({ ...pinched, x: pinched.x + moved.x - anchor.x, y: pinched.y + moved.y - anchor.y });
+            } else {
+                setUserCamera({ ...gesture.camera, x: gesture.camera.x + nowA.x - startA.x, y: gesture.camera.y + nowA.y - startA.y });
+            }
+        },
+        // The remaining pointer of a pinch continues as a pan from where the camera is now
+        onPointerUp: (e: React.PointerEvent<HTMLDivElement>) => {
+            const gesture = gestureRef.current;
+            if (!gesture?.current.has(e.pointerId)) return;
+            const pointers = new Map(gesture.current);
+            pointers.delete(e.pointerId);
+            gestureRef.current = pointers.size > 0 ? { camera, start: new Map(pointers), current: pointers } : null;
+            setIsPanning(pointers.size > 0);
+        },
+        onPointerCancel: () => {
+            gestureRef.current = null;
+            setIsPanning(false);
+        },
+    };
+
+    const isMeasured = viewport.width > 0 && viewport.height > 0;
+    const center = { x: viewport.width / 2, y: viewport.height / 2 };
+
+    return {
+        viewportRef,
+        viewport,
+        camera,
+        isPanning,
+        panHandlers,
+        fit: () => setUserCamera(null),
+        zoomIn: () => setUserCamera(zoomAt(camera, camera.scale * ZOOM_STEP, center)),
+        zoomOut: () => setUserCamera(zoomAt(camera, camera.scale / ZOOM_STEP, center)),
+        resetZoom: () => setUserCamera(zoomAt(camera, 1, center)),
+        centerOn: (point: Point) => {
+            if (isMeasured) setUserCamera(centerOn(camera, point, viewport));
+        },
+        // Pans only as far as needed; safe to call while rendering (no update when already visible)
+        reveal: (box: NodeBox) => {
+            if (!isMeasured) return;
+            const next = revealBox(camera, box, viewport);
+            if (next !== camera) setUserCamera(next);
+        },
+    };
+};
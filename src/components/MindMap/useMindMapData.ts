@@ -1,6 +1,11 @@
-import { useState, useCallback } from 'react';
-import type { MindMapNode } from '../../types';
+import { useCallback } from 'react';
+import type { MindMapNode, DropPosition, NodeMeta, NodePosition } from '../../types';
 import { v4 as uuidv4 } from 'uuid';
+import { useHistoryState } from '../../hooks/useHistoryState';
+import { documentStorageKey } from '../../utils/documents';
+import { mindMapCodec } from '../../utils/schema';
+import { MERGERS } from '../../utils/merge';
+import { applyMetaPatch } from '../../utils/nodeMeta';
 
 const INITIAL_TREE: MindMapNode = {
     id: 'root',
@@ -9,51 +14,94 @@ const INITIAL_TREE: MindMapNode = {
     isExpanded: true,
 };
 
-export const useMindMapData = () => {
-    const [root, setTreeRoot] = useState<MindMapNode>(() => {
-        // [NEW] LocalStorage Load
-        const saved = localStorage.getItem('mindmap-data-v1');
-        if (saved) {
-            try {
-                return JSON.parse(saved);
-            } catch (e) {
-                console.error("Failed to parse saved MindMap data", e);
-            }
-        }
-        return INITIAL_TREE;
-    });
-
-    const saveRoot = (newRoot: MindMapNode) => {
-        localStorage.setItem('mindmap-data-v1', JSON.stringify(newRoot));
-    };
+// Helper to find node and parent
+// We might not need parent often if we pass it down or search, but for deletion/sibling creation we do.
+// Recursive search.
+export const findNodePath = (current: MindMapNode, targetId: string, path: MindMapNode[] = []): MindMapNode[] | null => {
+    if (current.id === targetId) return [...path, current];
+    for (const child of current.children) {
+        const result = findNodePath(child, targetId, [...path, current]);
+        if (result) return result;
+    }
+    return null;
+};
 
-    // Helper to find node and parent
-    // We might not need parent often if we pass it down or search, but for deletion/sibling creation we do.
-    // Recursive search.
-    const findNodePath = (current: MindMapNode, targetId: string, path: MindMapNode[] = []): MindMapNode[] | null => {
-        if (current.id === targetId) return [...path, current];
-        for (const child of current.children) {
-            const result = findNodePath(child, targetId, [...path, current]);
-            if (result) return result;
-        }
-        return null;
-    };
+// Data of one library document. `onChange` is called after every edit (used for last-modified timestamps).
+export const useMindMapData = (documentId: string, onChange?: () => void) => {
+    // Every mutation goes through `update` so it becomes an undoable step (auto-saved by the history hook)
+    const { state: root, update, replaceState, undo, redo, canUndo, canRedo, loadError, repairData, discardData, conflicts, dismissConflicts } = useHistoryState<MindMapNode>(documentStorageKey(documentId), mindMapCodec, () => INITIAL_TREE, onChange, MERGERS.mindmap);
 
     const updateNodeText = useCallback((id: string, text: string) => {
-        setTreeRoot(prev => {
+        update(prev => {
             const clone = JSON.parse(JSON.stringify(prev)); // Deep clone for simplicity in MVP
             const path = findNodePath(clone, id);
-            if (path) {
-                const target = path[path.length - 1];
-                target.text = text;
-            }
-            saveRoot(clone); // [NEW] Auto-save
+            if (!path) return prev;
+            const target = path[path.length - 1];
+            target.text = text;
+            return clone;
+        }, { group: `text:${id}` }); // Keystrokes in the same node merge into one undo step
+    }, [update]);
+
+    // Several nodes at once (e.g. Replace All): a single undo step
+    const updateNodeTexts = useCallback((edits: { id: string; text: string }[]) => {
+        update(prev => {
+            const clone = JSON.parse(JSON.stringify(prev));
+            let changed = false;
+            edits.forEach(({ id, text }) => {
+                const path = findNodePath(clone, id);
+                if (!path || path[path.length - 1].text === text) return;
+                path[path.length - 1].text = text;
+                changed = true;
+            });
+            return changed ? clone : prev;
+        });
+    }, [update]);
+
+    // Notes, tags, color... (see utils/nodeMeta.ts); empty values remove the field
+    const updateNodeMeta = useCallback((id: string, patch: Partial<NodeMeta>) => {
+        update(prev => {
+            const clone = JSON.parse(JSON.stringify(prev));
+            const path = findNodePath(clone, id);
+            if (!path) return prev;
+            applyMetaPatch(path[path.length - 1], patch);
+            return clone;
+        }, { group: `meta:${id}:${Object.keys(patch).join(',')}` }); // Typing in one field merges into one undo step
+    }, [update]);
+
+    // Pins a node (and with it its branch) at a manual position; null hands it back to the layout
+    const setNodePosition = useCallback((id: string, position: NodePosition | null) => {
+        update(prev => {
+            if (id === prev.id) return prev; // The root is the origin of all positions
+            const clone = JSON.parse(JSON.stringify(prev));
+            const path = findNodePath(clone, id);
+            if (!path) return prev;
+            const target = path[path.length - 1];
+            if (!position && !target.position) return prev;
+            if (position) target.position = { x: Math.round(position.x), y: Math.round(position.y) };
+            else delete target.position;
             return clone;
         });
-    }, []);
+    }, [update]);
+
+    // Unpins every node: a single undo step
+    const clearPositions = useCallback(() => {
+        update(prev => {
+            const clone = JSON.parse(JSON.stringify(prev));
+            let changed = false;
+            const visit = (node: MindMapNode) => {
+                if (node.position) {
+                    delete node.position;
+                    changed = true;
+                }
+                node.children.forEach(visit);
+            };
+            visit(clone);
+            return changed ? clone : prev;
+        });
+    }, [update]);
 
     const addSibling = useCallback((referenceId: string) => {
-        setTreeRoot(prev => {
+        update(prev => {
             if (referenceId === prev.id) return prev; // Cannot add sibling to root
             const clone = JSON.parse(JSON.stringify(prev));
             const path = findNodePath(clone, referenceId);
@@ -62,15 +110,14 @@ export const useMindMapData = () => {
                 const index = parent.children.findIndex((n: MindMapNode) => n.id === referenceId);
                 const newNode: MindMapNode = { id: uuidv4(), text: 'New Node', children: [] };
                 parent.children.splice(index + 1, 0, newNode);
-                saveRoot(clone); // [NEW] Auto-save
                 return clone;
             }
-            return clone;
+            return prev;
         });
-    }, []);
+    }, [update]);
 
     const addChild = useCallback((parentId: string) => {
-        setTreeRoot(prev => {
+        update(prev => {
             const clone = JSON.parse(JSON.stringify(prev));
             const path = findNodePath(clone, parentId);
             if (path) {
@@ -78,15 +125,14 @@ export const useMindMapData = () => {
                 const newNode: MindMapNode = { id: uuidv4(), text: 'New Child', children: [] };
                 target.children.push(newNode);
                 target.isExpanded = true;
-                saveRoot(clone); // [NEW] Auto-save
                 return clone;
             }
-            return clone;
+            return prev;
         });
-    }, []);
+    }, [update]);
 
     const addChildren = useCallback((parentId: string, texts: string[]) => {
-        setTreeRoot(prev => {
+        update(prev => {
             const clone = JSON.parse(JSON.stringify(prev));
             const path = findNodePath(clone, parentId);
             if (path) {
@@ -96,19 +142,18 @@ export const useMindMapData = () => {
                     target.children.push(newNode);
                 });
                 target.isExpanded = true;
-                saveRoot(clone);
                 return clone;
             }
-            return clone;
+            return prev;
         });
-    }, []);
+    }, [update]);
 
     const removeNodes = useCallback((ids: string[]) => {
-        setTreeRoot(prev => {
+        update(prev => {
             const clone = JSON.parse(JSON.stringify(prev));
             const idsSet = new Set(ids);
 
-            if (idsSet.has(clone.id)) return clone; // Cannot remove root
+            if (idsSet.has(clone.id)) return prev; // Cannot remove root
 
             // Helper to remove recursively and promote children
             const removeRecursive = (node: MindMapNode) => {
@@ -133,82 +178,235 @@ export const useMindMapData = () => {
             };
 
             removeRecursive(clone);
-            saveRoot(clone); // [NEW] Auto-save
             return clone;
         });
-    }, []);
+    }, [update]);
 
-    const setRoot = (newRoot: MindMapNode) => {
-        setTreeRoot(newRoot);
-        saveRoot(newRoot); // [NEW] Auto-save
-    };
+    // Whole branches (cut): unlike removeNodes the children go along
+    const removeSubtrees = useCallback((ids: string[]) => {
+        update(prev => {
+            const idsSet = new Set(ids);
+            if (idsSet.has(prev.id)) return prev; // Cannot remove root
+            const clone = JSON.parse(JSON.stringify(prev));
+            const prune = (node: MindMapNode) => {
+                node.children = node.children.filter(child => !idsSet.has(child.id));
+                node.children.forEach(prune);
+            };
+            prune(clone);
+            return clone;
+        });
+    }, [update]);
 
-    const insertParent = useCallback((targetIds: string[], text: string = 'New Parent') => {
-        setTreeRoot(prev => {
+    // Pasted branches become the last children of the parent (one undo step)
+    const insertSubtrees = useCallback((parentId: string, subtrees: MindMapNode[]) => {
+        update(prev => {
+            if (subtrees.length === 0) return prev;
             const clone = JSON.parse(JSON.stringify(prev));
+            const path = findNodePath(clone, parentId);
+            if (!path) return prev;
+            const target = path[path.length - 1];
+            target.children.push(...subtrees);
+            target.isExpanded = true;
+            return clone;
+        });
+    }, [update]);
+
+    const setRoot = useCallback((newRoot: MindMapNode) => {
+        update(() => newRoot); // Undoable, so an accidental import can be reverted
+    }, [update]);
 
+    // Every group of selected siblings gets its own new parent, at the position of the first of
+    // them; selections spanning several parents are handled in one undo step
+    const insertParent = useCallback((targetIds: string[], text: string = 'New Parent') => {
+        update(prev => {
             // Cannot insert parent for Root
-            if (targetIds.includes(clone.id)) return clone;
+            if (targetIds.includes(prev.id)) return prev;
 
+            const clone = JSON.parse(JSON.stringify(prev));
             const targetsSet = new Set(targetIds);
+            let changed = false;
 
-            // 1. Find common parent using the first target
-            const firstTargetId = targetIds[0];
-            const path = findNodePath(clone, firstTargetId);
+            const visit = (node: MindMapNode) => {
+                // Deeper groups first, the new parents are not visited again
+                node.children.forEach(visit);
+                if (!node.children.some(child => targetsSet.has(child.id))) return;
 
-            if (!path || path.length < 2) return clone; // Should accept at least root->target
+                const newParent: MindMapNode = {
+                    id: uuidv4(),
+                    text: text,
+                    children: [],
+                    isExpanded: true
+                };
 
-            const commonParent = path[path.length - 2];
+                // Single pass: split the children and insert the newParent at the first target's position
+                const newChildren: MindMapNode[] = [];
+                for (const child of node.children) {
+                    if (targetsSet.has(child.id)) {
+                        if (newParent.children.length === 0) newChildren.push(newParent);
+                        newParent.children.push(child);
+                    } else {
+                        newChildren.push(child);
+                    }
+                }
+                node.children = newChildren;
+                changed = true;
+            };
 
-            // 2. Verify all targets are children of this commonParent
-            // We use the ID to check because objects are cloned
-            const validTargets = targetIds.filter(id => commonParent.children.some((c: MindMapNode) => c.id === id));
+            visit(clone);
+            return changed ? clone : prev;
+        });
+    }, [update]);
+
+    // Reorder within the current parent (-1 = up, 1 = down)
+    const moveSibling = useCallback((id: string, offset: -1 | 1) => {
+        update(prev => {
+            const clone = JSON.parse(JSON.stringify(prev));
+            const path = findNodePath(clone, id);
+            if (!path || path.length < 2) return prev; // Root has no siblings
 
-            // If we have mixed targets (some sharing parent, some not), we only move the valid ones?
-            // Or abort? User expectation: if I select multiple spanning different parents, maybe it shouldn't work.
-            // But let's just proceed with valid ones for robustness.
-            if (validTargets.length === 0) return clone;
+            const parent = path[path.length - 2];
+            const index = parent.children.findIndex((n: MindMapNode) => n.id === id);
+            const newIndex = index + offset;
+            if (newIndex < 0 || newIndex >= parent.children.length) return prev;
 
-            // 3. Create New Node
-            const newParent: MindMapNode = {
-                id: uuidv4(),
-                text: text,
-                children: [],
-                isExpanded: true
-            };
+            const [node] = parent.children.splice(index, 1);
+            parent.children.splice(newIndex, 0, node);
+            return clone;
+        });
+    }, [update]);
 
-            // 4. Move targets to newParent and 5. Insert newParent at correct position
-            // We use a single pass to split children and insert the newParent at the first target's position.
+    // Indent: become the last child of the previous sibling
+    const indentNode = useCallback((id: string) => {
+        update(prev => {
+            const clone = JSON.parse(JSON.stringify(prev));
+            const path = findNodePath(clone, id);
+            if (!path || path.length < 2) return prev;
 
-            const originalChildren = [...commonParent.children];
-            const newChildren: MindMapNode[] = [];
-            const newParentChildren: MindMapNode[] = [];
-            let parentInserted = false;
+            const parent = path[path.length - 2];
+            const index = parent.children.findIndex((n: MindMapNode) => n.id === id);
+            if (index <= 0) return prev; // No previous sibling to become the parent
 
-            for (const child of originalChildren) {
-                if (targetsSet.has(child.id)) {
-                    newParentChildren.push(child);
-                    if (!parentInserted) {
-                        newChildren.push(newParent);
-                        parentInserted = true;
-                    }
-                } else {
-                    newChildren.push(child);
-                }
+            const newParent = parent.children[index - 1];
+            const [node] = parent.children.splice(index, 1);
+            newParent.children.push(node);
+            newParent.isExpanded = true;
+            return clone;
+        });
+    }, [update]);
+
+    // Outdent: become the sibling right after the current parent
+    const outdentNode = useCallback((id: string) => {
+        update(prev => {
+            const clone = JSON.parse(JSON.stringify(prev));
+            const path = findNodePath(clone, id);
+            if (!path || path.length < 3) return prev; // Direct children of root cannot go higher
+
+            const parent = path[path.length - 2];
+            const grandParent = path[path.length - 3];
+            const index = parent.children.findIndex((n: MindMapNode) => n.id === id);
+            const [node] = parent.children.splice(index, 1);
+
+            const parentIndex = grandParent.children.findIndex((n: MindMapNode) => n.id === parent.id);
+            grandParent.children.splice(parentIndex + 1, 0, node);
+            return clone;
+        });
+    }, [update]);
+
+    // Drag & Drop: move a whole subtree before/after a node or inside it (as last child)
+    const moveNode = useCallback((id: string, targetId: string, position: DropPosition) => {
+        update(prev => {
+            if (id === targetId || id === prev.id) return prev; // Root cannot be moved
+            const clone = JSON.parse(JSON.stringify(prev));
+
+            const sourcePath = findNodePath(clone, id);
+            if (!sourcePath) return prev;
+            const node = sourcePath[sourcePath.length - 1];
+
+            // Cannot move a node into its own subtree
+            if (findNodePath(node, targetId)) return prev;
+
+            const targetPath = findNodePath(clone, targetId);
+            if (!targetPath) return prev;
+            if (position !== 'inside' && targetPath.length < 2) return prev; // Root has no siblings
+
+            const oldParent = sourcePath[sourcePath.length - 2];
+            oldParent.children = oldParent.children.filter((n: MindMapNode) => n.id !== id);
+
+            const target = targetPath[targetPath.length - 1];
+            if (position === 'inside') {
+                target.children.push(node);
+                target.isExpanded = true;
+            } else {
+                const newParent = targetPath[targetPath.length - 2];
+                const index = newParent.children.findIndex((n: MindMapNode) => n.id === targetId);
+                newParent.children.splice(position === 'before' ? index : index + 1, 0, node);
             }
+            return clone;
+        });
+    }, [update]);
 
-            newParent.children = newParentChildren;
-            commonParent.children = newChildren;
+    // Collapse / Expand
+    const toggleExpanded = useCallback((id: string) => {
+        update(prev => {
+            const clone = JSON.parse(JSON.stringify(prev));
+            const path = findNodePath(clone, id);
+            if (!path) return prev;
+            const target = path[path.length - 1];
+            if (target.children.length === 0) return prev; // Nothing to fold
+            target.isExpanded = target.isExpanded === false;
+            return clone;
+        });
+    }, [update]);
 
-            saveRoot(clone);
+    // Fold/Unfold the node together with all of its siblings (root acts alone)
+    const setSiblingsExpanded = useCallback((id: string, expanded: boolean) => {
+        update(prev => {
+            const clone = JSON.parse(JSON.stringify(prev));
+            const path = findNodePath(clone, id);
+            if (!path) return prev;
+            const siblings: MindMapNode[] = path.length >= 2 ? path[path.length - 2].children : [clone];
+            siblings.forEach(n => {
+                if (n.children.length > 0) n.isExpanded = expanded;
+            });
             return clone;
         });
-    }, []);
+    }, [update]);
 
-    const resetData = () => {
-        setTreeRoot(INITIAL_TREE);
-        saveRoot(INITIAL_TREE);
-    };
+    // Show the whole tree down to `depth` levels below the root (Infinity = expand everything)
+    const expandToDepth = useCallback((depth: number) => {
+        update(prev => {
+            const clone = JSON.parse(JSON.stringify(prev));
+            const apply = (node: MindMapNode, level: number) => {
+                if (node.children.length > 0) node.isExpanded = level < depth;
+                node.children.forEach(c => apply(c, level + 1));
+            };
+            apply(clone, 0);
+            return clone;
+        });
+    }, [update]);
 
-    return { root, updateNodeText, addSibling, addChild, addChildren, removeNodes, insertParent, setRoot, resetData };
+    // Unfold every collapsed ancestor so the node becomes visible (e.g. jumping to a search match)
+    const revealNode = useCallback((id: string) => {
+        update(prev => {
+            const path = findNodePath(prev, id);
+            if (!path || path.slice(0, -1).every(n => n.isExpanded !== false)) return prev;
+            const clone = JSON.parse(JSON.stringify(prev));
+            findNodePath(clone, id)?.slice(0, -1).forEach(n => {
+                n.isExpanded = true;
+            });
+            return clone;
+        });
+    }, [update]);
+
+    const resetData = useCallback(() => {
+        update(() => INITIAL_TREE);
+    }, [update]);
+
+    return {
+        root, updateNodeText, updateNodeTexts, updateNodeMeta, setNodePosition, clearPositions, addSibling, addChild, addChildren, removeNodes, removeSubtrees, insertSubtrees, insertParent,
+        moveSibling, indentNode, outdentNode, moveNode,
+        toggleExpanded, setSiblingsExpanded, expandToDepth, revealNode,
+        setRoot, resetData, replaceState, undo, redo, canUndo, canRedo,
+        loadError, repairData, discardData, conflicts, dismissConflicts
+    };
 };
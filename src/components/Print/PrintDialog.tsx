@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { MindMapNode, MandalaChartData } from '../../types';
+import type { MindMapLayout } from '../../utils/layout';
+import { MandalaPrintLayout, MindMapPrintLayout } from './PrintLayout';
+import type { MindMapPrintStyle, Orientation } from './PrintLayout';
+
+export type PrintTarget =
+    | { kind: 'mindmap'; root: MindMapNode; layout: MindMapLayout } // The layout shown on the canvas
+    | { kind: 'mandala'; data: MandalaChartData };
+
+interface Props {
+    target: PrintTarget;
+    documentName: string;
+    onClose: () => void;
+}
+
+const MINDMAP_STYLES: { id: MindMapPrintStyle; label: string; description: string }[] = [
+    { id: 'outline', label: 'Outline', description: 'Indented list, flows over as many pages as needed' },
+    { id: 'fit', label: 'Fit to Page', description: 'The whole map scaled onto one page' },
+    { id: 'tiled', label: 'Tiled', description: 'The map at full size, split into pages to tape together' },
+];
+
+export const PrintDialog: React.FC<Props> = ({ target, documentName, onClose }) => {
+    const [title, setTitle] = useState(documentName);
+    const [showDate, setShowDate] = useState(true);
+    const [showGuides, setShowGuides] = useState(true);
+    const [style, setStyle] = useState<MindMapPrintStyle>('outline');
+    const [orientation, setOrientation] = useState<Orientation>('portrait');
+    const [includeCollapsed, setIncludeCollapsed] = useState(true);
+    const [isPrinting, setIsPrinting] = useState(false);
+    const onCloseRef = useRef(onClose);
+
+    useEffect(() => {
+        onCloseRef.current = onClose;
+    }, [onClose]);
+
+    // The layout is in the DOM now: wait for its images, then open the browser print dialog
+    useEffect(() => {
+        if (!isPrinting) return;
+        let cancelled = false;
+        const handleAfterPrint = () => onCloseRef.current();
+        window.addEventListener('afterprint', handleAfterPrint);
+
+        const images = Array.from(document.querySelectorAll<HTMLImageElement>('.print-root img'));
+        Promise.all(images.map(img => img.decode().catch(() => undefined))).then(() => {
+            if (!cancelled) window.print();
+        });
+        return () => {
+            cancelled = true;
+            window.removeEventListener('afterprint', handleAfterPrint);
+        };
+    }, [isPrinting]);
+
+    const date = showDate ? new Date().toLocaleDateString() : null;
+
+    const checkbox = (label: string, checked: boolean, onChange: (checked: boolean) => void) => (
+        <label className="flex items-center gap-2 text-sm font-bold text-slate-500">
+            <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+            {label}
+        </label>
+    );
+
+    const optionButton = (isActive: boolean) =>
+        `px-3 py-1 rounded-full text-sm font-bold border-2 transition-all ${isActive
+            ? 'bg-pop-blue text-white border-pop-blue-dark'
+            : 'bg-white text-slate-500 border-slate-200 hover:border-pop-blue-light'}`;
+
+    return (
+        <>
+            <div className="fixed inset-0 bg-slate-900/40 flex items-center justify-center z-50 backdrop-blur-sm animate-fadeIn p-4">
+                <div className="pop-card p-8 w-full max-w-lg flex flex-col gap-5">
+                    <div className="flex justify-between items-start">
+                        <div>
+                            <h2 className="text-2xl font-black text-pop-text mb-1">Print</h2>
+                            <p className="text-slate-500 font-medium">
+                                A4 layout. Choose "Save as PDF" in the print dialog for a PDF.
+                            </p>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="text-slate-400 hover:text-slate-600 transition-colors"
+                        >
+                            <span className="text-2xl font-bold">×</span>
+                        </button>
+                    </div>
+
+                    <label className="flex flex-col gap-1 text-sm font-bold text-slate-500">
+                        Title
+                        <input className="pop-input font-bold text-pop-text" value={title} onChange={(e) => setTitle(e.target.value)} />
+                    </label>
+
+                    {checkbox('Print the date', showDate, setShowDate)}
+
+                    {target.kind === 'mandala' ? (
+                        checkbox('Writing guides in empty cells', showGuides, setShowGuides)
+                    ) : (
+                        <>
+                            <div className="flex flex-col gap-2">
+                                <div className="flex items-center gap-2 text-sm font-bold text-slate-500">
+                                    Layout
+                                    {MINDMAP_STYLES.map(s => (
+                                        <button key={s.id} onClick={() => setStyle(s.id)} className={optionButton(style === s.id)}>
+                                            {s.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-slate-400 font-medium">
+                                    {MINDMAP_STYLES.find(s => s.id === style)?.description}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-2 text-sm font-bold text-slate-500">
+                                Orientation
+                                <button onClick={() => setOrientation('portrait')} className={optionButton(orientation === 'portrait')}>
+                                    Portrait
+                                </button>
+                                <button onClick={() => setOrientation('landscape')} className={optionButton(orientation === 'landscape')}>
+                                    Landscape
+                                </button>
+                            </div>
+                            {checkbox('Include folded branches', includeCollapsed, setIncludeCollapsed)}
+                        </>
+                    )}
+
+                    <div className="flex justify-end gap-3 pt-2">
+                        <button onClick={onClose} className="pop-btn pop-btn-neutral">
+                            Cancel
+                        </button>
+                        <button
+                            onClick={() => setIsPrinting(true)}
+                            disabled={isPrinting}
+                            className="pop-btn pop-btn-blue px-8 disabled:opacity-40 disabled:pointer-events-none"
+                        >
+                            🖨 Print
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {/* Only rendered while printing, outside #root so the print CSS can hide the app */}
+            {isPrinting && createPortal(
+                target.kind === 'mandala' ? (
+                    <MandalaPrintLayout data={target.data} title={title} date={date} showGuides={showGuides} />
+                ) : (
+                    <MindMapPrintLayout
+                        root={target.root}
+                        layout={target.layout}
+                        title={title}
+                        date={date}
+                        style={style}
+                        orientation={orientation}
+                        includeCollapsed={includeCollapsed}
+                    />
+                ),
+                document.body,
+            )}
+        </>
+    );
+};
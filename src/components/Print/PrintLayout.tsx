@@ -0,0 +1,204 @@
+import React from 'react';
+import type { MindMapNode, MandalaChartData } from '../../types';
+import { mandalaToRows } from '../../utils/export';
+import { renderMindMapSvg } from '../../utils/imageExport';
+import type { MindMapLayout } from '../../utils/layout';
+
+// =========================================================
+// PAGE GEOMETRY (A4 with 12mm margins, in mm)
+// =========================================================
+
+export type Orientation = 'portrait' | 'landscape';
+
+const PAGE_MARGIN = 12;
+const HEADER_HEIGHT = 14;
+const MM_PER_PX = 25.4 / 96;
+
+const pageContentSize = (orientation: Orientation) => {
+    const [width, height] = orientation === 'portrait' ? [210, 297] : [297, 210];
+    return { width: width - PAGE_MARGIN * 2, height: height - PAGE_MARGIN * 2 };
+};
+
+const PageStyle: React.FC<{ orientation: Orientation }> = ({ orientation }) => (
+    <style>{`@page { size: A4 ${orientation}; margin: ${PAGE_MARGIN}mm; }`}</style>
+);
+
+interface HeaderProps {
+    title: string;
+    date: string | null;
+    pageLabel?: string;
+}
+
+const PrintHeader: React.FC<HeaderProps> = ({ title, date, pageLabel }) => (
+    <header className="flex items-end justify-between gap-4 border-b-2 border-black pb-[2mm] mb-[4mm]" style={{ height: `${HEADER_HEIGHT - 4}mm` }}>
+        <h1 className="text-[16pt] font-black leading-none truncate">{title}</h1>
+        <span className="text-[9pt] text-slate-600 whitespace-nowrap">
+            {[date, pageLabel].filter(Boolean).join(' · ')}
+        </span>
+    </header>
+);
+
+// =========================================================
+// MANDALA CHART
+// =========================================================
+
+interface MandalaPrintProps {
+    data: MandalaChartData;
+    title: string;
+    date: string | null;
+    showGuides: boolean; // Dotted writing lines in empty cells, for filling in by hand
+}
+
+// One portrait page: the 9x9 square takes the full page width
+export const MandalaPrintLayout: React.FC<MandalaPrintProps> = ({ data, title, date, showGuides }) => {
+    const rows = mandalaToRows(data);
+    const cellSize = pageContentSize('portrait').width / 9;
+
+    return (
+        <div className="print-root text-black">
+            <PageStyle orientation="portrait" />
+            <PrintHeader title={title} date={date} />
+            <table className="table-fixed border-collapse w-full border-[3px] border-black">
+                <tbody>
+                    {rows.map((row, r) => (
+                        <tr key={r}>
+                            {row.map((text, c) => {
+                                const isGoal = r % 3 === 1 && c % 3 === 1;
+                                const isCore = r >= 3 && r < 6 && c >= 3 && c < 6;
+                                return (
+                                    <td
+                                        key={c}
+                                        className={`border border-slate-400 p-[1mm] text-center align-middle text-[8pt] leading-tight break-words
+                                            ${c % 3 === 0 ? 'border-l-[3px] border-l-black' : ''}
+                                            ${r % 3 === 0 ? 'border-t-[3px] border-t-black' : ''}
+                                            ${isGoal ? 'font-bold' : ''}
+                                            ${isGoal && isCore && r === 4 ? 'bg-orange-200 text-[10pt] font-black' : isGoal ? 'bg-orange-50' : isCore ? 'bg-slate-100' : ''}`}
+                                        style={{ width: `${cellSize}mm`, height: `${cellSize}mm` }}
+                                    >
+                                        {text ? (
+                                            <span className="whitespace-pre-wrap">{text}</span>
+                                        ) : showGuides && (
+                                            <div className="flex flex-col justify-evenly h-full px-[1mm]">
+                                                {[0, 1, 2].map(i => <div key={i} className="border-b border-dotted border-slate-400" />)}
+                                            </div>
+                                        )}
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+// =========================================================
+// MIND MAP
+// =========================================================
+
+export type MindMapPrintStyle = 'outline' | 'fit' | 'tiled';
+
+interface MindMapPrintProps {
+    root: MindMapNode;
+    layout: MindMapLayout; // Of the fitted and tiled pictures
+    title: string;
+    date: string | null;
+    style: MindMapPrintStyle;
+    orientation: Orientation;
+    includeCollapsed: boolean;
+}
+
+const expandAll = (node: MindMapNode): MindMapNode => ({
+    ...node,
+    isExpanded: true,
+    children: node.children.map(expandAll),
+});
+
+const flattenOutline = (node: MindMapNode, depth = 0, list: { node: MindMapNode; depth: number }[] = []) => {
+    list.push({ node, depth });
+    if (node.isExpanded !== false) node.children.forEach(child => flattenOutline(child, depth + 1, list));
+    return list;
+};
+
+export const MindMapPrintLayout: React.FC<MindMapPrintProps> = ({ root, layout, title, date, style, orientation, includeCollapsed }) => {
+    const tree = includeCollapsed ? expandAll(root) : root;
+    const page = pageContentSize(orientation);
+
+    if (style === 'outline') {
+        // The browser paginates the outline, rows never split across pages
+        return (
+            <div className="print-root text-black">
+                <PageStyle orientation={orientation} />
+                <PrintHeader title={title} date={date} />
+                {flattenOutline(tree).map(({ node, depth }) => (
+                    <div
+                        key={node.id}
+                        className={`break-inside-avoid py-[0.8mm] leading-snug ${depth === 0 ? 'text-[14pt] font-black' : depth === 1 ? 'text-[11pt] font-bold mt-[2mm]' : 'text-[10pt]'}`}
+                        style={{ paddingLeft: `${depth * 7}mm` }}
+                    >
+                        {depth > 0 && <span className="text-slate-400 mr-[2mm]">{depth === 1 ? '■' : '•'}</span>}
+                        <span className="whitespace-pre-wrap">{node.text}</span>
+                        {node.isExpanded === false && node.children.length > 0 && (
+                            <span className="text-slate-500 text-[8pt] ml-[2mm]">(+{node.children.length} folded)</span>
+                        )}
+                    </div>
+                ))}
+            </div>
+        );
+    }
+
+    const image = renderMindMapSvg(tree, { scale: 1, background: 'transparent' }, layout);
+    const src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.svg)}`;
+    const imageWidth = image.width * MM_PER_PX;
+    const imageHeight = image.height * MM_PER_PX;
+    const tileHeight = page.height - HEADER_HEIGHT;
+
+    if (style === 'fit') {
+        return (
+            <div className="print-root text-black">
+                <PageStyle orientation={orientation} />
+                <PrintHeader title={title} date={date} />
+                <img
+                    src={src}
+                    alt={title}
+                    className="block mx-auto object-contain"
+                    style={{ maxWidth: `${page.width}mm`, maxHeight: `${tileHeight}mm`, width: `${imageWidth}mm` }}
+                />
+            </div>
+        );
+    }
+
+    // Tiled: the map at 100% cut into page-sized pieces, numbered row by row
+    const columns = Math.max(1, Math.ceil(imageWidth / page.width));
+    const rows = Math.max(1, Math.ceil(imageHeight / tileHeight));
+    const tiles = Array.from({ length: rows * columns }).map((_, i) => ({ row: Math.floor(i / columns), column: i % columns }));
+
+    return (
+        <div className="print-root text-black">
+            <PageStyle orientation={orientation} />
+            {tiles.map(({ row, column }, i) => (
+                <section key={i} className={i < tiles.length - 1 ? 'break-after-page' : ''} style={{ width: `${page.width}mm` }}>
+                    <PrintHeader
+                        title={title}
+                        date={date}
+                        pageLabel={`Page ${i + 1}/${tiles.length} (row ${row + 1}, column ${column + 1})`}
+                    />
+                    <div className="relative overflow-hidden" style={{ width: `${page.width}mm`, height: `${tileHeight - 1}mm` }}>
+                        <img
+                            src={src}
+                            alt={`${title} ${i + 1}`}
+                            className="absolute max-w-none"
+                            style={{
+                                width: `${imageWidth}mm`,
+                                height: `${imageHeight}mm`,
+                                left: `${-column * page.width}mm`,
+                                top: `${-row * tileHeight}mm`,
+                            }}
+                        />
+                    </div>
+                </section>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import type { DocumentMeta } from '../../types';
+import type { DocumentLoadError } from '../../utils/schema';
+import { downloadText, toFileName } from '../../utils/download';
+
+interface Props {
+    document: DocumentMeta;
+    error: DocumentLoadError;
+    onRepair: () => boolean;
+    onDiscard: () => void;
+    onOpenLibrary: () => void;
+}
+
+const REASON_TEXT: Record<DocumentLoadError['reason'], string> = {
+    'invalid-json': 'The saved data is damaged and cannot be read.',
+    'too-large': 'The saved data is larger than this app can safely load.',
+    'newer-version': 'This document was saved by a newer version of the app.',
+    'invalid-schema': 'The saved data does not have the expected structure.',
+};
+
+// Shown instead of the editor when a document's saved data can't be loaded.
+// The broken data is never overwritten until the user picks one of the actions.
+export const RecoveryScreen: React.FC<Props> = ({ document, error, onRepair, onDiscard, onOpenLibrary }) => {
+    const canRepair = error.reason === 'invalid-schema';
+
+    return (
+        <div className="flex-1 flex items-center justify-center p-4">
+            <div className="pop-card p-8 w-full max-w-2xl flex flex-col gap-5">
+                <div>
+                    <h2 className="text-2xl font-black text-pop-text mb-1">⚠️ "{document.name}" could not be loaded</h2>
+                    <p className="text-slate-500 font-medium">{REASON_TEXT[error.reason]} {error.message}.</p>
+                </div>
+
+                {error.details.length > 0 && (
+                    <ul className="bg-slate-50 border-2 border-slate-200 rounded-xl p-3 font-mono text-xs text-slate-600 max-h-48 overflow-auto">
+                        {error.details.map((detail, i) => <li key={i}>{detail}</li>)}
+                    </ul>
+                )}
+
+                <p className="text-sm text-slate-500 font-medium">
+                    Your data has not been changed. Download a backup before trying anything else.
+                </p>
+
+                <div className="flex flex-wrap gap-3 justify-end">
+                    <button
+                        onClick={() => downloadText(toFileName(`${document.name}-backup`, 'json'), error.raw, 'application/json')}
+                        className="pop-btn pop-btn-neutral"
+                    >
+                        💾 Download Backup
+                    </button>
+                    <button onClick={onOpenLibrary} className="pop-btn pop-btn-neutral">
+                        📚 Open Another Document
+                    </button>
+                    {canRepair && (
+                        <button
+                            onClick={() => {
+                                if (!onRepair()) alert('Nothing could be recovered from this document.');
+                            }}
+                            className="pop-btn pop-btn-blue"
+                        >
+                            🛠 Repair & Open
+                        </button>
+                    )}
+                    <button
+                        onClick={() => {
+                            if (confirm('Start this document over? The damaged data is kept as a backup entry in storage.')) onDiscard();
+                        }}
+                        className="pop-btn pop-btn-orange"
+                    >
+                        Start Over
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
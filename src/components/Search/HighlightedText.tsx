@@ -0,0 +1,27 @@
+import React from 'react';
+import type { TextRange } from '../../utils/search';
+
+interface Props {
+    text: string;
+    ranges: TextRange[];
+}
+
+// Text with search hits marked; ranges must be sorted and must not overlap
+export const HighlightedText: React.FC<Props> = ({ text, ranges }) => {
+    if (ranges.length === 0) return <>{text}</>;
+
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    ranges.forEach((range, i) => {
+        if (range.start > position) parts.push(text.slice(position, range.start));
+        parts.push(
+            <mark key={i} className="bg-yellow-200 text-inherit rounded px-0.5 -mx-0.5">
+                {text.slice(range.start, range.end)}
+            </mark>
+        );
+        position = range.end;
+    });
+    if (position < text.length) parts.push(text.slice(position));
+
+    return <>{parts}</>;
+};
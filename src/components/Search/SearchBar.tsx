@@ -0,0 +1,182 @@
+import React, { useEffect, useRef } from 'react';
+import type { SearchOptions, TextRange } from '../../utils/search';
+import { HighlightedText } from './HighlightedText';
+
+// One affected node or cell in the replace preview
+export interface ReplacePreview {
+    key: string;
+    before: string;
+    ranges: TextRange[];
+    after: string;
+}
+
+interface Props {
+    query: string;
+    onQueryChange: (query: string) => void;
+    options: SearchOptions;
+    onOptionsChange: (options: SearchOptions) => void;
+    error: string | null; // Invalid regex
+    matchCount: number;
+    currentIndex: number; // -1 while no match is active
+    onStep: (direction: -1 | 1) => void;
+    isFilterOn: boolean;
+    onFilterChange: (isOn: boolean) => void;
+    onClose: () => void;
+    focusRequest: number; // Changes whenever ⌘+F is pressed again while the bar is open
+    // Find & Replace
+    isReplaceOpen: boolean;
+    onReplaceOpenChange: (isOpen: boolean) => void;
+    replacement: string;
+    onReplacementChange: (replacement: string) => void;
+    previews: ReplacePreview[];
+    currentKey: string | null;
+    onSelectPreview: (key: string) => void;
+    onReplaceOne: () => void;
+    onReplaceAll: () => void;
+}
+
+const OPTION_TOGGLES: { id: keyof SearchOptions; label: string; title: string }[] = [
+    { id: 'caseSensitive', label: 'Aa', title: 'Match case' },
+    { id: 'wholeWord', label: 'W', title: 'Whole word' },
+    { id: 'regex', label: '.*', title: 'Regular expression ($1 in the replacement)' },
+];
+
+export const SearchBar: React.FC<Props> = ({
+    query, onQueryChange, options, onOptionsChange, error, matchCount, currentIndex, onStep, isFilterOn, onFilterChange, onClose, focusRequest,
+    isReplaceOpen, onReplaceOpenChange, replacement, onReplacementChange, previews, currentKey, onSelectPreview, onReplaceOne, onReplaceAll,
+}) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        inputRef.current?.focus();
+        inputRef.current?.select();
+    }, [focusRequest]);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        // Keep the shortcuts of the views away from the search fields
+        e.stopPropagation();
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        }
+    };
+
+    const handleQueryKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            onStep(e.shiftKey ? -1 : 1);
+        }
+    };
+
+    // Enter replaces the current match, ⌘+Enter all of them
+    const handleReplacementKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            if (e.metaKey || e.ctrlKey) onReplaceAll();
+            else onReplaceOne();
+        }
+    };
+
+    const stepButton = 'w-8 h-8 rounded-lg font-black text-slate-500 hover:bg-slate-100 disabled:opacity-30 disabled:pointer-events-none';
+    const optionButton = (isActive: boolean) =>
+        `w-8 h-8 rounded-lg text-xs font-black border-2 transition-all ${isActive
+            ? 'bg-pop-blue text-white border-pop-blue-dark'
+            : 'bg-white text-slate-400 border-slate-200 hover:border-pop-blue-light'}`;
+
+    return (
+        <div className="flex flex-col gap-2 pop-card px-4 py-2 w-full max-w-4xl mx-auto animate-fadeIn" onKeyDown={handleKeyDown}>
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={() => onReplaceOpenChange(!isReplaceOpen)}
+                    className="w-6 text-slate-400 hover:text-slate-600 font-black"
+                    title={isReplaceOpen ? 'Hide replace' : 'Find & Replace'}
+                >
+                    {isReplaceOpen ? '▾' : '▸'}
+                </button>
+                <span className="text-slate-400">🔍</span>
+                <input
+                    ref={inputRef}
+                    value={query}
+                    onChange={(e) => onQueryChange(e.target.value)}
+                    onKeyDown={handleQueryKeyDown}
+                    placeholder="Search..."
+                    className="flex-1 min-w-0 bg-transparent outline-none font-bold text-pop-text"
+                />
+                {OPTION_TOGGLES.map(toggle => (
+                    <button
+                        key={toggle.id}
+                        onClick={() => onOptionsChange({ ...options, [toggle.id]: !options[toggle.id] })}
+                        className={optionButton(options[toggle.id])}
+                        title={toggle.title}
+                    >
+                        {toggle.label}
+                    </button>
+                ))}
+                <span className={`text-xs font-bold whitespace-nowrap ${query && matchCount === 0 ? 'text-pop-red' : 'text-slate-400'}`}>
+                    {query === '' || error ? '' : matchCount === 0 ? 'No matches' : `${currentIndex === -1 ? '–' : currentIndex + 1} / ${matchCount}`}
+                </span>
+                <button onClick={() => onStep(-1)} disabled={matchCount === 0} className={stepButton} title="Previous (Shift+Enter)">↑</button>
+                <button onClick={() => onStep(1)} disabled={matchCount === 0} className={stepButton} title="Next (Enter)">↓</button>
+                <label className="flex items-center gap-1 text-xs font-bold text-slate-500 whitespace-nowrap cursor-pointer" title="Dim everything that does not match">
+                    <input type="checkbox" checked={isFilterOn} onChange={(e) => onFilterChange(e.target.checked)} />
+                    Filter
+                </label>
+                <button onClick={onClose} className="text-slate-400 hover:text-slate-600 font-bold text-xl leading-none px-1" title="Close (Esc)">×</button>
+            </div>
+
+            {error && <div className="text-xs font-medium text-pop-red bg-red-50 rounded-lg px-2 py-1">{error}</div>}
+
+            {isReplaceOpen && (
+                <>
+                    <div className="flex items-center gap-2 pl-8">
+                        <span className="text-slate-400">✏️</span>
+                        <input
+                            value={replacement}
+                            onChange={(e) => onReplacementChange(e.target.value)}
+                            onKeyDown={handleReplacementKeyDown}
+                            placeholder="Replace with..."
+                            className="flex-1 min-w-0 bg-transparent outline-none font-bold text-pop-text border-b-2 border-slate-100 focus:border-pop-blue-light"
+                        />
+                        <button
+                            onClick={onReplaceOne}
+                            disabled={matchCount === 0}
+                            className="pop-btn pop-btn-neutral text-xs py-1 px-3 disabled:opacity-40 disabled:pointer-events-none"
+                            title="Replace in the current match (Enter)"
+                        >
+                            Replace
+                        </button>
+                        <button
+                            onClick={onReplaceAll}
+                            disabled={matchCount === 0}
+                            className="pop-btn pop-btn-blue text-xs py-1 px-3 disabled:opacity-40 disabled:pointer-events-none"
+                            title="Replace everywhere, one undo step (⌘+Enter)"
+                        >
+                            Replace All
+                        </button>
+                    </div>
+
+                    {previews.length > 0 && (
+                        <ul className="flex flex-col max-h-48 overflow-y-auto border-t-2 border-slate-100 pt-1 text-sm">
+                            {previews.map(preview => (
+                                <li key={preview.key}>
+                                    <button
+                                        onClick={() => onSelectPreview(preview.key)}
+                                        className={`w-full flex items-center gap-2 px-2 py-1 rounded-lg text-left hover:bg-slate-50 ${preview.key === currentKey ? 'bg-yellow-50' : ''}`}
+                                    >
+                                        <span className="flex-1 min-w-0 truncate font-medium text-slate-500">
+                                            <HighlightedText text={preview.before} ranges={preview.ranges} />
+                                        </span>
+                                        <span className="text-slate-300">→</span>
+                                        <span className={`flex-1 min-w-0 truncate font-bold ${preview.after ? 'text-pop-text' : 'text-slate-300 italic'}`}>
+                                            {preview.after || '(empty)'}
+                                        </span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,339 @@
+import React, { useState } from 'react';
+import type { DocumentMeta, MandalaChartData, MindMapNode, Snapshot } from '../../types';
+import { decodeSnapshot, describeCell, diffMandala, diffMindMap, getGridOf, getSnapshotLabel } from '../../utils/snapshots';
+import type { CellChange, DiffRow, NodeChangeKind, VersionContent } from '../../utils/snapshots';
+import { getPositionName } from '../../utils/export';
+
+interface Props {
+    document: DocumentMeta;
+    current: VersionContent;
+    snapshots: Snapshot[]; // Oldest first
+    onTakeSnapshot: (name: string) => string | null; // Why it could not be taken, or null
+    onRenameSnapshot: (id: string, name: string) => void;
+    onDeleteSnapshot: (id: string) => void;
+    onRestore: (snapshot: Snapshot, content: VersionContent) => void;
+    onRestoreBranch: (root: MindMapNode, nodeId: string) => void; // `root` is the snapshot's
+    onRestoreGrid: (data: MandalaChartData, gridIndex: number) => void; // `data` is the snapshot's
+    onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+const CHANGE_STYLES: Record<NodeChangeKind, { label: string; badge: string; row: string }> = {
+    added: { label: 'Added', badge: 'bg-green-100 text-green-700', row: 'border-green-400 bg-green-50' },
+    removed: { label: 'Removed', badge: 'bg-red-100 text-red-700', row: 'border-red-400 bg-red-50 line-through text-slate-400' },
+    moved: { label: 'Moved', badge: 'bg-blue-100 text-blue-700', row: 'border-blue-400 bg-blue-50' },
+    renamed: { label: 'Renamed', badge: 'bg-amber-100 text-amber-700', row: 'border-amber-400 bg-amber-50' },
+    edited: { label: 'Details', badge: 'bg-purple-100 text-purple-700', row: 'border-purple-400 bg-purple-50' },
+};
+
+const formatTimestamp = (ts: number) =>
+    new Date(ts).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const cellLabel = (text: string) => text.trim() ? `“${text}”` : 'empty';
+
+// Outline of the newer version with the changes since the older one marked
+const MindMapDiff: React.FC<{ rows: DiffRow[]; onlyChanges: boolean; onRestoreBranch?: (nodeId: string) => void }> = ({ rows, onlyChanges, onRestoreBranch }) => {
+    const visible = onlyChanges ? rows.filter(row => row.change || row.hasChangedDescendant) : rows;
+    if (visible.length === 0) return <p className="text-sm text-slate-400 font-medium">No differences.</p>;
+    return (
+        <ul className="flex flex-col gap-1">
+            {visible.map(({ node, depth, change, hasChangedDescendant }, i) => {
+                const kinds = change?.kinds ?? [];
+                // Branches that exist in the older version and differ can be put back
+                const canRestore = onRestoreBranch && depth > 0 && !kinds.includes('added') && (kinds.length > 0 || hasChangedDescendant);
+                return (
+                    <li
+                        key={`${node.id}:${i}`}
+                        className={`group flex items-center gap-2 rounded-lg border-l-4 px-2 py-1 text-sm ${kinds.length > 0 ? CHANGE_STYLES[kinds[0]].row : 'border-transparent'}`}
+                        style={{ marginLeft: depth * 20 }}
+                    >
+                        <span className={`font-bold truncate ${kinds.length > 0 ? '' : 'text-slate-500'}`}>{node.text || 'Untitled'}</span>
+                        {kinds.map(kind => (
+                            <span key={kind} className={`shrink-0 px-1.5 py-0.5 rounded-full text-[10px] font-bold no-underline ${CHANGE_STYLES[kind].badge}`}>
+                                {CHANGE_STYLES[kind].label}
+                            </span>
+                        ))}
+                        {change?.previousText !== undefined && <span className="text-xs text-slate-400 truncate">was “{change.previousText}”</span>}
+                        {change?.previousParent !== undefined && <span className="text-xs text-slate-400 truncate">from “{change.previousParent}”</span>}
+                        {canRestore && (
+                            <button
+                                onClick={() => onRestoreBranch(node.id)}
+                                className="ml-auto shrink-0 opacity-0 group-hover:opacity-100 text-xs font-bold text-pop-blue hover:underline transition-opacity"
+                                title="Put this branch back as it was in the snapshot"
+                            >
+                                ↩ Restore branch
+                            </button>
+                        )}
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
+
+// The newer chart on the 9x9 board with the changed cells marked, and the list of changes
+const MandalaDiff: React.FC<{ after: MandalaChartData; changes: CellChange[]; onRestoreGrid?: (gridIndex: number) => void }> = ({ after, changes, onRestoreGrid }) => {
+    // The copies of a changed sub-goal in the middle of its grid are marked as well
+    const changed = new Map<string, CellChange>();
+    changes.forEach(change => {
+        changed.set(`${change.gridIndex}:${change.cellIndex}`, change);
+        if (change.gridIndex === 4 && change.cellIndex !== 4) changed.set(`${change.cellIndex}:4`, change);
+    });
+    const changedGrids = [...new Set(changes.map(change => change.gridIndex))].sort();
+
+    if (changes.length === 0) return <p className="text-sm text-slate-400 font-medium">No differences.</p>;
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="grid grid-cols-3 gap-1.5 self-start">
+                {Array.from({ length: 9 }, (_, gridIndex) => (
+                    <div key={gridIndex} className={`grid grid-cols-3 gap-0.5 p-0.5 rounded-md ${gridIndex === 4 ? 'bg-orange-100' : 'bg-slate-100'}`}>
+                        {getGridOf(after, gridIndex).cells.map((cell, cellIndex) => {
+                            const change = changed.get(`${gridIndex}:${cellIndex}`);
+                            return (
+                                <div
+                                    key={cellIndex}
+                                    className={`w-14 h-10 rounded text-[9px] leading-tight p-0.5 overflow-hidden break-words ${change ? 'bg-amber-200 text-amber-900 font-bold' : 'bg-white text-slate-400'}`}
+                                    title={change ? `Was ${cellLabel(change.before.text)}` : undefined}
+                                >
+                                    {cell.text}
+                                </div>
+                            );
+                        })}
+                    </div>
+                ))}
+            </div>
+            <ul className="flex flex-col gap-1 text-sm">
+                {changes.map(change => (
+                    <li key={`${change.gridIndex}:${change.cellIndex}`} className="flex flex-wrap gap-x-2 border-l-4 border-amber-400 bg-amber-50 rounded-lg px-2 py-1">
+                        <span className="font-bold text-slate-600">{describeCell(change)}:</span>
+                        {change.before.text === change.after.text
+                            ? <span className="text-slate-500">status, due date or note of {cellLabel(change.after.text)}</span>
+                            : <span><span className="text-slate-400 line-through">{cellLabel(change.before.text)}</span> → {cellLabel(change.after.text)}</span>}
+                    </li>
+                ))}
+            </ul>
+            {onRestoreGrid && (
+                <div className="flex flex-wrap gap-2">
+                    {changedGrids.map(gridIndex => (
+                        <button key={gridIndex} onClick={() => onRestoreGrid(gridIndex)} className="pop-btn pop-btn-neutral text-xs px-3 py-1" title="Put this grid back as it was in the snapshot">
+                            ↩ Restore {getPositionName(gridIndex).toLowerCase()} grid
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Its own component, so typing a name does not compute the diff again
+const SnapshotForm: React.FC<{ onTakeSnapshot: (name: string) => string | null }> = ({ onTakeSnapshot }) => {
+    const [name, setName] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    return (
+        <form
+            className="flex flex-col gap-1"
+            onSubmit={(e) => {
+                e.preventDefault();
+                const failure = onTakeSnapshot(name.trim() || `Snapshot ${formatTimestamp(Date.now())}`);
+                setError(failure);
+                if (!failure) setName('');
+            }}
+        >
+            <div className="flex gap-2">
+                <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name (optional)" className="pop-input flex-1 min-w-0 text-sm py-1" />
+                <button type="submit" className="pop-btn pop-btn-blue text-sm px-3 py-1 shrink-0">📸 Save</button>
+            </div>
+            {error && <p className="text-xs font-medium text-pop-red bg-red-50 rounded-lg p-2">{error}</p>}
+        </form>
+    );
+};
+
+// Timeline of a document's snapshots, each compared with the document as it is now or with another snapshot
+export const SnapshotsDialog: React.FC<Props> = ({ document, current, snapshots, onTakeSnapshot, onRenameSnapshot, onDeleteSnapshot, onRestore, onRestoreBranch, onRestoreGrid, onClose }) => {
+    const timeline = snapshots.map((_, i) => snapshots[snapshots.length - 1 - i]); // Newest first
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [compareWith, setCompareWith] = useState(CURRENT);
+    const [onlyChanges, setOnlyChanges] = useState(true);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+
+    const selected = snapshots.find(s => s.id === selectedId) ?? timeline[0] ?? null; // The newest until one is picked
+    const other = compareWith === CURRENT ? null : snapshots.find(s => s.id === compareWith) ?? null;
+    const isAgainstCurrent = other === null;
+
+    const selectedContent = selected && decodeSnapshot(current.mode, selected.data);
+    const otherContent = other ? decodeSnapshot(current.mode, other.data) : current;
+
+    // Always from the older version to the newer one
+    const isSelectedOlder = !other || !selected || selected.createdAt <= other.createdAt;
+    const [before, after] = isSelectedOlder ? [selectedContent, otherContent] : [otherContent, selectedContent];
+
+    const diff = (() => {
+        if (!before || !after) return null;
+        if (before.mode === 'mindmap' && after.mode === 'mindmap') return { mode: 'mindmap' as const, rows: diffMindMap(before.data, after.data) };
+        if (before.mode === 'mandala' && after.mode === 'mandala') return { mode: 'mandala' as const, after: after.data, changes: diffMandala(before.data, after.data) };
+        return null;
+    })();
+
+    const summary = diff?.mode === 'mindmap'
+        ? (Object.keys(CHANGE_STYLES) as NodeChangeKind[])
+            .map(kind => ({ kind, count: diff.rows.filter(row => row.change?.kinds.includes(kind)).length }))
+            .filter(({ count }) => count > 0)
+        : [];
+
+    const commitRename = () => {
+        if (editingId) onRenameSnapshot(editingId, draftName);
+        setEditingId(null);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-slate-900/40 flex items-center justify-center z-50 backdrop-blur-sm animate-fadeIn p-4" onClick={onClose}>
+            <div className="pop-card p-6 w-full max-w-6xl h-full max-h-[85vh] flex flex-col gap-4" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start">
+                    <div>
+                        <h2 className="text-2xl font-black text-pop-text mb-1">Snapshots</h2>
+                        <p className="text-slate-500 font-medium text-sm">Versions of “{document.name}”. Automatic snapshots are taken every few minutes while you edit.</p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+                        <span className="text-2xl font-bold">×</span>
+                    </button>
+                </div>
+
+                <div className="flex-1 min-h-0 flex gap-6">
+                    {/* Timeline */}
+                    <aside className="w-72 shrink-0 flex flex-col gap-3 min-h-0">
+                        <SnapshotForm onTakeSnapshot={onTakeSnapshot} />
+
+                        <ol className="flex-1 overflow-y-auto flex flex-col gap-2 border-l-2 border-slate-200 ml-2 pl-3">
+                            {timeline.length === 0 && <li className="text-sm text-slate-400 font-medium">No snapshots yet.</li>}
+                            {timeline.map(snapshot => {
+                                const isSelected = snapshot.id === selected?.id;
+                                return (
+                                    <li
+                                        key={snapshot.id}
+                                        onClick={() => {
+                                            setSelectedId(snapshot.id);
+                                            if (compareWith === snapshot.id) setCompareWith(CURRENT);
+                                        }}
+                                        className={`group relative rounded-xl border-2 px-3 py-2 cursor-pointer transition-all ${isSelected ? 'border-pop-blue bg-blue-50' : 'border-slate-100 hover:border-slate-300'}`}
+                                    >
+                                        <span className={`absolute -left-[1.3rem] top-3 w-3 h-3 rounded-full border-2 border-white ${snapshot.isAuto ? 'bg-slate-300' : 'bg-pop-blue'}`} />
+                                        {editingId === snapshot.id ? (
+                                            <input
+                                                autoFocus
+                                                value={draftName}
+                                                onChange={(e) => setDraftName(e.target.value)}
+                                                onBlur={commitRename}
+                                                onKeyDown={(e) => {
+                                                    if (e.key === 'Enter') commitRename();
+                                                    if (e.key === 'Escape') setEditingId(null);
+                                                }}
+                                                onClick={(e) => e.stopPropagation()}
+                                                className="pop-input w-full text-sm py-0.5"
+                                            />
+                                        ) : (
+                                            <div className={`text-sm font-bold truncate ${snapshot.isAuto ? 'text-slate-500' : 'text-pop-text'}`}>{getSnapshotLabel(snapshot)}</div>
+                                        )}
+                                        <div className="flex items-center gap-2 text-xs text-slate-400 font-medium">
+                                            {formatTimestamp(snapshot.createdAt)}
+                                            <span className="ml-auto flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        setEditingId(snapshot.id);
+                                                        setDraftName(snapshot.name ?? '');
+                                                    }}
+                                                    className="hover:text-slate-600"
+                                                    title={snapshot.isAuto ? 'Name it (keeps it)' : 'Rename'}
+                                                >
+                                                    ✏️
+                                                </button>
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        if (confirm(`Delete the snapshot “${getSnapshotLabel(snapshot)}”?`)) onDeleteSnapshot(snapshot.id);
+                                                    }}
+                                                    className="hover:text-red-500"
+                                                    title="Delete"
+                                                >
+                                                    🗑
+                                                </button>
+                                            </span>
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ol>
+                    </aside>
+
+                    {/* Diff */}
+                    <section className="flex-1 min-w-0 flex flex-col gap-3 min-h-0">
+                        {!selected ? (
+                            <p className="text-slate-400 font-medium">Save a snapshot or wait for an automatic one to compare versions.</p>
+                        ) : (
+                            <>
+                                <div className="flex flex-wrap items-center gap-2 text-sm font-bold text-slate-600">
+                                    “{getSnapshotLabel(selected)}” compared with
+                                    <select value={compareWith} onChange={(e) => setCompareWith(e.target.value)} className="pop-input text-sm py-1 w-auto">
+                                        <option value={CURRENT}>the document now</option>
+                                        {timeline.filter(s => s.id !== selected.id).map(s => (
+                                            <option key={s.id} value={s.id}>{getSnapshotLabel(s)} ({formatTimestamp(s.createdAt)})</option>
+                                        ))}
+                                    </select>
+                                    {summary.map(({ kind, count }) => (
+                                        <span key={kind} className={`px-2 py-0.5 rounded-full text-xs ${CHANGE_STYLES[kind].badge}`}>{count} {CHANGE_STYLES[kind].label.toLowerCase()}</span>
+                                    ))}
+                                    {diff?.mode === 'mindmap' && (
+                                        <label className="ml-auto flex items-center gap-1 text-xs text-slate-500 cursor-pointer">
+                                            <input type="checkbox" checked={onlyChanges} onChange={(e) => setOnlyChanges(e.target.checked)} />
+                                            Only changes
+                                        </label>
+                                    )}
+                                </div>
+                                {!isAgainstCurrent && (
+                                    <p className="text-xs text-slate-400 font-medium">Showing what changed from the older to the newer snapshot.</p>
+                                )}
+
+                                <div className="flex-1 overflow-y-auto rounded-xl border-2 border-slate-100 p-3">
+                                    {!diff ? (
+                                        <p className="text-sm text-red-500 font-medium">This snapshot can no longer be read.</p>
+                                    ) : diff.mode === 'mindmap' ? (
+                                        <MindMapDiff
+                                            rows={diff.rows}
+                                            onlyChanges={onlyChanges}
+                                            onRestoreBranch={isAgainstCurrent && selectedContent?.mode === 'mindmap'
+                                                ? (nodeId) => onRestoreBranch(selectedContent.data, nodeId)
+                                                : undefined}
+                                        />
+                                    ) : (
+                                        <MandalaDiff
+                                            after={diff.after}
+                                            changes={diff.changes}
+                                            onRestoreGrid={isAgainstCurrent && selectedContent?.mode === 'mandala'
+                                                ? (gridIndex) => onRestoreGrid(selectedContent.data, gridIndex)
+                                                : undefined}
+                                        />
+                                    )}
+                                </div>
+
+                                {isAgainstCurrent && selectedContent && (
+                                    <button
+                                        onClick={() => {
+                                            if (confirm(`Restore “${getSnapshotLabel(selected)}”? The document as it is now is saved as a snapshot first, and the restore can be undone.`)) {
+                                                onRestore(selected, selectedContent);
+                                            }
+                                        }}
+                                        className="pop-btn pop-btn-orange self-end"
+                                    >
+                                        ↩ Restore this snapshot
+                                    </button>
+                                )}
+                            </>
+                        )}
+                    </section>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import type { MergeConflict } from '../../utils/merge';
+
+interface Props {
+    conflicts: MergeConflict[];
+    onDismiss: () => void;
+}
+
+const MAX_LISTED = 3;
+
+// Shown when the same document was edited in two tabs at once and an edit had to give way
+export const ConflictNotice: React.FC<Props> = ({ conflicts, onDismiss }) => {
+    if (conflicts.length === 0) return null;
+    const keptTheirs = conflicts.filter(c => c.keptTheirs);
+    const keptOurs = conflicts.filter(c => !c.keptTheirs);
+    const list = (items: MergeConflict[]) => {
+        const labels = [...new Set(items.map(c => `“${c.label.trim() || 'Untitled'}”`))];
+        return labels.length > MAX_LISTED ? `${labels.slice(0, MAX_LISTED).join(', ')} and ${labels.length - MAX_LISTED} more` : labels.join(', ');
+    };
+
+    return (
+        <div className="mb-3 flex items-start gap-3 bg-amber-50 border-2 border-amber-300 rounded-xl px-4 py-2 text-sm text-amber-900 animate-fadeIn" role="status">
+            <span className="text-lg leading-none">⚠️</span>
+            <div className="flex-1 font-medium">
+                <p className="font-bold">This document was also edited in another tab at the same time.</p>
+                {keptTheirs.length > 0 && <p>The other tab's version was kept for {list(keptTheirs)}.</p>}
+                {keptOurs.length > 0 && <p>This tab's version was kept for {list(keptOurs)}.</p>}
+                <p className="text-amber-700 text-xs">Everything else was merged.</p>
+            </div>
+            <button onClick={onDismiss} className="text-amber-500 hover:text-amber-700 transition-colors font-bold text-xl leading-none" title="Dismiss">
+                ×
+            </button>
+        </div>
+    );
+};
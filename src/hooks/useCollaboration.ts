@@ -0,0 +1,197 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import * as Y from 'yjs';
+import { WebsocketProvider } from 'y-websocket';
+import type { DocumentDataByMode, DocumentShare, Mode } from '../types';
+import { CODECS } from '../utils/schema';
+import type { DocumentCodec } from '../utils/schema';
+import { storage } from '../utils/storage';
+import { documentStorageKey } from '../utils/documents';
+import { applyCrdtState, crdtStorageKey, CRDT_BINDINGS, encodeCrdtState, getCollaboratorColor, readCollaborators } from '../utils/collab';
+import type { CollabStatus, Collaborator, CrdtBinding, Presence } from '../utils/collab';
+
+// Transactions made by the session itself. Everything else came from the relay or the undo manager
+// and is read back into the app.
+const LOCAL_ORIGIN = 'local'; // An edit in this tab (undoable)
+const SEED_ORIGIN = 'seed'; // Catching the shared copy up with this one (not undoable)
+
+interface Session<T> {
+    doc: Y.Doc;
+    provider: WebsocketProvider;
+    undoManager: Y.UndoManager;
+    // Joined documents wait for their content from the relay before writing anything
+    isReady: boolean;
+    // The document as last written to or read from the shared copy
+    synced: T | null;
+}
+
+interface SessionState {
+    key: string;
+    status: CollabStatus;
+    collaborators: Collaborator[];
+    canUndo: boolean;
+    canRedo: boolean;
+}
+
+const createSessionState = (key: string): SessionState => ({ key, status: 'connecting', collaborators: [], canUndo: false, canRedo: false });
+
+// Keeps a document in sync with everyone else in its room while it is shared.
+// `state`/`replaceState` are the document of the data hook: local edits are sent from there and
+// remote ones replace it. While shared, undo/redo only revert this tab's own edits.
+export const useCollaboration = <M extends Mode>(
+    mode: M,
+    documentId: string,
+    share: DocumentShare | undefined, // Leave out for documents that are not shared (or could not be loaded)
+    state: DocumentDataByMode[M],
+    replaceState: (next: DocumentDataByMode[M]) => void,
+    userName: string,
+) => {
+    type T = DocumentDataByMode[M];
+    const binding = CRDT_BINDINGS[mode] as CrdtBinding<T>;
+    const { room, relayUrl, joined = false } = share ?? {};
+    const sessionKey = room && relayUrl ? `${documentId}:${room}:${relayUrl}` : null;
+    const [sessionState, setSessionState] = useState(() => createSessionState(sessionKey ?? ''));
+    const sessionRef = useRef<Session<T> | null>(null);
+    const stateRef = useRef(state);
+    const replaceRef = useRef(replaceState);
+    const presenceRef = useRef<Presence>({ focus: null, selection: [] });
+    const userNameRef = useRef(userName);
+
+    useEffect(() => {
+        replaceRef.current = replaceState;
+    }, [replaceState]);
+
+    // Local edits go out as the difference to the shared copy
+    useEffect(() => {
+        stateRef.current = state;
+        const session = sessionRef.current;
+        if (!session?.isReady || session.synced === state) return;
+        session.doc.transact(() => binding.write(session.doc, state), LOCAL_ORIGIN);
+        session.synced = state;
+    }, [binding, state]);
+
+    useEffect(() => {
+        userNameRef.current = userName;
+        sessionRef.current?.provider.awareness.setLocalStateField('user', {
+            name: userName,
+            color: getCollaboratorColor(sessionRef.current.doc.clientID),
+        });
+    }, [userName]);
+
+    useEffect(() => {
+        if (!room || !relayUrl || sessionKey === null) return;
+        const codec = CODECS[mode] as DocumentCodec<T>;
+        const storageKey = crdtStorageKey(documentStorageKey(documentId));
+
+        const doc = new Y.Doc();
+        const saved = storage.getItem(storageKey);
+        if (saved !== null) {
+            try {
+                applyCrdtState(doc, saved);
+            } catch (e) {
+                console.warn(`Dropped the unreadable shared copy of "${documentId}"`, e);
+            }
+        }
+
+        const provider = new WebsocketProvider(relayUrl, room, doc, { connect: false });
+        const undoManager = new Y.UndoManager(binding.scope(doc), { trackedOrigins: new Set([LOCAL_ORIGIN]) });
+        const session: Session<T> = { doc, provider, undoManager, isReady: false, synced: null };
+        sessionRef.current = session;
+
+        const publish = (patch: Partial<SessionState>) => setSessionState(prev => ({
+            ...(prev.key === sessionKey ? prev : createSessionState(sessionKey)),
+            ...patch,
+        }));
+
+        // Our copy wins where it differs (edits made while the document was not connected)
+        const seed = () => {
+            doc.transact(() => binding.write(doc, stateRef.current), SEED_ORIGIN);
+            session.synced = stateRef.current;
+            session.isReady = true;
+        };
+
+        const adopt = () => {
+            const next = binding.read(doc, stateRef.current);
+            if (next === null || next === stateRef.current) return;
+            try {
+                codec.decode(codec.encode(next)); // Someone else's client wrote this: validate before using it
+            } catch (e) {
+                console.error(`Ignored an invalid remote change to "${documentId}"`, e);
+                return;
+            }
+            session.synced = next;
+            replaceRef.current(next);
+        };
+
+        if (!joined || binding.read(doc, stateRef.current) !== null) seed();
+
+        provider.on('sync', (isSynced: boolean) => {
+            if (!isSynced || session.isReady) return;
+            // First contact of a joined document: take the room's content, or start it if the room is new
+            session.isReady = true;
+            if (binding.read(doc, stateRef.current) !== null) adopt();
+            else seed();
+        });
+
+        doc.on('afterTransaction', (transaction: Y.Transaction) => {
+            if (!session.isReady || transaction.origin === LOCAL_ORIGIN || transaction.origin === SEED_ORIGIN) return;
+            if (transaction.changed.size > 0) adopt();
+        });
+
+        doc.on('update', () => {
+            try {
+                storage.setItem(storageKey, encodeCrdtState(doc));
+            } catch (e) {
+                console.warn(`Failed to save the shared copy of "${documentId}"`, e);
+            }
+        });
+
+        // A failed attempt keeps retrying in the background; until one succeeds we are offline
+        provider.on('status', ({ status }: { status: string }) => {
+            if (status === 'connected') publish({ status: 'connected' });
+            else publish({ status: status === 'connecting' && provider.wsUnsuccessfulReconnects === 0 ? 'connecting' : 'offline' });
+        });
+
+        const { awareness } = provider;
+        awareness.setLocalStateField('user', { name: userNameRef.current, color: getCollaboratorColor(doc.clientID) });
+        awareness.setLocalStateField('presence', presenceRef.current);
+        awareness.on('change', () => publish({ collaborators: readCollaborators(awareness) }));
+
+        const publishUndoState = () => publish({ canUndo: undoManager.canUndo(), canRedo: undoManager.canRedo() });
+        undoManager.on('stack-item-added', publishUndoState);
+        undoManager.on('stack-item-popped', publishUndoState);
+        undoManager.on('stack-cleared', publishUndoState);
+
+        provider.connect();
+
+        return () => {
+            sessionRef.current = null;
+            undoManager.destroy();
+            provider.destroy(); // Tells the others we left
+            awareness.destroy();
+            doc.destroy();
+        };
+    }, [mode, binding, documentId, room, relayUrl, joined, sessionKey]);
+
+    // Where we are in the document, shown to the others
+    const setPresence = useCallback((presence: Presence) => {
+        presenceRef.current = presence;
+        sessionRef.current?.provider.awareness.setLocalStateField('presence', presence);
+    }, []);
+
+    const undo = useCallback(() => sessionRef.current?.undoManager.undo(), []);
+    const redo = useCallback(() => sessionRef.current?.undoManager.redo(), []);
+
+    // State of a previous session (another document) is not shown while the new one starts
+    const current = sessionKey !== null && sessionState.key === sessionKey ? sessionState : createSessionState(sessionKey ?? '');
+
+    return {
+        isShared: sessionKey !== null,
+        status: current.status,
+        collaborators: sessionKey !== null ? current.collaborators : [],
+        setPresence,
+        undo,
+        redo,
+        canUndo: current.canUndo,
+        canRedo: current.canRedo,
+    };
+};
@@ -0,0 +1,138 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { DocumentMeta, DocumentDataByMode, DocumentShare, Mode } from '../types';
+import {
+    loadLibrary, saveLibrary, readSavedDocuments, mergeDocuments, markDeleted, createDocumentMeta,
+    writeDocumentData, copyDocumentData, removeDocumentData, documentStorageKey,
+} from '../utils/documents';
+import { crdtStorageKey } from '../utils/collab';
+import { storage } from '../utils/storage';
+
+export const useDocumentLibrary = () => {
+    const [library, setLibrary] = useState(loadLibrary);
+    // Documents as another tab saved them, not saved back when the merge left them as they were
+    const adopted = useRef<string | null>(null);
+    // For the storage side of duplicating and deleting, which cannot run inside a state update
+    const latest = useRef(library);
+
+    useEffect(() => {
+        latest.current = library;
+        const isAdopted = adopted.current === JSON.stringify(library.documents);
+        adopted.current = null;
+        if (!isAdopted) saveLibrary(library);
+    }, [library]);
+
+    // Documents created, renamed, shared or deleted in another tab
+    useEffect(() => storage.subscribe(({ key, value }) => {
+        const saved = value === null ? null : readSavedDocuments(key, value);
+        if (!saved) return;
+        adopted.current = JSON.stringify(saved.documents);
+        setLibrary(prev => mergeDocuments(prev, saved));
+    }), []);
+
+    // Creates (and opens) a new document. `data` pre-fills it, e.g. on import.
+    const createDocument = useCallback(<M extends Mode>(mode: M, name?: string, data?: DocumentDataByMode[M]): DocumentMeta => {
+        const meta = createDocumentMeta(mode, name);
+        if (data !== undefined) writeDocumentData(meta.id, mode, data);
+        setLibrary(prev => ({
+            ...prev,
+            documents: [...prev.documents, meta],
+            activeIds: { ...prev.activeIds, [mode]: meta.id },
+        }));
+        return meta;
+    }, []);
+
+    const openDocument = useCallback((id: string) => {
+        setLibrary(prev => {
+            const meta = prev.documents.find(d => d.id === id);
+            if (!meta) return prev;
+            return { ...prev, activeIds: { ...prev.activeIds, [meta.mode]: id } };
+        });
+    }, []);
+
+    const renameDocument = useCallback((id: string, name: string) => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        setLibrary(prev => ({
+            ...prev,
+            documents: prev.documents.map(d => d.id === id ? { ...d, name: trimmed, updatedAt: Date.now() } : d),
+        }));
+    }, []);
+
+    // The index is built from the previous state, which may have changed since this render
+    // (a rename, a document merged in from another tab)
+    const duplicateDocument = useCallback((id: string) => {
+        const source = latest.current.documents.find(d => d.id === id);
+        if (!source) return;
+        const copy = createDocumentMeta(source.mode, `${source.name} (Copy)`);
+        copyDocumentData(source.id, copy.id);
+        setLibrary(prev => ({
+            ...prev,
+            documents: [...prev.documents, copy],
+            activeIds: { ...prev.activeIds, [copy.mode]: copy.id },
+        }));
+    }, []);
+
+    const deleteDocument = useCallback((id: string) => {
+        const target = latest.current.documents.find(d => d.id === id);
+        if (!target) return;
+        removeDocumentData(id);
+
+        setLibrary(prev => {
+            // Keep at least one document per mode
+            const remaining = prev.documents.filter(d => d.id !== id);
+            const replacement = remaining.some(d => d.mode === target.mode) ? null : createDocumentMeta(target.mode);
+            const documents = replacement ? [...remaining, replacement] : remaining;
+
+            const activeIds = { ...prev.activeIds };
+            if (activeIds[target.mode] === id) {
+                // Fall back to the most recently edited document of the same mode
+                const next = documents
+                    .filter(d => d.mode === target.mode)
+                    .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+                activeIds[target.mode] = next.id;
+            }
+            return { documents, activeIds, deletedAt: markDeleted(prev.deletedAt, id) };
+        });
+    }, []);
+
+    // Starts or stops syncing a document with a relay. Stopping keeps the content but forgets the
+    // shared copy, so sharing it again starts a new room instead of merging with the old one.
+    const shareDocument = useCallback((id: string, share: DocumentShare | null) => {
+        if (!share) storage.removeItem(crdtStorageKey(documentStorageKey(id)));
+        setLibrary(prev => ({
+            ...prev,
+            documents: prev.documents.map(d => {
+                if (d.id !== id) return d;
+                const next = { ...d, updatedAt: Date.now() };
+                if (share) next.share = share;
+                else delete next.share;
+                return next;
+            }),
+        }));
+    }, []);
+
+    // Bumps the last-modified timestamp (called on every edit of a document)
+    const touchDocument = useCallback((id: string) => {
+        setLibrary(prev => ({
+            ...prev,
+            documents: prev.documents.map(d => d.id === id ? { ...d, updatedAt: Date.now() } : d),
+        }));
+    }, []);
+
+    const activeDocuments: Record<Mode, DocumentMeta> = {
+        mindmap: library.documents.find(d => d.id === library.activeIds.mindmap)!,
+        mandala: library.documents.find(d => d.id === library.activeIds.mandala)!,
+    };
+
+    return {
+        documents: library.documents,
+        activeDocuments,
+        createDocument,
+        openDocument,
+        renameDocument,
+        duplicateDocument,
+        deleteDocument,
+        shareDocument,
+        touchDocument,
+    };
+};
@@ -0,0 +1,229 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { createHistory, pushHistory, undoHistory, redoHistory, historyStorageKey } from '../utils/history';
+import type { History, PushOptions } from '../utils/history';
+import { storage, TAB_ID } from '../utils/storage';
+import type { Revision } from '../utils/storage';
+import type { Merge, MergeConflict } from '../utils/merge';
+import { DocumentLoadError } from '../utils/schema';
+import type { DocumentCodec } from '../utils/schema';
+
+// Only the most recent steps are persisted to keep the saved entry small.
+const PERSISTED_HISTORY_LIMIT = 50;
+
+// Versions written by this and other tabs that are kept to find the base of a concurrent edit
+const KNOWN_REVISION_LIMIT = 20;
+
+interface Entry<T> {
+    key: string;
+    history: History<T>;
+    // Set when the saved document could not be loaded. Nothing is saved until it is resolved,
+    // so the broken data stays untouched for the recovery screen.
+    loadError: DocumentLoadError | null;
+}
+
+const loadEntry = <T>(storageKey: string, codec: DocumentCodec<T>, createInitial: () => T): Entry<T> => {
+    const saved = storage.getItem(storageKey);
+    if (saved === null) {
+        return { key: storageKey, history: createHistory(createInitial()), loadError: null };
+    }
+
+    let present: T;
+    try {
+        present = codec.decode(saved);
+    } catch (e) {
+        const loadError = e instanceof DocumentLoadError
+            ? e
+            : new DocumentLoadError('invalid-schema', String(e), saved);
+        console.error(`Failed to load saved data for "${storageKey}"`, loadError);
+        return { key: storageKey, history: createHistory(createInitial()), loadError };
+    }
+
+    const savedHistory = storage.getItem(historyStorageKey(storageKey));
+    const stacks = savedHistory ? codec.decodeHistory(savedHistory) : null;
+    if (savedHistory && !stacks) console.warn(`Dropped unreadable history for "${storageKey}"`);
+    return {
+        key: storageKey,
+        history: stacks ? { past: stacks.past, present, future: stacks.future } : createHistory(present),
+        loadError: null,
+    };
+};
+
+// Without a revision only the undo stacks are saved (the document came from another tab and is stored already)
+const saveHistory = <T>(storageKey: string, codec: DocumentCodec<T>, history: History<T>, revision?: Revision) => {
+    if (revision) {
+        try {
+            storage.setItem(storageKey, codec.encode(history.present), revision);
+        } catch (e) {
+            console.error(`Failed to save "${storageKey}"`, e);
+            return;
+        }
+    }
+    try {
+        storage.setItem(historyStorageKey(storageKey), codec.encodeHistory({
+            past: history.past.slice(-PERSISTED_HISTORY_LIMIT),
+            future: history.future.slice(0, PERSISTED_HISTORY_LIMIT),
+        }));
+    } catch (e) {
+        // Quota exceeded: the document itself is saved, only the persisted undo stack is lost
+        console.warn(`Failed to persist history for "${storageKey}"`, e);
+        storage.removeItem(historyStorageKey(storageKey));
+    }
+};
+
+// A change from another tab is carried into every snapshot, so undo only reverts this tab's own steps
+const rebaseHistory = <T>(history: History<T>, merge: Merge<T>, from: T, to: T): History<T> => {
+    const rebase = (snapshot: T) => merge(from, snapshot, to, true).merged;
+    return { ...history, past: history.past.map(rebase), present: to, future: history.future.map(rebase) };
+};
+
+// What this tab knows to be in storage: the version its document is based on
+interface Stored<T> {
+    key: string;
+    present: T; // The document as last saved (or taken over from another tab)
+    revision: string;
+}
+
+// State container with undo/redo that auto-saves both the document and its history.
+// Changing `storageKey` (switching documents) loads that document with its own history.
+// `onChange` fires after every real edit (incl. undo/redo), never on load or switch.
+// With `merge`, edits that other tabs save under the same key show up here, merged with the
+// edits of this tab. Conflicts go to the same winner in every tab and are reported in `conflicts`.
+export const useHistoryState = <T>(storageKey: string, codec: DocumentCodec<T>, createInitial: () => T, onChange?: () => void, merge?: Merge<T>) => {
+    const [entry, setEntry] = useState(() => loadEntry(storageKey, codec, createInitial));
+    const [reported, setReported] = useState<{ key: string; conflicts: MergeConflict[] }>({ key: storageKey, conflicts: [] });
+    const stored = useRef<Stored<T> | null>(null);
+    const revisions = useRef(new Map<string, T>());
+    const historyRef = useRef(entry.history);
+    const onChangeRef = useRef(onChange);
+
+    useEffect(() => {
+        onChangeRef.current = onChange;
+    }, [onChange]);
+
+    // Document switched: swap in the other document during render (no flash of stale data)
+    if (entry.key !== storageKey) {
+        setEntry(loadEntry(storageKey, codec, createInitial));
+    }
+
+    const { key, history, loadError } = entry;
+
+    useEffect(() => {
+        historyRef.current = history;
+        if (loadError) return; // Never overwrite data we failed to load
+        // Save under the key the history belongs to, never under a key we are switching to
+        const previous = stored.current?.key === key ? stored.current : null;
+        if (previous?.present === history.present) {
+            saveHistory(key, codec, history);
+            return;
+        }
+        if (!previous) revisions.current.clear();
+        const revision = { id: uuidv4(), parent: previous?.revision ?? null };
+        saveHistory(key, codec, history, revision);
+        if (previous) onChangeRef.current?.();
+        stored.current = { key, present: history.present, revision: revision.id };
+        revisions.current.set(revision.id, history.present);
+    }, [key, codec, history, loadError]);
+
+    // Another tab saved this document
+    useEffect(() => {
+        if (!merge || loadError) return;
+        return storage.subscribe(({ key: changedKey, value, tabId, revision }) => {
+            if (changedKey !== key || value === null || !revision) return;
+            let theirs: T;
+            try {
+                theirs = codec.decode(value);
+            } catch (e) {
+                console.warn(`Ignored an unreadable change to "${key}" from another tab`, e);
+                return;
+            }
+
+            const known = revisions.current;
+            known.set(revision.id, theirs);
+            while (known.size > KNOWN_REVISION_LIMIT) known.delete(known.keys().next().value!);
+
+            const ours = historyRef.current.present;
+            const current = stored.current?.key === key ? stored.current : null;
+            let next = theirs;
+            if (!current || revision.parent !== current.revision || current.present !== ours) {
+                // Both tabs changed the document since the last version they share
+                const base = (revision.parent !== null ? known.get(revision.parent) : undefined)
+                    ?? (current ? known.get(current.revision) : undefined)
+                    ?? ours;
+                const result = merge(base, ours, theirs, tabId > TAB_ID);
+                next = result.merged;
+                if (result.conflicts.length > 0) {
+                    setReported(prev => ({ key, conflicts: [...(prev.key === key ? prev.conflicts : []), ...result.conflicts] }));
+                }
+            }
+
+            // A merge that differs from their version is saved (based on theirs) like an edit of this tab
+            stored.current = { key, present: next === theirs ? theirs : ours, revision: revision.id };
+            if (next === ours) return;
+            const source = historyRef.current;
+            const rebased = rebaseHistory(source, merge, ours, next);
+            historyRef.current = rebased;
+            setEntry(e => {
+                if (e.key !== key || e.loadError) return e;
+                return { ...e, history: e.history === source ? rebased : rebaseHistory(e.history, merge, ours, next) };
+            });
+        });
+    }, [codec, key, loadError, merge]);
+
+    const apply = useCallback((step: (h: History<T>) => History<T>) => {
+        setEntry(e => {
+            if (e.loadError) return e;
+            const next = step(e.history);
+            return next === e.history ? e : { ...e, history: next };
+        });
+    }, []);
+
+    // Returning `prev` from the updater means "nothing changed" and records no step.
+    const update = useCallback((updater: (prev: T) => T, options?: PushOptions) => {
+        apply(h => pushHistory(h, updater(h.present), options));
+    }, [apply]);
+
+    // Edits made by someone else (collaboration): replaces the document without an undo step.
+    // The local history is dropped since its snapshots predate the change; a shared document is
+    // undone through its collaboration session instead.
+    const replaceState = useCallback((next: T) => {
+        setEntry(e => (e.loadError || e.history.present === next ? e : { ...e, history: createHistory(next) }));
+    }, []);
+
+    const dismissConflicts = useCallback(() => setReported(prev => ({ ...prev, conflicts: [] })), []);
+
+    const undo = useCallback(() => apply(undoHistory), [apply]);
+    const redo = useCallback(() => apply(redoHistory), [apply]);
+
+    // Recovery: open whatever could be salvaged from the broken data. Returns false if nothing was usable.
+    const repairData = useCallback((): boolean => {
+        if (!loadError) return false;
+        const repaired = codec.repair(loadError.raw);
+        if (repaired === null) return false;
+        setEntry({ key, history: createHistory(repaired), loadError: null });
+        return true;
+    }, [codec, key, loadError]);
+
+    // Recovery: start over. The broken data is kept under a backup key instead of being deleted.
+    const discardData = useCallback(() => {
+        if (!loadError) return;
+        storage.setItem(`${key}-corrupt-${Date.now()}`, loadError.raw);
+        storage.removeItem(historyStorageKey(key));
+        setEntry({ key, history: createHistory(createInitial()), loadError: null });
+    }, [createInitial, key, loadError]);
+
+    return {
+        state: history.present,
+        update,
+        replaceState,
+        undo,
+        redo,
+        canUndo: !loadError && history.past.length > 0,
+        canRedo: !loadError && history.future.length > 0,
+        loadError,
+        repairData,
+        discardData,
+        conflicts: reported.key === key ? reported.conflicts : [],
+        dismissConflicts,
+    };
+};
@@ -0,0 +1,15 @@
+import { useState, useEffect } from 'react';
+import { loadSettings, saveSettings } from '../utils/settings';
+
+// Persistent settings object. `update` merges a partial change.
+export const useSettings = <T extends object>(name: string, defaults: T) => {
+    const [settings, setSettings] = useState(() => loadSettings(name, defaults));
+
+    useEffect(() => {
+        saveSettings(name, settings);
+    }, [name, settings]);
+
+    const update = (patch: Partial<T>) => setSettings(prev => ({ ...prev, ...patch }));
+
+    return [settings, update] as const;
+};
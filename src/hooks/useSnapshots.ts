@@ -0,0 +1,93 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { DocumentDataByMode, Mode, Snapshot } from '../types';
+import { CODECS } from '../utils/schema';
+import type { DocumentCodec } from '../utils/schema';
+import { storage } from '../utils/storage';
+import { documentStorageKey } from '../utils/documents';
+import { addSnapshot, createSnapshot, isAutoSnapshotDue, parseSnapshots, saveSnapshots, snapshotBudgetError, snapshotStorageKey } from '../utils/snapshots';
+
+// How often the document is checked for a due automatic snapshot
+const AUTO_SNAPSHOT_CHECK_MS = 60 * 1000;
+
+interface Entry {
+    key: string;
+    snapshots: Snapshot[];
+    isStored: boolean; // Loaded or taken over from another tab, nothing to save
+}
+
+const loadEntry = (key: string): Entry => ({ key, snapshots: parseSnapshots(storage.getItem(key)), isStored: true });
+
+// Named and automatic snapshots of one document. `state` is the document, or null while it
+// cannot be loaded (nothing is snapshotted then).
+export const useSnapshots = <M extends Mode>(mode: M, documentId: string, state: DocumentDataByMode[M] | null) => {
+    const codec = CODECS[mode] as DocumentCodec<DocumentDataByMode[M]>;
+    const storageKey = snapshotStorageKey(documentStorageKey(documentId));
+    const [entry, setEntry] = useState(() => loadEntry(storageKey));
+    const stateRef = useRef(state);
+    const snapshotsRef = useRef(entry.snapshots);
+
+    // Document switched: show its snapshots right away
+    if (entry.key !== storageKey) {
+        setEntry(loadEntry(storageKey));
+    }
+
+    useEffect(() => {
+        stateRef.current = state;
+    }, [state]);
+
+    useEffect(() => {
+        snapshotsRef.current = entry.snapshots;
+        if (!entry.isStored) saveSnapshots(entry.key, entry.snapshots);
+    }, [entry]);
+
+    // Snapshots taken, renamed or deleted in another tab
+    useEffect(() => storage.subscribe(({ key, value }) => {
+        if (key === storageKey) setEntry({ key, snapshots: parseSnapshots(value), isStored: true });
+    }), [storageKey]);
+
+    const change = useCallback((step: (snapshots: Snapshot[]) => Snapshot[]) => {
+        setEntry(e => {
+            if (e.key !== storageKey) return e;
+            const snapshots = step(e.snapshots);
+            return snapshots === e.snapshots ? e : { key: e.key, snapshots, isStored: false };
+        });
+    }, [storageKey]);
+
+    useEffect(() => {
+        const timer = window.setInterval(() => {
+            if (stateRef.current === null) return;
+            const data = codec.encode(stateRef.current);
+            change(snapshots => isAutoSnapshotDue(snapshots, data) ? addSnapshot(snapshots, createSnapshot(data, true)) : snapshots);
+        }, AUTO_SNAPSHOT_CHECK_MS);
+        return () => window.clearInterval(timer);
+    }, [change, codec]);
+
+    // `isAuto` snapshots are pruned like the periodic ones (e.g. the one taken before a restore).
+    // Returns why the snapshot could not be taken, or null.
+    const takeSnapshot = useCallback((name?: string, isAuto = false): string | null => {
+        if (stateRef.current === null) return null;
+        const snapshot = createSnapshot(codec.encode(stateRef.current), isAuto, name);
+        const error = snapshotBudgetError(snapshotsRef.current, snapshot);
+        if (error) return error;
+        change(snapshots => addSnapshot(snapshots, snapshot));
+        return null;
+    }, [change, codec]);
+
+    // A named snapshot is kept until deleted, so naming an automatic one keeps it too
+    const renameSnapshot = useCallback((id: string, name: string) => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        change(snapshots => snapshots.map(s => s.id === id ? { ...s, name: trimmed, isAuto: false } : s));
+    }, [change]);
+
+    const deleteSnapshot = useCallback((id: string) => {
+        change(snapshots => snapshots.filter(s => s.id !== id));
+    }, [change]);
+
+    return {
+        snapshots: entry.key === storageKey ? entry.snapshots : [],
+        takeSnapshot,
+        renameSnapshot,
+        deleteSnapshot,
+    };
+};
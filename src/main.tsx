@@ -2,9 +2,15 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { initStorage } from './utils/storage'
+import { migrateLegacyDocuments } from './utils/documents'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+// Saved documents (IndexedDB) are loaded into memory before the first render
+initStorage().then(() => {
+  migrateLegacyDocuments()
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>,
+  )
+})
@@ -1,13 +1,65 @@
 export type Mode = 'mindmap' | 'mandala';
 
-export interface MindMapNode {
+// A named Mind Map or Mandala Chart in the document library.
+// The content itself is stored separately (see utils/documents.ts).
+export interface DocumentMeta {
+  id: string;
+  name: string;
+  mode: Mode;
+  createdAt: number; // Unix ms
+  updatedAt: number; // Unix ms
+  share?: DocumentShare; // Set while the document is edited together with others
+}
+
+// Where a shared document is synced (see utils/collab.ts and server/relay.ts)
+export interface DocumentShare {
+  room: string;
+  relayUrl: string; // e.g. ws://localhost:1234
+  joined?: boolean; // Joined from elsewhere: the content comes from the relay, not from this copy
+}
+
+// Palette ids, the colors themselves live in utils/nodeMeta.ts
+export type NodeColor = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple' | 'pink' | 'gray';
+
+// Optional details of a node. Unset fields are left out entirely (not stored as empty values).
+export interface NodeMeta {
+  note?: string;
+  links?: string[]; // URLs
+  tags?: string[]; // Without "#", no whitespace
+  color?: NodeColor;
+  icon?: string; // Usually one emoji
+  priority?: number; // 1 (highest) to 5
+  progress?: number; // Percent, 0-100
+}
+
+// Manual position of a pinned node: its center, relative to the center of the root
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+export interface MindMapNode extends NodeMeta {
   id: string;
   text: string;
   children: MindMapNode[];
   isExpanded?: boolean;
+  position?: NodePosition; // Pinned by dragging, otherwise placed by the layout
 }
 
-export interface MandalaCell {
+// Where a dragged node lands relative to the drop target
+export type DropPosition = 'before' | 'after' | 'inside';
+
+export type CellStatus = 'todo' | 'doing' | 'done';
+
+// Optional tracking details of a mandala cell, left out entirely while unset.
+// Status is only set on action cells; sub-goals and the core show the progress of their actions.
+export interface MandalaCellMeta {
+  status?: CellStatus;
+  due?: string; // YYYY-MM-DD
+  note?: string;
+}
+
+export interface MandalaCell extends MandalaCellMeta {
   id: string;
   text: string;
 }
@@ -26,3 +78,18 @@ export interface MandalaChartData {
   centerGrid: MandalaGridData; // The core 3x3
   surroundingGrids: MandalaGridData[]; // 8 surrounding grids, mapped by position index 0-8 (skipping 4)
 }
+
+// Content type of a document per mode
+export interface DocumentDataByMode {
+  mindmap: MindMapNode;
+  mandala: MandalaChartData;
+}
+
+// A saved version of a document, stored next to it (see utils/snapshots.ts)
+export interface Snapshot {
+  id: string;
+  name?: string; // Given by the user (or describing why it was taken); automatic ones have none
+  isAuto: boolean; // Taken automatically: pruned when there are too many, named ones never are
+  createdAt: number; // Unix ms
+  data: string; // The document, encoded by its codec (so old snapshots are migrated when read)
+}
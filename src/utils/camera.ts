@@ -0,0 +1,86 @@
+import type { LayoutBounds, NodeBox, Size } from './layout';
+
+// =========================================================
+// CANVAS CAMERA
+// =========================================================
+// Pan and zoom of the mind map canvas. The camera maps layout coordinates to pixels inside the
+// viewport: screen = layout * scale + (x, y). All functions return a new camera and leave the
+// given one untouched (revealBox returns the same object when nothing has to move).
+
+export interface Camera {
+    x: number;
+    y: number;
+    scale: number;
+}
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export const MIN_SCALE = 0.2;
+export const MAX_SCALE = 2;
+const FIT_PADDING = 48; // Room between the map and the viewport edge when fitting
+const REVEAL_MARGIN = 32; // A revealed node keeps this distance from the viewport edge
+
+export const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+export const toLayoutPoint = (camera: Camera, screen: Point): Point => ({
+    x: (screen.x - camera.x) / camera.scale,
+    y: (screen.y - camera.y) / camera.scale,
+});
+
+// The part of the layout that is on screen
+export const getVisibleRect = (camera: Camera, viewport: Size): LayoutBounds => {
+    const topLeft = toLayoutPoint(camera, { x: 0, y: 0 });
+    const bottomRight = toLayoutPoint(camera, { x: viewport.width, y: viewport.height });
+    return { minX: topLeft.x, minY: topLeft.y, maxX: bottomRight.x, maxY: bottomRight.y };
+};
+
+// The whole map centered in the viewport; small maps are not blown up beyond 100%
+export const fitCamera = (bounds: LayoutBounds, viewport: Size): Camera => {
+    const width = bounds.maxX - bounds.minX;
+    const height = bounds.maxY - bounds.minY;
+    const scale = clampScale(Math.min(
+        1,
+        (viewport.width - FIT_PADDING * 2) / Math.max(width, 1),
+        (viewport.height - FIT_PADDING * 2) / Math.max(height, 1),
+    ));
+    return {
+        x: viewport.width / 2 - ((bounds.minX + bounds.maxX) / 2) * scale,
+        y: viewport.height / 2 - ((bounds.minY + bounds.maxY) / 2) * scale,
+        scale,
+    };
+};
+
+// Zooms so the layout point under `screen` (e.g. the mouse) stays where it is
+export const zoomAt = (camera: Camera, scale: number, screen: Point): Camera => {
+    const nextScale = clampScale(scale);
+    const anchor = toLayoutPoint(camera, screen);
+    return {
+        x: screen.x - anchor.x * nextScale,
+        y: screen.y - anchor.y * nextScale,
+        scale: nextScale,
+    };
+};
+
+export const centerOn = (camera: Camera, point: Point, viewport: Size): Camera => ({
+    ...camera,
+    x: viewport.width / 2 - point.x * camera.scale,
+    y: viewport.height / 2 - point.y * camera.scale,
+});
+
+// The smallest pan that brings the box on screen; a box bigger than the viewport is centered
+export const revealBox = (camera: Camera, box: NodeBox, viewport: Size): Camera => {
+    const shift = (center: number, size: number, offset: number, viewportSize: number) => {
+        const start = (center - size / 2) * camera.scale + offset;
+        const end = (center + size / 2) * camera.scale + offset;
+        if (end - start > viewportSize - REVEAL_MARGIN * 2) return viewportSize / 2 - center * camera.scale - offset;
+        if (start < REVEAL_MARGIN) return REVEAL_MARGIN - start;
+        if (end > viewportSize - REVEAL_MARGIN) return viewportSize - REVEAL_MARGIN - end;
+        return 0;
+    };
+    const dx = shift(box.x, box.width, camera.x, viewport.width);
+    const dy = shift(box.y, box.height, camera.y, viewport.height);
+    return dx === 0 && dy === 0 ? camera : { ...camera, x: camera.x + dx, y: camera.y + dy };
+};
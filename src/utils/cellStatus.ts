@@ -0,0 +1,139 @@
+import type { CellStatus, MandalaCell, MandalaCellMeta, MandalaChartData } from '../types';
+import { escapeTrailingBlock, formatDetailLines, splitTrailingBlock } from './nodeMeta';
+
+// =========================================================
+// MANDALA CELL STATUS
+// =========================================================
+// Status, due date and note of mandala cells. Action cells (the 8 outer cells of a surrounding
+// grid) carry a status; sub-goals and the core show the progress of the actions below them.
+// The text format uses the attribute block of mind map nodes:
+//
+//   - [0] Run 5km every morning {doing due:2026-11-01}
+//     > Start with 2km
+
+export const CELL_STATUSES: { id: CellStatus; label: string; icon: string }[] = [
+    { id: 'todo', label: 'Not started', icon: '○' },
+    { id: 'doing', label: 'In progress', icon: '◐' },
+    { id: 'done', label: 'Done', icon: '●' },
+];
+
+export const isCellStatus = (value: unknown): value is CellStatus => CELL_STATUSES.some(status => status.id === value);
+
+// A real calendar day, e.g. "2026-02-30" is rejected
+export const isDueDate = (value: unknown): value is string => {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+// Unset -> not started -> in progress -> done -> unset (Space on a focused action cell)
+export const nextCellStatus = (status: CellStatus | undefined): CellStatus | undefined => {
+    const index = CELL_STATUSES.findIndex(s => s.id === status);
+    return CELL_STATUSES[index + 1]?.id;
+};
+
+export const CELL_META_KEYS: (keyof MandalaCellMeta)[] = ['status', 'due', 'note'];
+
+// A copy of the cell with the given fields set; empty values remove the field
+export const withCellMeta = (cell: MandalaCell, patch: Partial<MandalaCellMeta>): MandalaCell => {
+    const next = { ...cell, ...patch };
+    CELL_META_KEYS.forEach(key => {
+        if (next[key] === undefined || next[key] === '') delete next[key];
+    });
+    return next;
+};
+
+export type MandalaCellKind = 'core' | 'sub-goal' | 'action';
+
+// Position as laid out on screen (gridIndex 4 is the center grid). Sub-goals appear twice:
+// around the core and in the middle of their own grid.
+export const getCellKind = (gridIndex: number, cellIndex: number): MandalaCellKind => {
+    if (gridIndex === 4 && cellIndex === 4) return 'core';
+    return gridIndex === 4 || cellIndex === 4 ? 'sub-goal' : 'action';
+};
+
+export const isActionCell = (gridIndex: number, cellIndex: number) => getCellKind(gridIndex, cellIndex) === 'action';
+
+// =========================================================
+// PROGRESS
+// =========================================================
+
+export interface CellProgress {
+    done: number;
+    total: number; // Action cells that are written or have a status
+    percent: number; // In-progress actions count half
+}
+
+const STATUS_WEIGHTS: Record<CellStatus, number> = { todo: 0, doing: 0.5, done: 1 };
+
+const summarizeProgress = (cells: MandalaCell[]): CellProgress | null => {
+    const actions = cells.filter(cell => cell.text.trim() !== '' || cell.status !== undefined);
+    if (actions.length === 0) return null;
+    const score = actions.reduce((sum, cell) => sum + (cell.status ? STATUS_WEIGHTS[cell.status] : 0), 0);
+    return {
+        done: actions.filter(cell => cell.status === 'done').length,
+        total: actions.length,
+        percent: Math.round((score / actions.length) * 100),
+    };
+};
+
+const getActionCells = (data: MandalaChartData, gridIndex: number) =>
+    data.surroundingGrids[gridIndex].cells.filter((_, cellIndex) => cellIndex !== 4);
+
+// Progress of a sub-goal (surrounding grid 0-8 except 4); null while it has no actions
+export const getSubGoalProgress = (data: MandalaChartData, gridIndex: number): CellProgress | null =>
+    gridIndex === 4 ? null : summarizeProgress(getActionCells(data, gridIndex));
+
+// Progress of the main goal over all actions of the chart
+export const getCoreProgress = (data: MandalaChartData): CellProgress | null =>
+    summarizeProgress([0, 1, 2, 3, 5, 6, 7, 8].flatMap(gridIndex => getActionCells(data, gridIndex)));
+
+// =========================================================
+// DUE DATES
+// =========================================================
+
+// Today as YYYY-MM-DD in local time, comparable with due dates as strings
+export const getToday = () => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+export const isOverdue = (cell: MandalaCellMeta, today: string) =>
+    cell.due !== undefined && cell.status !== 'done' && cell.due < today;
+
+// "2026-11-01" -> "Nov 1" (in the browser's locale)
+export const formatDueDate = (due: string) =>
+    new Date(`${due}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// =========================================================
+// TEXT FORMAT
+// =========================================================
+
+// Null unless every token is a status or a due date, so text ending in braces stays text
+const parseCellTokens = (block: string): MandalaCellMeta | null => {
+    const meta: MandalaCellMeta = {};
+    const tokens = block.trim().split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) return null;
+    for (const token of tokens) {
+        const due = token.match(/^due:(.+)$/);
+        if (isCellStatus(token)) meta.status = token;
+        else if (due && isDueDate(due[1])) meta.due = due[1];
+        else return null;
+    }
+    return meta;
+};
+
+// Cell text after "- [i] ", with its trailing attribute block split off
+export const parseCellContent = (content: string): { text: string; meta: MandalaCellMeta } => {
+    const { text, meta } = splitTrailingBlock(content, parseCellTokens);
+    return { text, meta: meta ?? {} };
+};
+
+export const formatCellContent = (cell: MandalaCell): string => {
+    const text = escapeTrailingBlock(cell.text, parseCellTokens);
+    const tokens = [cell.status ?? '', cell.due ? `due:${cell.due}` : ''].filter(Boolean);
+    return tokens.length > 0 ? `${text} {${tokens.join(' ')}}` : text;
+};
+
+// "> note" lines below the item, without indentation
+export const formatCellNoteLines = (cell: MandalaCell): string[] => formatDetailLines({ note: cell.note });
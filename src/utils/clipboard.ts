@@ -0,0 +1,112 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { MandalaCell, MandalaCellMeta, MandalaChartData, MindMapNode } from '../types';
+import { exportMindMap } from './export';
+import { parseMindMap } from './import';
+import { mindMapCodec } from './schema';
+import { formatCellContent, parseCellContent } from './cellStatus';
+import type { MandalaCellRef } from './search';
+import { sortByBoardPosition, toBoardPosition } from './selection';
+
+// =========================================================
+// CLIPBOARD
+// =========================================================
+// Copied nodes go to the clipboard twice: as indented text (the mind map text format, so any
+// app can read it) and as a JSON payload that keeps everything (notes, links, fold state...).
+// Pasting prefers the JSON payload and falls back to parsing the text.
+
+export const MINDMAP_CLIPBOARD_TYPE = 'application/x-mindmap-nodes+json';
+
+// =========================================================
+// MIND MAP
+// =========================================================
+
+// The selected nodes whose ancestors are not selected, in document order.
+// A selected node inside a selected branch is already part of that branch.
+export const getSelectedSubtrees = (root: MindMapNode, ids: Set<string>): MindMapNode[] => {
+    const result: MindMapNode[] = [];
+    const visit = (node: MindMapNode) => {
+        if (ids.has(node.id)) result.push(node);
+        else node.children.forEach(visit);
+    };
+    visit(root);
+    return result;
+};
+
+export const formatSubtreesText = (nodes: MindMapNode[]): string =>
+    nodes.map(node => exportMindMap(node)).join('\n');
+
+// The saved-document envelope around a holder node, so the payload is migrated and validated
+// by the document codec like any stored mind map
+export const encodeSubtrees = (nodes: MindMapNode[]): string =>
+    mindMapCodec.encode({ id: 'clipboard', text: '', children: nodes });
+
+export const decodeSubtrees = (raw: string): MindMapNode[] | null => {
+    try {
+        return mindMapCodec.decode(raw).children;
+    } catch {
+        return null;
+    }
+};
+
+// Indented text from anywhere: every top-level line becomes a subtree. Indenting everything
+// below a synthetic root keeps parseMindMap from turning the first line into the parent of the rest.
+export const parseSubtreesText = (text: string): MindMapNode[] => {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    if (lines.every(line => line.trim() === '')) return [];
+    return parseMindMap(['Clipboard', ...lines.map(line => `  ${line}`)].join('\n')).data.children;
+};
+
+// Pasted copies get new ids (the originals may still be in the map); pinned positions are
+// dropped because they would put the copy on top of the original
+export const cloneSubtree = (node: MindMapNode): MindMapNode => {
+    const copy = { ...node, id: uuidv4(), children: node.children.map(cloneSubtree) };
+    delete copy.position;
+    return copy;
+};
+
+// =========================================================
+// MANDALA
+// =========================================================
+
+const OUTER_CELLS = [0, 1, 2, 3, 5, 6, 7, 8];
+
+export interface PastedCell {
+    cellIndex: number;
+    text: string;
+    meta?: MandalaCellMeta;
+}
+
+// One cell per line (or per tab-separated column from a spreadsheet). List markers are
+// dropped and a trailing "{doing due:...}" block sets the status like in the text format.
+export const splitPastedCells = (text: string): { text: string; meta: MandalaCellMeta }[] =>
+    text.replace(/\r\n?/g, '\n').split(/[\n\t]/)
+        .map(line => line.trim().replace(/^([-+*]\s+|\d+[.)]\s+)/, '').replace(/^\[\d\]\s*/, ''))
+        .filter(line => line !== '')
+        .map(line => parseCellContent(line));
+
+// The pasted cell gets the first line; the rest fill the empty cells that follow it in the
+// same grid (reading order, wrapping around). Index 4 is the theme of the grid and is only
+// written when the paste starts there. Returns how many lines did not fit.
+export const planCellPaste = (cells: MandalaCell[], startIndex: number, lines: { text: string; meta: MandalaCellMeta }[]): { edits: PastedCell[]; overflow: number } => {
+    const rotation = startIndex === 4 ? 0 : OUTER_CELLS.indexOf(startIndex) + 1;
+    const order = [...OUTER_CELLS.slice(rotation), ...OUTER_CELLS.slice(0, rotation)];
+    const targets = [startIndex, ...order.filter(index => index !== startIndex && cells[index].text.trim() === '')];
+    const edits = lines.slice(0, targets.length).map((line, i) => ({
+        cellIndex: targets[i],
+        text: line.text,
+        meta: Object.keys(line.meta).length > 0 ? line.meta : undefined,
+    }));
+    return { edits, overflow: Math.max(0, lines.length - targets.length) };
+};
+
+// Selected cells as rows of the board with tabs between the cells, so spreadsheets keep the
+// layout and pasting into a cell spreads them again (statuses included)
+export const formatCellsText = (data: MandalaChartData, refs: MandalaCellRef[]): string => {
+    const rows = new Map<number, string[]>();
+    sortByBoardPosition(refs).forEach(ref => {
+        const cell = (ref.gridIndex === 4 ? data.centerGrid : data.surroundingGrids[ref.gridIndex]).cells[ref.cellIndex];
+        const { row } = toBoardPosition(ref);
+        rows.set(row, [...(rows.get(row) ?? []), formatCellContent(cell)]);
+    });
+    return [...rows.values()].map(cells => cells.join('\t')).join('\n');
+};
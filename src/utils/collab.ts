@@ -0,0 +1,272 @@
+import * as Y from 'yjs';
+import { fromBase64, toBase64 } from 'lib0/buffer';
+import type { Awareness } from 'y-protocols/awareness';
+import type { DocumentDataByMode, MandalaCell, MandalaChartData, MandalaGridData, MindMapNode, Mode } from '../types';
+import { cellKey } from './search';
+import { sameFields, sameValue } from './merge';
+
+// =========================================================
+// COLLABORATION (CRDT DOCUMENTS)
+// =========================================================
+// A shared document is mirrored into a Yjs document, which merges concurrent and offline edits.
+// The app keeps working on its plain immutable data: local edits are written into the Yjs
+// document as the smallest set of changes, remote edits are read back as a whole new document.
+//
+// Mind map: one entry per node id holding its parent, a sort key among its siblings and its
+// fields (text, notes, tags...). Each field is last-writer-wins, so two people editing
+// different fields or different nodes never overwrite each other.
+// Mandala: one entry per cell. A sub-goal is stored once, under its place in the surrounding
+// grid, and read into both copies on the board.
+
+export interface CrdtBinding<T> {
+    scope: (doc: Y.Doc) => Y.Map<Y.Map<unknown>>; // What the shared undo manager tracks
+    write: (doc: Y.Doc, value: T) => void; // Call inside a transaction
+    read: (doc: Y.Doc, base: T) => T | null; // null while the shared document is still empty
+}
+
+// Writes the fields that differ and removes the ones that are gone. `reserved` keys are managed by the caller.
+const writeFields = (entry: Y.Map<unknown>, fields: object, reserved: string[] = []) => {
+    Object.entries(fields).forEach(([key, value]) => {
+        if (key === 'id' || value === undefined) return; // The id is the key of the entry
+        if (!entry.has(key) || !sameValue(entry.get(key), value)) entry.set(key, value);
+    });
+    [...entry.keys()].forEach(key => {
+        if (!reserved.includes(key) && fields[key as keyof typeof fields] === undefined) entry.delete(key);
+    });
+};
+
+const readFields = (entry: Y.Map<unknown> | undefined, reserved: string[] = []) =>
+    Object.fromEntries([...(entry?.entries() ?? [])].filter(([key]) => !reserved.includes(key)));
+
+const getOrCreateEntry = (map: Y.Map<Y.Map<unknown>>, key: string) => {
+    const existing = map.get(key);
+    if (existing) return existing;
+    const entry = new Y.Map<unknown>();
+    map.set(key, entry);
+    return entry;
+};
+
+// =========================================================
+// MIND MAP
+// =========================================================
+
+const PARENT = 'parent';
+const ORDER = 'order';
+const NODE_RESERVED = [PARENT, ORDER];
+
+// The sort key of a node as a peer wrote it; anything but a finite number counts as missing
+const readOrder = (entry: Y.Map<unknown>): number | undefined => {
+    const order = entry.get(ORDER);
+    return typeof order === 'number' && Number.isFinite(order) ? order : undefined;
+};
+
+// Sort keys for the children of one parent, in their new order. Children that are already in
+// order keep their key; moved and new ones get a key between their neighbours, so a reorder
+// touches as few entries as possible (and concurrent inserts elsewhere stay where they were).
+const assignOrders = (current: (number | undefined)[]): number[] => {
+    const orders: number[] = [];
+    let last = -Infinity;
+    current.forEach((order, i) => {
+        if (order !== undefined && order > last) {
+            orders.push(order);
+            last = order;
+            return;
+        }
+        const next = current.slice(i + 1).find((o): o is number => o !== undefined && o > last);
+        const low = last === -Infinity ? (next ?? 1) - 1 : last;
+        const value = next === undefined ? low + 1 : (low + next) / 2;
+        orders.push(value);
+        last = value;
+    });
+    return orders;
+};
+
+const writeMindMap = (doc: Y.Doc, root: MindMapNode) => {
+    const nodes = doc.getMap<Y.Map<unknown>>('nodes');
+    const seen = new Set<string>();
+
+    const visit = (node: MindMapNode, parentId: string | null, order: number) => {
+        seen.add(node.id);
+        const entry = getOrCreateEntry(nodes, node.id);
+        if (entry.get(PARENT) !== parentId) entry.set(PARENT, parentId);
+        if (entry.get(ORDER) !== order) entry.set(ORDER, order);
+        const { children, ...fields } = node;
+        writeFields(entry, fields, NODE_RESERVED);
+
+        const orders = assignOrders(children.map(child => {
+            const existing = nodes.get(child.id);
+            return existing?.get(PARENT) === node.id ? readOrder(existing) : undefined;
+        }));
+        children.forEach((child, i) => visit(child, node.id, orders[i]));
+    };
+    visit(root, null, 0);
+
+    [...nodes.keys()].forEach(id => {
+        if (!seen.has(id)) nodes.delete(id);
+    });
+};
+
+// Concurrent moves can put two nodes below each other. Such a loop is cut where its smallest id
+// is, and that node goes back below the root; everyone cuts the same loop the same way.
+// Nodes whose parent was deleted by someone else are dropped with it.
+const findParentFixes = (entries: Map<string, Y.Map<unknown>>, reachable: Set<string>, rootId: string) => {
+    const fixes = new Map<string, string>();
+    entries.forEach((_, id) => {
+        if (reachable.has(id)) return;
+        const chain: string[] = [];
+        let current: string | null = id;
+        while (current !== null && entries.has(current) && !reachable.has(current) && !chain.includes(current)) {
+            chain.push(current);
+            current = entries.get(current)!.get(PARENT) as string | null;
+        }
+        if (current === null || !chain.includes(current)) return;
+        const loop = chain.slice(chain.indexOf(current));
+        fixes.set([...loop].sort()[0], rootId);
+    });
+    return fixes;
+};
+
+const readMindMap = (doc: Y.Doc): MindMapNode | null => {
+    const entries = new Map(doc.getMap<Y.Map<unknown>>('nodes').entries());
+    const rootId = [...entries.keys()].filter(id => entries.get(id)!.get(PARENT) === null).sort()[0];
+    if (rootId === undefined) return null;
+
+    const build = (fixes: Map<string, string>, reachable: Set<string>) => {
+        const childrenOf = new Map<string, string[]>();
+        entries.forEach((entry, id) => {
+            const parent = fixes.get(id) ?? entry.get(PARENT) as string | null;
+            if (parent !== null && id !== rootId) childrenOf.set(parent, [...(childrenOf.get(parent) ?? []), id]);
+        });
+        // Children without a valid sort key go last, ties by id so every peer gets the same order
+        const orderOf = (id: string) => readOrder(entries.get(id)!) ?? Infinity;
+        const buildNode = (id: string): MindMapNode => {
+            reachable.add(id);
+            const children = (childrenOf.get(id) ?? [])
+                .filter(childId => !reachable.has(childId))
+                .sort((a, b) => orderOf(a) === orderOf(b) ? (a < b ? -1 : 1) : orderOf(a) < orderOf(b) ? -1 : 1);
+            return { text: '', ...readFields(entries.get(id), NODE_RESERVED), id, children: children.map(buildNode) } as MindMapNode;
+        };
+        return buildNode(rootId);
+    };
+
+    const reachable = new Set<string>();
+    const root = build(new Map(), reachable);
+    const fixes = findParentFixes(entries, reachable, rootId);
+    return fixes.size === 0 ? root : build(fixes, new Set());
+};
+
+// =========================================================
+// MANDALA
+// =========================================================
+
+// Where a cell of the board is stored: the center grid's sub-goals (its outer cells) live at the
+// center of their surrounding grid
+const canonicalCellKey = (gridIndex: number, cellIndex: number) =>
+    gridIndex === 4 && cellIndex !== 4 ? cellKey({ gridIndex: cellIndex, cellIndex: 4 }) : cellKey({ gridIndex, cellIndex });
+
+const writeMandala = (doc: Y.Doc, data: MandalaChartData) => {
+    const cells = doc.getMap<Y.Map<unknown>>('cells');
+    const write = (key: string, cell: MandalaCell) => writeFields(getOrCreateEntry(cells, key), cell);
+    write(canonicalCellKey(4, 4), data.centerGrid.cells[4]);
+    data.surroundingGrids.forEach((grid, gridIndex) => {
+        if (gridIndex === 4) return; // Placeholder, the center grid is stored above
+        grid.cells.forEach((cell, cellIndex) => write(canonicalCellKey(gridIndex, cellIndex), cell));
+    });
+};
+
+// Ids and grid titles are local; unchanged cells and grids keep their objects
+const readMandala = (doc: Y.Doc, base: MandalaChartData): MandalaChartData | null => {
+    const cells = doc.getMap<Y.Map<unknown>>('cells');
+    if (cells.size === 0) return null;
+    const readGrid = (grid: MandalaGridData, gridIndex: number): MandalaGridData => {
+        const next = grid.cells.map((cell, cellIndex) => {
+            const fields = readFields(cells.get(canonicalCellKey(gridIndex, cellIndex)));
+            const read = { text: '', ...fields, id: cell.id } as MandalaCell;
+            return sameFields(cell, read) ? cell : read;
+        });
+        return next.every((cell, i) => cell === grid.cells[i]) ? grid : { ...grid, cells: next };
+    };
+    const centerGrid = readGrid(base.centerGrid, 4);
+    const surroundingGrids = base.surroundingGrids.map((grid, gridIndex) => gridIndex === 4 ? grid : readGrid(grid, gridIndex));
+    if (centerGrid === base.centerGrid && surroundingGrids.every((grid, i) => grid === base.surroundingGrids[i])) return base;
+    return { centerGrid, surroundingGrids };
+};
+
+export const CRDT_BINDINGS: { [M in Mode]: CrdtBinding<DocumentDataByMode[M]> } = {
+    mindmap: { scope: doc => doc.getMap('nodes'), write: writeMindMap, read: readMindMap },
+    mandala: { scope: doc => doc.getMap('cells'), write: writeMandala, read: readMandala },
+};
+
+// =========================================================
+// PERSISTENCE
+// =========================================================
+// The shared document is saved next to the plain one, so edits made offline (even across
+// reloads) are merged instead of overwritten when the relay is reached again.
+
+export const crdtStorageKey = (storageKey: string) => `${storageKey}-crdt`;
+
+export const encodeCrdtState = (doc: Y.Doc) => toBase64(Y.encodeStateAsUpdate(doc));
+
+export const applyCrdtState = (doc: Y.Doc, raw: string, origin?: unknown) => {
+    Y.applyUpdate(doc, fromBase64(raw), origin);
+};
+
+// =========================================================
+// SETTINGS AND STATUS
+// =========================================================
+
+export interface CollabSettings {
+    name: string; // Shown to the others, "Guest" while empty
+    relayUrl: string; // Used for documents shared or joined from now on
+}
+
+export const DEFAULT_COLLAB_SETTINGS: CollabSettings = { name: '', relayUrl: 'ws://localhost:1234' };
+
+export type CollabStatus = 'connecting' | 'connected' | 'offline';
+
+export const COLLAB_STATUSES: Record<CollabStatus, { label: string; description: string; dot: string }> = {
+    connecting: { label: 'Connecting', description: 'Connecting to the relay…', dot: 'bg-pop-yellow' },
+    connected: { label: 'Connected', description: 'Connected', dot: 'bg-pop-green' },
+    offline: { label: 'Offline', description: 'Offline: your edits are kept and merged once the relay is back', dot: 'bg-slate-400' },
+};
+
+// =========================================================
+// PRESENCE
+// =========================================================
+// Who else has the document open and where they are. Ids are node ids in the mind map and
+// cell keys ("grid:cell", see utils/search.ts) in the mandala.
+
+export interface Presence {
+    focus: string | null; // The node or cell with the keyboard focus
+    selection: string[];
+}
+
+export interface Collaborator extends Presence {
+    clientId: number;
+    name: string;
+    color: string;
+}
+
+const COLLABORATOR_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899'];
+
+export const getCollaboratorColor = (clientId: number) => COLLABORATOR_COLORS[clientId % COLLABORATOR_COLORS.length];
+
+// Everyone except ourselves. States are sent by other clients, so anything malformed is skipped.
+export const readCollaborators = (awareness: Awareness): Collaborator[] =>
+    [...awareness.getStates()].flatMap(([clientId, state]): Collaborator[] => {
+        const { user, presence } = state as { user?: { name?: unknown; color?: unknown }; presence?: Partial<Presence> };
+        if (clientId === awareness.clientID || typeof user?.name !== 'string') return [];
+        return [{
+            clientId,
+            name: user.name,
+            color: typeof user.color === 'string' ? user.color : getCollaboratorColor(clientId),
+            focus: typeof presence?.focus === 'string' ? presence.focus : null,
+            selection: Array.isArray(presence?.selection) ? presence.selection.filter(id => typeof id === 'string') : [],
+        }];
+    });
+
+// The collaborators on one node or cell, those with the focus first
+export const getCollaboratorsAt = (collaborators: Collaborator[], id: string): Collaborator[] => [
+    ...collaborators.filter(c => c.focus === id),
+    ...collaborators.filter(c => c.focus !== id && c.selection.includes(id)),
+];
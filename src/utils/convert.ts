@@ -0,0 +1,95 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { MindMapNode, MandalaChartData, MandalaGridData } from '../types';
+
+// =========================================================
+// MANDALA <-> MIND MAP CONVERSION
+// =========================================================
+// Center goal = root, the 8 sub-goals = children, the 8 actions of each sub-goal = grandchildren.
+
+// Cell (and grid) positions around a center, in reading order. Index 4 is the center itself.
+const OUTER_POSITIONS = [0, 1, 2, 3, 5, 6, 7, 8];
+
+export const mandalaToMindMap = (data: MandalaChartData): MindMapNode => {
+    const root: MindMapNode = {
+        id: uuidv4(),
+        text: data.centerGrid.cells[4].text || 'Main Goal',
+        children: [],
+        isExpanded: true,
+    };
+
+    OUTER_POSITIONS.forEach(pos => {
+        const subGoal = data.centerGrid.cells[pos].text;
+        const actions = data.surroundingGrids[pos].cells
+            .filter((_, i) => i !== 4)
+            .map(cell => cell.text)
+            .filter(text => text.trim() !== '');
+
+        // Empty cells carry no information, only keep a sub-goal if it has text or actions
+        if (subGoal.trim() === '' && actions.length === 0) return;
+
+        root.children.push({
+            id: uuidv4(),
+            text: subGoal,
+            children: actions.map(text => ({ id: uuidv4(), text, children: [] })),
+        });
+    });
+
+    return root;
+};
+
+export interface ConversionReport {
+    droppedCount: number; // Nodes that did not fit into the chart
+    notes: string[]; // Human readable description of every truncation
+}
+
+const createEmptyGrid = (): MandalaGridData => ({
+    id: uuidv4(),
+    title: '',
+    cells: Array(9).fill(null).map(() => ({ id: uuidv4(), text: '' }))
+});
+
+const countDescendants = (node: MindMapNode): number =>
+    node.children.reduce((sum, child) => sum + 1 + countDescendants(child), 0);
+
+const MAX_OUTER = OUTER_POSITIONS.length;
+
+// Fills a chart from the first 8 children / grandchildren of `node`; everything else is reported.
+export const mindMapToMandala = (node: MindMapNode): { data: MandalaChartData; report: ConversionReport } => {
+    const data: MandalaChartData = {
+        centerGrid: createEmptyGrid(),
+        surroundingGrids: Array(9).fill(null).map(() => createEmptyGrid())
+    };
+    const report: ConversionReport = { droppedCount: 0, notes: [] };
+
+    data.centerGrid.cells[4].text = node.text;
+
+    node.children.slice(0, MAX_OUTER).forEach((subGoal, i) => {
+        const pos = OUTER_POSITIONS[i];
+        const grid = data.surroundingGrids[pos];
+        data.centerGrid.cells[pos].text = subGoal.text;
+        grid.cells[4].text = subGoal.text; // Keep the sync invariant of useMandalaData.updateCell
+
+        subGoal.children.slice(0, MAX_OUTER).forEach((action, j) => {
+            grid.cells[OUTER_POSITIONS[j]].text = action.text;
+            const deeper = countDescendants(action);
+            if (deeper > 0) {
+                report.droppedCount += deeper;
+                report.notes.push(`"${subGoal.text}" › "${action.text}": ${deeper} deeper node(s) dropped (a chart has only 3 levels)`);
+            }
+        });
+
+        const extraActions = subGoal.children.slice(MAX_OUTER);
+        if (extraActions.length > 0) {
+            report.droppedCount += extraActions.reduce((sum, n) => sum + 1 + countDescendants(n), 0);
+            report.notes.push(`"${subGoal.text}": ${extraActions.length} action(s) beyond the first 8 dropped (${extraActions.map(n => `"${n.text}"`).join(', ')})`);
+        }
+    });
+
+    const extraSubGoals = node.children.slice(MAX_OUTER);
+    if (extraSubGoals.length > 0) {
+        report.droppedCount += extraSubGoals.reduce((sum, n) => sum + 1 + countDescendants(n), 0);
+        report.notes.push(`${extraSubGoals.length} sub-goal(s) beyond the first 8 dropped with their children (${extraSubGoals.map(n => `"${n.text}"`).join(', ')})`);
+    }
+
+    return { data, report };
+};
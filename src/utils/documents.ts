@@ -0,0 +1,219 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { DocumentMeta, DocumentDataByMode, Mode, MindMapNode, MandalaChartData } from '../types';
+import { historyStorageKey } from './history';
+import { crdtStorageKey } from './collab';
+import { snapshotStorageKey } from './snapshots';
+import { storage } from './storage';
+import { CODECS, sniffDocumentKind } from './schema';
+
+// =========================================================
+// DOCUMENT LIBRARY STORAGE
+// =========================================================
+// The library index (names, timestamps, active document per mode) lives under one key.
+// Each document's content lives under its own key (+ its undo history, see useHistoryState,
+// and its snapshots, see useSnapshots).
+
+const LIBRARY_KEY = 'document-library-v1';
+
+// Before the library existed there was exactly one document per mode
+const LEGACY_KEYS: Record<Mode, string> = {
+    mindmap: 'mindmap-data-v1',
+    mandala: 'mandala-data-v1',
+};
+
+export const DEFAULT_DOCUMENT_NAMES: Record<Mode, string> = {
+    mindmap: 'Untitled Mind Map',
+    mandala: 'Untitled Mandala',
+};
+
+export interface DocumentLibrary {
+    documents: DocumentMeta[];
+    activeIds: Record<Mode, string>;
+    deletedAt: Record<string, number>; // Deleted documents (id -> Unix ms), so other tabs do not bring them back
+}
+
+// Older deletions are forgotten beyond this
+const DELETED_LIMIT = 200;
+
+export const documentStorageKey = (id: string) => `document-${id}`;
+
+// Matches document content keys only (not their "-history" or "-corrupt-*" companions)
+const DOCUMENT_KEY_PATTERN = /^document-([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/;
+
+export const createDocumentMeta = (mode: Mode, name: string = DEFAULT_DOCUMENT_NAMES[mode]): DocumentMeta => {
+    const now = Date.now();
+    return { id: uuidv4(), name, mode, createdAt: now, updatedAt: now };
+};
+
+export const writeDocumentData = <M extends Mode>(id: string, mode: M, data: DocumentDataByMode[M]) => {
+    storage.setItem(documentStorageKey(id), CODECS[mode].encode(data));
+};
+
+// Copies the content only; a duplicate starts with a fresh undo history and no snapshots
+export const copyDocumentData = (fromId: string, toId: string) => {
+    const saved = storage.getItem(documentStorageKey(fromId));
+    if (saved !== null) storage.setItem(documentStorageKey(toId), saved);
+};
+
+export type StoredDocument =
+    | { id: string; mode: 'mindmap'; data: MindMapNode }
+    | { id: string; mode: 'mandala'; data: MandalaChartData };
+
+// Every readable document in storage, for features that look across documents (broken ones are skipped)
+export const readAllDocuments = (): StoredDocument[] => storage.keys().flatMap((key): StoredDocument[] => {
+    const id = key.match(DOCUMENT_KEY_PATTERN)?.[1];
+    const raw = id ? storage.getItem(key) : null;
+    if (!id || raw === null) return [];
+    try {
+        const kind = sniffDocumentKind(raw);
+        if (kind === 'mindmap') return [{ id, mode: kind, data: CODECS.mindmap.decode(raw) }];
+        if (kind === 'mandala') return [{ id, mode: kind, data: CODECS.mandala.decode(raw) }];
+    } catch {
+        // Unreadable documents are handled by the recovery screen when opened
+    }
+    return [];
+});
+
+export const removeDocumentData = (id: string) => {
+    storage.removeItem(documentStorageKey(id));
+    storage.removeItem(historyStorageKey(documentStorageKey(id)));
+    storage.removeItem(crdtStorageKey(documentStorageKey(id)));
+    storage.removeItem(snapshotStorageKey(documentStorageKey(id)));
+};
+
+// Moves the pre-library single document of a mode (and its history) into a library document
+const migrateLegacyDocument = (mode: Mode): DocumentMeta => {
+    const meta = createDocumentMeta(mode);
+    const legacyKey = LEGACY_KEYS[mode];
+    const targetKey = documentStorageKey(meta.id);
+
+    for (const [from, to] of [[legacyKey, targetKey], [historyStorageKey(legacyKey), historyStorageKey(targetKey)]]) {
+        const saved = storage.getItem(from);
+        if (saved !== null) {
+            storage.setItem(to, saved);
+            storage.removeItem(from);
+        }
+    }
+    return meta;
+};
+
+// Remembers that a document was deleted
+export const markDeleted = (deletedAt: Record<string, number>, id: string): Record<string, number> =>
+    Object.fromEntries([...Object.entries(deletedAt), [id, Date.now()] as const].sort((a, b) => b[1] - a[1]).slice(0, DELETED_LIMIT));
+
+// Every mode always has at least one document and a valid active document. A missing document is
+// made by `createMissing`: a blank one, or the migrated legacy document (see migrateLegacyDocuments).
+const ensureActiveDocuments = (library: DocumentLibrary, createMissing: (mode: Mode) => DocumentMeta = createDocumentMeta): DocumentLibrary => {
+    const documents = [...library.documents];
+    const activeIds = { ...library.activeIds };
+
+    (['mindmap', 'mandala'] as Mode[]).forEach(mode => {
+        if (documents.some(d => d.id === activeIds[mode] && d.mode === mode)) return;
+        let fallback = documents.find(d => d.mode === mode);
+        if (!fallback) {
+            fallback = createMissing(mode);
+            documents.push(fallback);
+        }
+        activeIds[mode] = fallback.id;
+    });
+
+    return { ...library, documents, activeIds };
+};
+
+// The index got lost or corrupted: list every stored document again so no content is orphaned
+const rebuildLibrary = (): DocumentLibrary => {
+    const documents: DocumentMeta[] = [];
+    storage.keys().forEach(key => {
+        const match = key.match(DOCUMENT_KEY_PATTERN);
+        if (!match) return;
+        const mode = sniffDocumentKind(storage.getItem(key) ?? '');
+        if (!mode) return;
+        const now = Date.now();
+        documents.push({ id: match[1], name: `Recovered ${DEFAULT_DOCUMENT_NAMES[mode]}`, mode, createdAt: now, updatedAt: now });
+    });
+    return { documents, activeIds: {} as Record<Mode, string>, deletedAt: {} };
+};
+
+const isDocumentMeta = (value: unknown): value is DocumentMeta => {
+    if (typeof value !== 'object' || value === null) return false;
+    const meta = value as Record<string, unknown>;
+    return typeof meta.id === 'string' && typeof meta.name === 'string'
+        && (meta.mode === 'mindmap' || meta.mode === 'mandala')
+        && typeof meta.createdAt === 'number' && typeof meta.updatedAt === 'number';
+};
+
+// Indexes saved before deletions were remembered have none
+const readDeletedAt = (value: unknown): Record<string, number> =>
+    typeof value === 'object' && value !== null
+        ? Object.fromEntries(Object.entries(value).filter(([, at]) => typeof at === 'number'))
+        : {};
+
+const readLibrary = (createMissing?: (mode: Mode) => DocumentMeta): DocumentLibrary => {
+    const saved = storage.getItem(LIBRARY_KEY);
+    if (saved) {
+        try {
+            const parsed = JSON.parse(saved);
+            if (Array.isArray(parsed.documents) && parsed.documents.every(isDocumentMeta)) {
+                return ensureActiveDocuments({ documents: parsed.documents, activeIds: parsed.activeIds ?? {}, deletedAt: readDeletedAt(parsed.deletedAt) }, createMissing);
+            }
+            console.error("Saved document library has an invalid structure, rebuilding it");
+        } catch (e) {
+            console.error("Failed to parse saved document library, rebuilding it", e);
+        }
+        return ensureActiveDocuments(rebuildLibrary(), createMissing);
+    }
+    return ensureActiveDocuments({ documents: [], activeIds: {} as Record<Mode, string>, deletedAt: {} }, createMissing);
+};
+
+// Does not write to storage, so it is safe as a state initializer
+export const loadLibrary = (): DocumentLibrary => readLibrary();
+
+// Moves the documents from before the library into it. Runs once at startup, before the first render.
+export const migrateLegacyDocuments = () => {
+    if (Object.values(LEGACY_KEYS).every(key => storage.getItem(key) === null)) return;
+    saveLibrary(readLibrary(migrateLegacyDocument));
+};
+
+export type SavedDocuments = Pick<DocumentLibrary, 'documents' | 'deletedAt'>;
+
+// The documents of an index saved by another tab, or null if the change was not to a readable index
+export const readSavedDocuments = (key: string, saved: string): SavedDocuments | null => {
+    if (key !== LIBRARY_KEY) return null;
+    try {
+        const parsed = JSON.parse(saved);
+        if (!Array.isArray(parsed.documents) || !parsed.documents.every(isDocumentMeta)) return null;
+        return { documents: parsed.documents, deletedAt: readDeletedAt(parsed.deletedAt) };
+    } catch {
+        return null;
+    }
+};
+
+// The newer entry wins; on a tie both tabs pick the same one
+const newerMeta = (a: DocumentMeta, b: DocumentMeta) => {
+    if (a.updatedAt !== b.updatedAt) return a.updatedAt > b.updatedAt ? a : b;
+    return JSON.stringify(a) >= JSON.stringify(b) ? a : b;
+};
+
+// Merges the index of another tab into ours, per document: entries the other tab has not seen yet
+// stay, entries it deleted go unless they were changed here after that. Each tab keeps its own
+// open documents while they exist.
+export const mergeDocuments = (library: DocumentLibrary, theirs: SavedDocuments): DocumentLibrary => {
+    const deletedAt = { ...library.deletedAt };
+    Object.entries(theirs.deletedAt).forEach(([id, at]) => {
+        deletedAt[id] = Math.max(at, deletedAt[id] ?? 0);
+    });
+    const isDeleted = (meta: DocumentMeta) => (deletedAt[meta.id] ?? -Infinity) >= meta.updatedAt;
+
+    const ours = new Map(library.documents.map(d => [d.id, d]));
+    const theirIds = new Set(theirs.documents.map(d => d.id));
+    const documents = [
+        ...theirs.documents.map(d => ours.has(d.id) ? newerMeta(ours.get(d.id)!, d) : d),
+        ...library.documents.filter(d => !theirIds.has(d.id)),
+    ].filter(d => !isDeleted(d));
+
+    return ensureActiveDocuments({ documents, activeIds: library.activeIds, deletedAt });
+};
+
+export const saveLibrary = (library: DocumentLibrary) => {
+    storage.setItem(LIBRARY_KEY, JSON.stringify(library));
+};
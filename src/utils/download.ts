@@ -0,0 +1,22 @@
+// Triggers a browser download of generated content (no server involved)
+export const downloadBlob = (filename: string, blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    // Revoke on the next tick, some browsers start the download asynchronously
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (filename: string, text: string, mimeType = 'text/plain') => {
+    downloadBlob(filename, new Blob([text], { type: `${mimeType};charset=utf-8` }));
+};
+
+// Turns a document name into something safe to use as a file name
+export const toFileName = (name: string, extension: string) => {
+    const base = name.trim().replace(/[\\/:*?"<>|]+/g, '_').slice(0, 80) || 'untitled';
+    return `${base}.${extension}`;
+};
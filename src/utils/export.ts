@@ -1,12 +1,23 @@
-import type { MandalaChartData, MindMapNode } from '../types';
+import type { MandalaCell, MandalaChartData, MindMapNode } from '../types';
+import { CURRENT_SCHEMA_VERSION } from './schema';
+import { formatDetailLines, formatNodeLine } from './nodeMeta';
+import { formatCellContent, formatCellNoteLines } from './cellStatus';
 
 export const exportMindMap = (node: MindMapNode, depth = 0): string => {
     const indent = '  '.repeat(depth);
-    const line = `${indent}- ${node.text}`;
+    // Collapsed nodes use the "+" bullet so the fold state survives a round-trip
+    const bullet = node.isExpanded === false && node.children.length > 0 ? '+' : '-';
+    // Metadata: "{...}" attribute block on the line, notes and links on their own lines below
+    const detailLines = formatDetailLines(node).map(detail => `${indent}  ${detail}`);
+    const line = [`${indent}${bullet} ${formatNodeLine(node)}`, ...detailLines].join('\n');
     const childrenLines = node.children.map((child) => exportMindMap(child, depth + 1)).join('\n');
     return childrenLines ? `${line}\n${childrenLines}` : line;
 };
 
+// "- [i] text {status due:...}" plus the note lines of the cell
+const formatCellItem = (cell: MandalaCell, index: number) =>
+    [`- [${index}] ${formatCellContent(cell)}`, ...formatCellNoteLines(cell).map(line => `  ${line}`)].join('\n') + '\n';
+
 export const exportMandala = (data: MandalaChartData): string => {
     // Center Grid
     const centerTitle = data.centerGrid.cells[4].text || 'Untitled';
@@ -16,7 +27,7 @@ export const exportMandala = (data: MandalaChartData): string => {
     // We use standard names for parsing: "Center Grid", "Top Left Grid", etc.
     output += `## Center Grid\n`;
     data.centerGrid.cells.forEach((cell, index) => {
-        output += `- [${index}] ${cell.text}\n`;
+        output += formatCellItem(cell, index);
     });
     output += '\n';
 
@@ -26,7 +37,7 @@ export const exportMandala = (data: MandalaChartData): string => {
         const positionName = getPositionName(index);
         output += `## ${positionName} Grid\n`;
         grid.cells.forEach((cell, cIndex) => {
-            output += `- [${cIndex}] ${cell.text}\n`;
+            output += formatCellItem(cell, cIndex);
         });
         output += '\n';
     });
@@ -34,7 +45,7 @@ export const exportMandala = (data: MandalaChartData): string => {
     return output;
 };
 
-const getPositionName = (index: number): string => {
+export const getPositionName = (index: number): string => {
     const names = [
         'Top Left', 'Top Center', 'Top Right',
         'Middle Left', 'Center', 'Middle Right',
@@ -42,3 +53,193 @@ const getPositionName = (index: number): string => {
     ];
     return names[index] || `Grid ${index}`;
 };
+
+// =========================================================
+// MIND MAP EXPORTERS
+// =========================================================
+// Each exporter turns the tree into a downloadable file. The text format above stays the
+// clipboard default; JSON is the only lossless one (ids, fold state and anything added later).
+
+export interface DocumentExporter<T> {
+    id: string;
+    label: string;
+    extension: string;
+    mimeType: string;
+    export: (data: T, title: string) => string;
+}
+
+const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;');
+
+export const exportOpml = (root: MindMapNode, title: string): string => {
+    const outline = (node: MindMapNode, depth: number): string => {
+        const indent = '  '.repeat(depth);
+        if (node.children.length === 0) return `${indent}<outline text="${escapeXml(node.text)}"/>`;
+        return [
+            `${indent}<outline text="${escapeXml(node.text)}">`,
+            ...node.children.map(child => outline(child, depth + 1)),
+            `${indent}</outline>`,
+        ].join('\n');
+    };
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<opml version="2.0">',
+        '  <head>',
+        `    <title>${escapeXml(title)}</title>`,
+        `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+        '  </head>',
+        '  <body>',
+        outline(root, 2),
+        '  </body>',
+        '</opml>',
+        '',
+    ].join('\n');
+};
+
+export const exportFreeMind = (root: MindMapNode): string => {
+    const node = (n: MindMapNode): string => {
+        // FreeMind ids must start with a letter
+        const attributes = `ID="ID_${n.id.replace(/-/g, '')}" TEXT="${escapeXml(n.text)}"`
+            + (n.isExpanded === false && n.children.length > 0 ? ' FOLDED="true"' : '');
+        if (n.children.length === 0) return `<node ${attributes}/>`;
+        return `<node ${attributes}>\n${n.children.map(node).join('\n')}\n</node>`;
+    };
+    return `<map version="1.0.1">\n${node(root)}\n</map>\n`;
+};
+
+export const exportMindMapJson = (root: MindMapNode): string =>
+    // Same envelope as the saved document, so the import can migrate it like stored data
+    JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, kind: 'mindmap', data: root }, null, 2);
+
+// Markdown only has 6 heading levels, deeper nodes continue as a bullet list
+const MAX_HEADING_DEPTH = 6;
+
+export const exportMarkdownHeadings = (root: MindMapNode): string => {
+    const lines: string[] = [];
+    const walk = (node: MindMapNode, depth: number) => {
+        if (depth < MAX_HEADING_DEPTH) {
+            lines.push(`${'#'.repeat(depth + 1)} ${node.text}`, '');
+        } else {
+            lines.push(`${'  '.repeat(depth - MAX_HEADING_DEPTH)}- ${node.text}`);
+        }
+        node.children.forEach(child => walk(child, depth + 1));
+        // Close a bullet list before the next heading
+        if (depth === MAX_HEADING_DEPTH) lines.push('');
+    };
+    walk(root, 0);
+    return lines.join('\n').replace(/\n{3,}/g, '\n\n').trimEnd() + '\n';
+};
+
+// Mermaid treats brackets and quotes as shape syntax, such labels are quoted inside an explicit shape
+const isPlainMermaidText = (text: string) => text !== '' && !/[()[\]{}"`]/.test(text);
+const quoteMermaid = (text: string) => `"${text.replace(/"/g, '#quot;') || ' '}"`;
+
+export const exportMermaid = (root: MindMapNode): string => {
+    const rootText = root.text.replace(/\s+/g, ' ').trim();
+    const lines = ['mindmap', `  root((${isPlainMermaidText(rootText) ? rootText : quoteMermaid(rootText)}))`];
+    let counter = 0;
+    const walk = (node: MindMapNode, depth: number) => {
+        node.children.forEach(child => {
+            const text = child.text.replace(/\s+/g, ' ').trim();
+            const label = isPlainMermaidText(text) ? text : `n${++counter}[${quoteMermaid(text)}]`;
+            lines.push(`${'  '.repeat(depth + 2)}${label}`);
+            walk(child, depth + 1);
+        });
+    };
+    walk(root, 0);
+    return lines.join('\n') + '\n';
+};
+
+export const MINDMAP_EXPORTERS: DocumentExporter<MindMapNode>[] = [
+    { id: 'text', label: 'Indented Text', extension: 'txt', mimeType: 'text/plain', export: (root) => exportMindMap(root) + '\n' },
+    { id: 'markdown', label: 'Markdown Headings', extension: 'md', mimeType: 'text/markdown', export: exportMarkdownHeadings },
+    { id: 'opml', label: 'OPML', extension: 'opml', mimeType: 'text/x-opml', export: exportOpml },
+    { id: 'freemind', label: 'FreeMind (.mm)', extension: 'mm', mimeType: 'application/x-freemind', export: exportFreeMind },
+    { id: 'mermaid', label: 'Mermaid Mindmap', extension: 'mmd', mimeType: 'text/plain', export: exportMermaid },
+    { id: 'json', label: 'JSON (lossless)', extension: 'json', mimeType: 'application/json', export: exportMindMapJson },
+];
+
+// =========================================================
+// MANDALA EXPORTERS
+// =========================================================
+// Spatial exports lay the chart out as the 9x9 square it is on screen:
+// row r / column c is cell (r % 3) * 3 + c % 3 of grid floor(r / 3) * 3 + floor(c / 3).
+
+export const mandalaToRows = (data: MandalaChartData): string[][] =>
+    Array.from({ length: 9 }).map((_, r) =>
+        Array.from({ length: 9 }).map((_, c) => {
+            const gridIndex = Math.floor(r / 3) * 3 + Math.floor(c / 3);
+            const grid = gridIndex === 4 ? data.centerGrid : data.surroundingGrids[gridIndex];
+            return grid.cells[(r % 3) * 3 + (c % 3)].text;
+        })
+    );
+
+// RFC 4180 quoting; spreadsheets accept the same quoting in TSV for cells with tabs or line breaks
+const quoteField = (text: string, delimiter: string) =>
+    text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+export const exportMandalaDelimited = (data: MandalaChartData, delimiter: ',' | '\t'): string =>
+    mandalaToRows(data).map(row => row.map(text => quoteField(text, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Self-contained page (inline styles, no scripts) that prints the chart on one landscape page
+export const exportMandalaHtml = (data: MandalaChartData, title: string): string => {
+    const rows = mandalaToRows(data).map((row, r) => {
+        const cells = row.map((text, c) => {
+            const classes = [
+                r % 3 === 1 && c % 3 === 1 ? 'goal' : '',
+                r >= 3 && r < 6 && c >= 3 && c < 6 ? 'core' : '',
+                c % 3 === 0 ? 'bl' : '',
+                r % 3 === 0 ? 'bt' : '',
+            ].filter(Boolean).join(' ');
+            return `<td${classes ? ` class="${classes}"` : ''}>${escapeHtml(text).replace(/\n/g, '<br>')}</td>`;
+        });
+        return `<tr>${cells.join('')}</tr>`;
+    });
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: landscape; margin: 10mm; }
+  body { font-family: system-ui, sans-serif; color: #1e293b; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 12px; }
+  table { border-collapse: collapse; table-layout: fixed; width: 100%; max-width: 1100px; border: 3px solid #334155; }
+  td { border: 1px solid #cbd5e1; width: 11.11%; height: 64px; padding: 4px; font-size: 12px; text-align: center; vertical-align: middle; word-break: break-word; }
+  td.bl { border-left: 3px solid #334155; }
+  td.bt { border-top: 3px solid #334155; }
+  td.goal { background: #fff7ed; font-weight: bold; }
+  td.core { background: #eff6ff; }
+  td.core.goal { background: #fed7aa; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<table>
+${rows.join('\n')}
+</table>
+</body>
+</html>
+`;
+};
+
+export const exportMandalaJson = (data: MandalaChartData): string =>
+    JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, kind: 'mandala', data }, null, 2);
+
+export const MANDALA_EXPORTERS: DocumentExporter<MandalaChartData>[] = [
+    { id: 'text', label: 'Text (Markdown)', extension: 'md', mimeType: 'text/markdown', export: exportMandala },
+    { id: 'csv', label: 'CSV (9×9)', extension: 'csv', mimeType: 'text/csv', export: (data) => exportMandalaDelimited(data, ',') },
+    { id: 'tsv', label: 'TSV (9×9)', extension: 'tsv', mimeType: 'text/tab-separated-values', export: (data) => exportMandalaDelimited(data, '\t') },
+    { id: 'html', label: 'HTML Table', extension: 'html', mimeType: 'text/html', export: exportMandalaHtml },
+    { id: 'json', label: 'JSON (lossless)', extension: 'json', mimeType: 'application/json', export: exportMandalaJson },
+];
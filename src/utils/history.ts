@@ -0,0 +1,77 @@
+// =========================================================
+// UNDO / REDO HISTORY
+// =========================================================
+// Snapshot based history shared by the Mind Map and Mandala hooks.
+// Every entry is a full (immutable) copy of the document, which keeps undo trivial
+// and is cheap enough for the document sizes we deal with.
+
+export const HISTORY_LIMIT = 100;
+
+// Consecutive edits with the same group key inside this window collapse into one step
+// (e.g. typing "Hello" into a node is a single undo, not five).
+export const HISTORY_GROUP_WINDOW_MS = 1000;
+
+// The undo stack of a document is persisted next to it under this key
+export const historyStorageKey = (storageKey: string) => `${storageKey}-history`;
+
+export interface History<T> {
+    past: T[];
+    present: T;
+    future: T[];
+    group?: string; // Group key of the last pushed edit
+    groupedAt?: number; // Timestamp of the last pushed edit
+}
+
+export interface PushOptions {
+    group?: string;
+}
+
+export const createHistory = <T>(present: T): History<T> => ({
+    past: [],
+    present,
+    future: [],
+});
+
+export const pushHistory = <T>(history: History<T>, next: T, options: PushOptions = {}, now = Date.now()): History<T> => {
+    if (next === history.present) return history;
+
+    const { group } = options;
+    const canMerge = group !== undefined
+        && history.group === group
+        && history.groupedAt !== undefined
+        && now - history.groupedAt < HISTORY_GROUP_WINDOW_MS
+        && history.future.length === 0;
+
+    if (canMerge) {
+        // Same burst of edits: replace the present, keep the step that led here
+        return { ...history, present: next, groupedAt: now };
+    }
+
+    return {
+        past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+        group,
+        groupedAt: now,
+    };
+};
+
+export const undoHistory = <T>(history: History<T>): History<T> => {
+    if (history.past.length === 0) return history;
+    const previous = history.past[history.past.length - 1];
+    return {
+        past: history.past.slice(0, -1),
+        present: previous,
+        future: [history.present, ...history.future],
+    };
+};
+
+export const redoHistory = <T>(history: History<T>): History<T> => {
+    if (history.future.length === 0) return history;
+    const [next, ...rest] = history.future;
+    return {
+        past: [...history.past, history.present],
+        present: next,
+        future: rest,
+    };
+};
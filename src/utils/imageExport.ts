@@ -0,0 +1,271 @@
+import type { MindMapNode, MandalaChartData } from '../types';
+import { layoutMindMap } from './layout';
+import type { MindMapLayout } from './layout';
+
+// =========================================================
+// IMAGE EXPORT (SVG / PNG)
+// =========================================================
+// The images are drawn from the document data, not captured from the DOM: the output does not
+// depend on scroll position or what is selected, and nothing has to be loaded from a server.
+// PNG is the same SVG rasterized through a canvas.
+
+export interface ImageExportOptions {
+    scale: number; // 1 = one SVG unit per pixel
+    background: 'transparent' | 'white';
+}
+
+export interface SvgImage {
+    svg: string;
+    width: number; // Output size in pixels (scale applied)
+    height: number;
+}
+
+// Same palette as index.css (pop theme) and the Tailwind classes used by the views
+const COLORS = {
+    text: '#2d3748',
+    border: '#cbd5e0',
+    surface: '#ffffff',
+    cellBg: '#f0f4f8',
+    slate200: '#e2e8f0',
+    slate300: '#cbd5e1',
+    slate600: '#475569',
+    blue: '#4299e1',
+    blueDark: '#3182ce',
+    orange: '#ed8936',
+    orangeDark: '#dd6b20',
+    orange50: '#fff7ed',
+    orange100: '#ffedd5',
+    orange200: '#fed7aa',
+};
+
+const FONT_FAMILY = `"M PLUS Rounded 1c", ui-rounded, "Hiragino Maru Gothic ProN", Quicksand, sans-serif`;
+
+const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// =========================================================
+// TEXT MEASUREMENT
+// =========================================================
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const measureText = (text: string, font: string): number => {
+    measureContext ??= document.createElement('canvas').getContext('2d');
+    if (!measureContext) return text.length * 8; // No canvas support: rough estimate
+    measureContext.font = font;
+    return measureContext.measureText(text).width;
+};
+
+// Breaks text into lines no wider than maxWidth. Breaks at spaces when possible,
+// otherwise between characters (Japanese has no spaces). Overflowing lines end in "…".
+const wrapText = (text: string, maxWidth: number, font: string, maxLines: number): string[] => {
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+        let line = '';
+        for (const char of paragraph) {
+            if (line !== '' && measureText(line + char, font) > maxWidth) {
+                const lastSpace = line.lastIndexOf(' ');
+                if (char !== ' ' && lastSpace > 0) {
+                    lines.push(line.slice(0, lastSpace));
+                    line = line.slice(lastSpace + 1);
+                } else {
+                    lines.push(line);
+                    line = '';
+                }
+                if (char === ' ') continue;
+            }
+            line += char;
+        }
+        lines.push(line);
+    }
+
+    if (lines.length <= maxLines) return lines;
+    const kept = lines.slice(0, maxLines);
+    let last = kept[maxLines - 1];
+    while (last !== '' && measureText(`${last}…`, font) > maxWidth) last = last.slice(0, -1);
+    kept[maxLines - 1] = `${last}…`;
+    return kept;
+};
+
+// Vertically centered multi-line text around (cx, cy)
+const textBlock = (lines: string[], cx: number, cy: number, fontSize: number, lineHeight: number, attributes: string) => {
+    const top = cy - ((lines.length - 1) * lineHeight) / 2;
+    const tspans = lines
+        .map((line, i) => `<tspan x="${cx}" y="${top + i * lineHeight}">${escapeXml(line)}</tspan>`)
+        .join('');
+    return `<text font-size="${fontSize}" text-anchor="middle" dominant-baseline="central" ${attributes}>${tspans}</text>`;
+};
+
+const wrapSvg = (content: string, width: number, height: number, options: ImageExportOptions): SvgImage => {
+    const background = options.background === 'white' ? `<rect width="${width}" height="${height}" fill="#ffffff"/>` : '';
+    const scaledWidth = Math.ceil(width * options.scale);
+    const scaledHeight = Math.ceil(height * options.scale);
+    return {
+        svg: `<svg xmlns="http://www.w3.org/2000/svg" width="${scaledWidth}" height="${scaledHeight}" viewBox="0 0 ${width} ${height}" font-family='${FONT_FAMILY}'>${background}${content}</svg>`,
+        width: scaledWidth,
+        height: scaledHeight,
+    };
+};
+
+// =========================================================
+// MIND MAP
+// =========================================================
+
+const NODE_FONT = `bold 14px ${FONT_FAMILY}`;
+const NODE_MIN_WIDTH = 120; // min-w-[120px] / max-w-[240px] of NodeView
+const NODE_MAX_WIDTH = 240;
+const NODE_PADDING_X = 18;
+const NODE_PADDING_Y = 12;
+const NODE_LINE_HEIGHT = 18;
+const NODE_MAX_LINES = 6;
+const MARGIN = 24;
+
+interface MeasuredNode {
+    lines: string[];
+    width: number;
+    height: number;
+}
+
+// Same box as a NodeView card with the same text
+const measureNode = (node: MindMapNode): MeasuredNode => {
+    const lines = wrapText(node.text || ' ', NODE_MAX_WIDTH - NODE_PADDING_X * 2, NODE_FONT, NODE_MAX_LINES);
+    const textWidth = Math.max(...lines.map(line => measureText(line, NODE_FONT)));
+    return {
+        lines,
+        width: Math.min(NODE_MAX_WIDTH, Math.max(NODE_MIN_WIDTH, textWidth + NODE_PADDING_X * 2)),
+        height: lines.length * NODE_LINE_HEIGHT + NODE_PADDING_Y * 2,
+    };
+};
+
+// Uses the layout engine of the canvas, so pinned nodes and the chosen layout look the same
+export const renderMindMapSvg = (root: MindMapNode, options: ImageExportOptions, layout: MindMapLayout = 'right'): SvgImage => {
+    const measured = new Map<string, MeasuredNode>();
+    const getMeasured = (node: MindMapNode) => {
+        if (!measured.has(node.id)) measured.set(node.id, measureNode(node));
+        return measured.get(node.id)!;
+    };
+    const { boxes, edges, bounds } = layoutMindMap(root, layout, getMeasured);
+    const offsetX = MARGIN - bounds.minX;
+    const offsetY = MARGIN - bounds.minY;
+
+    const connectors = edges.map(edge =>
+        `<path d="${edge.path}" fill="none" stroke="${COLORS.slate300}" stroke-width="3" stroke-linecap="round"/>`);
+    const nodes: string[] = [];
+
+    const draw = (node: MindMapNode, isRoot: boolean) => {
+        const box = boxes.get(node.id);
+        if (!box) return;
+        const x = box.x - box.width / 2;
+        const y = box.y - box.height / 2;
+
+        nodes.push(`<rect x="${x}" y="${y}" width="${box.width}" height="${box.height}" rx="${Math.min(box.height / 2, 22)}" fill="${COLORS.surface}" stroke="${isRoot ? COLORS.blue : COLORS.slate200}" stroke-width="2"/>`);
+        nodes.push(textBlock(getMeasured(node).lines, box.x, box.y, 14, NODE_LINE_HEIGHT, `font-weight="bold" fill="${isRoot ? COLORS.blueDark : COLORS.slate600}"`));
+
+        // Same "+N" badge as the fold toggle of a collapsed node
+        if (node.isExpanded === false && node.children.length > 0) {
+            const bx = x + box.width - 4;
+            const by = y + box.height - 4;
+            nodes.push(`<rect x="${bx - 14}" y="${by - 11}" width="28" height="22" rx="11" fill="${COLORS.blue}" stroke="${COLORS.surface}" stroke-width="2"/>`);
+            nodes.push(`<text x="${bx}" y="${by}" font-size="11" font-weight="900" fill="#ffffff" text-anchor="middle" dominant-baseline="central">+${node.children.length}</text>`);
+        } else {
+            node.children.forEach(child => draw(child, false));
+        }
+    };
+    draw(root, true);
+
+    const content = `<g transform="translate(${offsetX} ${offsetY})">${connectors.join('')}${nodes.join('')}</g>`;
+    return wrapSvg(content, bounds.maxX - bounds.minX + MARGIN * 2, bounds.maxY - bounds.minY + MARGIN * 2, options);
+};
+
+// =========================================================
+// MANDALA CHART
+// =========================================================
+
+const CELL_SIZE = 96; // w-24 h-24
+const CELL_GAP = 4; // gap-1
+const GRID_PADDING = 8; // p-2
+const GRID_GAP = 16; // gap-4
+const GRID_SIZE = CELL_SIZE * 3 + CELL_GAP * 2 + GRID_PADDING * 2;
+const CELL_FONT_SIZE = 13;
+const CORE_FONT_SIZE = 17;
+
+export const renderMandalaSvg = (data: MandalaChartData, options: ImageExportOptions): SvgImage => {
+    const parts: string[] = [];
+
+    for (let gridIndex = 0; gridIndex < 9; gridIndex++) {
+        const isCenterGrid = gridIndex === 4;
+        const grid = isCenterGrid ? data.centerGrid : data.surroundingGrids[gridIndex];
+        const gx = MARGIN + (gridIndex % 3) * (GRID_SIZE + GRID_GAP);
+        const gy = MARGIN + Math.floor(gridIndex / 3) * (GRID_SIZE + GRID_GAP);
+
+        parts.push(isCenterGrid
+            ? `<rect x="${gx}" y="${gy}" width="${GRID_SIZE}" height="${GRID_SIZE}" rx="16" fill="${COLORS.orange50}" stroke="${COLORS.orange}" stroke-width="4"/>`
+            : `<rect x="${gx}" y="${gy}" width="${GRID_SIZE}" height="${GRID_SIZE}" rx="16" fill="${COLORS.surface}" stroke="${COLORS.slate200}" stroke-width="2"/>`);
+
+        grid.cells.forEach((cell, cellIndex) => {
+            const isCenterCell = cellIndex === 4;
+            const isCore = isCenterGrid && isCenterCell;
+            const x = gx + GRID_PADDING + (cellIndex % 3) * (CELL_SIZE + CELL_GAP);
+            const y = gy + GRID_PADDING + Math.floor(cellIndex / 3) * (CELL_SIZE + CELL_GAP);
+
+            const [fill, stroke, color] = isCore
+                ? [COLORS.orange, COLORS.orangeDark, '#ffffff']
+                : isCenterCell
+                    ? [COLORS.orange100, COLORS.orange200, COLORS.orangeDark]
+                    : [COLORS.cellBg, COLORS.border, COLORS.text];
+            parts.push(`<rect x="${x}" y="${y}" width="${CELL_SIZE}" height="${CELL_SIZE}" rx="12" fill="${fill}" stroke="${stroke}" stroke-width="2"/>`);
+
+            if (cell.text) {
+                const fontSize = isCore ? CORE_FONT_SIZE : CELL_FONT_SIZE;
+                const weight = isCore ? 900 : isCenterCell ? 'bold' : 500;
+                const lineHeight = Math.round(fontSize * 1.25);
+                const font = `${weight} ${fontSize}px ${FONT_FAMILY}`;
+                const lines = wrapText(cell.text, CELL_SIZE - 10, font, Math.floor((CELL_SIZE - 8) / lineHeight));
+                parts.push(textBlock(lines, x + CELL_SIZE / 2, y + CELL_SIZE / 2, fontSize, lineHeight, `font-weight="${weight}" fill="${color}"`));
+            }
+        });
+    }
+
+    const size = MARGIN * 2 + GRID_SIZE * 3 + GRID_GAP * 2;
+    return wrapSvg(parts.join(''), size, size, options);
+};
+
+// =========================================================
+// RASTERIZING
+// =========================================================
+
+// Browsers refuse (or silently blank) canvases beyond roughly these limits
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 64 * 1024 * 1024;
+
+export const svgToPngBlob = async (image: SvgImage): Promise<Blob> => {
+    if (image.width > MAX_CANVAS_SIDE || image.height > MAX_CANVAS_SIDE || image.width * image.height > MAX_CANVAS_AREA) {
+        throw new Error(`The image would be ${image.width} × ${image.height} px, which is too large for a PNG. Choose a smaller scale or export SVG.`);
+    }
+
+    const url = URL.createObjectURL(new Blob([image.svg], { type: 'image/svg+xml;charset=utf-8' }));
+    try {
+        const img = new Image();
+        await new Promise<void>((resolve, reject) => {
+            img.onload = () => resolve();
+            img.onerror = () => reject(new Error('The generated SVG could not be rendered'));
+            img.src = url;
+        });
+
+        const canvas = document.createElement('canvas');
+        canvas.width = image.width;
+        canvas.height = image.height;
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas is not supported in this browser');
+        context.drawImage(img, 0, 0, image.width, image.height);
+
+        return await new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+        });
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
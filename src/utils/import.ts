@@ -1,90 +1,248 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { MindMapNode, MandalaChartData, MandalaGridData } from '../types';
+import type { MindMapNode, MandalaCell, MandalaChartData, MandalaGridData, NodeMeta } from '../types';
+import { DocumentLoadError, mandalaCodec, mindMapCodec, sniffDocumentKind } from './schema';
+import type { DocumentCodec } from './schema';
+import { parseDetailLine, parseNodeLine } from './nodeMeta';
+import { parseCellContent } from './cellStatus';
 
 // =========================================================
-// MIND MAP PARSER
+// DIAGNOSTICS
 // =========================================================
+// Parsers never throw on odd input. They recover as well as they can and describe
+// every guess or dropped line here, so the Import dialog can show it before restoring.
 
-export const parseMindMap = (text: string): MindMapNode => {
-    const lines = text.split('\n').filter(line => line.trim() !== '');
-    if (lines.length === 0) {
-        return { id: uuidv4(), text: 'Root', children: [] };
-    }
-
-    // Heuristic: Detect indentation (Tab or Spaces)
-    // We assume the first line is Root (depth 0).
-    // If multiple roots appear top-level, we wrap them in a synthetic root or pick the first.
-    // Let's create a synthetic root if input has multiple top-level items.
+export interface ParseDiagnostic {
+    line: number; // 1-based line in the input, 0 = whole document
+    severity: 'error' | 'warning'; // error = content was lost, warning = content was reinterpreted
+    message: string;
+}
 
-    // Calculate depth for each line
-    const parsedLines = lines.map(line => {
-        // Remove bullet points like "- ", "* ", "+ "
-        // Match whitespace at start
-        const match = line.match(/^(\s*)([-+*]\s+)?(.*)/);
-        if (!match) return { depth: 0, text: line.trim() };
+export interface ParseResult<T> {
+    data: T;
+    diagnostics: ParseDiagnostic[];
+}
 
-        const headerIndent = match[1];
-        const content = match[3];
+export const hasErrors = (diagnostics: ParseDiagnostic[]) => diagnostics.some(d => d.severity === 'error');
 
-        // Depth calc: Assume 2 spaces or 1 tab = 1 level
-        const depth = headerIndent.replace(/\t/g, '  ').length / 2;
-        return { depth: Math.floor(depth), text: content };
-    });
+// =========================================================
+// MIND MAP PARSER
+// =========================================================
 
-    // Create Root
-    // If the first line has depth 0, use it. Otherwise create meaningful root.
+// One line of an outline, already resolved to a nesting level (0 = top level)
+interface OutlineItem {
+    level: number;
+    text: string;
+    collapsed: boolean;
+    lineNumber: number;
+    meta?: NodeMeta;
+}
+
+// Shared by the text based formats: turns a flat list of leveled items into a tree.
+// The first item is the root if it is at level 0, otherwise a synthetic "Root" is created.
+const buildOutlineTree = (items: OutlineItem[], diagnostics: ParseDiagnostic[]): MindMapNode => {
     let root: MindMapNode;
     let startIndex = 0;
 
-    if (parsedLines[0].depth === 0) {
-        root = { id: uuidv4(), text: parsedLines[0].text, children: [] };
+    if (items[0].level === 0) {
+        root = { id: uuidv4(), text: items[0].text, children: [], ...items[0].meta };
+        if (items[0].collapsed) root.isExpanded = false;
         startIndex = 1;
     } else {
         root = { id: uuidv4(), text: 'Root', children: [] };
+        diagnostics.push({ line: items[0].lineNumber, severity: 'warning', message: 'First line is indented, a synthetic "Root" node was created' });
     }
 
-    const stack: { node: MindMapNode; depth: number }[] = [{ node: root, depth: root === lines[0] as any ? 0 : -1 }];
-    // Fix logic: if we created explicit root from first line, stack starts with it at depth 0.
-    // If synthetic root, it effectively has depth -1.
+    // The root sits at level -1 for calculation purposes, so any level >= 0 can attach to it.
+    const stack: { node: MindMapNode; level: number }[] = [{ node: root, level: -1 }];
 
-    if (parsedLines[0].depth === 0) {
-        // Root is already set
-    } else {
-        // Using synthetic root (depth -1 for calculation purposes to accept depth 0 or more as children)
-        stack[0].depth = -1;
-    }
+    for (let i = startIndex; i < items.length; i++) {
+        const { level, text, collapsed, lineNumber, meta } = items[i];
+        const newNode: MindMapNode = { id: uuidv4(), text: text, children: [], ...meta };
+        if (collapsed) newNode.isExpanded = false;
 
-    for (let i = startIndex; i < parsedLines.length; i++) {
-        const { depth, text } = parsedLines[i];
-        const newNode: MindMapNode = { id: uuidv4(), text: text, children: [] };
+        if (startIndex === 1 && level === 0) {
+            diagnostics.push({ line: lineNumber, severity: 'warning', message: `Second top-level item "${text}" attached as a child of the root` });
+        }
 
-        // Find parent: The last node in stack with depth < current depth
-        while (stack.length > 0 && stack[stack.length - 1].depth >= depth) {
+        // Find parent: The last node in stack with level < current level
+        while (stack.length > 1 && stack[stack.length - 1].level >= level) {
             stack.pop();
         }
 
         const parentWrapper = stack[stack.length - 1];
-        if (parentWrapper) {
-            parentWrapper.node.children.push(newNode);
-        } else {
-            // Should not happen if logic is correct for single root, 
-            // but if multiple roots, this attaches to nothing. Fallback: attach to root?
-            // If stack is empty, it means this node is top level or weird indentation.
-            // But we enforced a root at start.
+        // A root taken from the first line really is at level 0 (a synthetic root has no real level)
+        const isRootParent = stack.length === 1;
+        const parentLevel = isRootParent ? 0 : parentWrapper.level;
+        if (level > parentLevel + 1 && !(isRootParent && startIndex === 0)) {
+            diagnostics.push({ line: lineNumber, severity: 'warning', message: `Nesting jumps ${level - parentLevel} levels at once, attached to "${parentWrapper.node.text}"` });
         }
+        parentWrapper.node.children.push(newNode);
 
-        stack.push({ node: newNode, depth });
+        stack.push({ node: newNode, level });
     }
 
     return root;
 };
 
+// A tab counts as this many spaces when a line mixes both
+const TAB_WIDTH = 4;
+
+// Bullet ("- ", "* ", "+ ", "1. ") followed by the content. "+" marks a collapsed node (see exportMindMap).
+const LIST_ITEM_PATTERN = /^(\s*)([-+*]\s+|\d+[.)]\s+)?(.*)/;
+
+// Resolves indentation widths to levels relative to the enclosing lines, so 2-space, 4-space,
+// tab and inconsistent indentation all nest the way they look.
+const createIndentTracker = (diagnostics: ParseDiagnostic[]) => {
+    // Widths of the currently open levels, column 0 is always open
+    const widths = [0];
+
+    return (indent: string, lineNumber: number): number => {
+        if (indent.includes('\t') && indent.includes(' ')) {
+            diagnostics.push({ line: lineNumber, severity: 'warning', message: `Mixed tabs and spaces in indentation (1 tab = ${TAB_WIDTH} spaces)` });
+        }
+        const width = indent.replace(/\t/g, ' '.repeat(TAB_WIDTH)).length;
+
+        let dedented = false;
+        while (widths[widths.length - 1] > width) {
+            widths.pop();
+            dedented = true;
+        }
+        if (widths[widths.length - 1] < width) {
+            if (dedented) {
+                diagnostics.push({ line: lineNumber, severity: 'warning', message: 'Indentation does not line up with any outer item, nested under the closest one' });
+            }
+            widths.push(width);
+        }
+        return widths.length - 1;
+    };
+};
+
+export const parseMindMap = (text: string): ParseResult<MindMapNode> => {
+    const diagnostics: ParseDiagnostic[] = [];
+    const levelOf = createIndentTracker(diagnostics);
+
+    const items: OutlineItem[] = [];
+    text.split('\n').forEach((line, i) => {
+        if (line.trim() === '') return;
+        // Keep the original (1-based) line numbers for diagnostics
+        const lineNumber = i + 1;
+        const match = line.match(LIST_ITEM_PATTERN)!;
+
+        // "> note" and "<url>" lines add to the node above, they do not take part in the nesting
+        const detail = match[2] ? null : parseDetailLine(match[3]);
+        if (detail) {
+            const owner = items[items.length - 1];
+            if (!owner) {
+                diagnostics.push({ line: lineNumber, severity: 'warning', message: 'Note or link before the first node, ignored' });
+            } else if ('note' in detail) {
+                owner.meta = { ...owner.meta, note: owner.meta?.note !== undefined ? `${owner.meta.note}\n${detail.note}` : detail.note };
+            } else {
+                owner.meta = { ...owner.meta, links: [...(owner.meta?.links ?? []), detail.link] };
+            }
+            return;
+        }
+
+        const { text: nodeText, meta } = parseNodeLine(match[3]);
+        items.push({
+            level: levelOf(match[1], lineNumber),
+            text: nodeText,
+            collapsed: match[2]?.startsWith('+') ?? false,
+            lineNumber,
+            meta,
+        });
+    });
+
+    if (items.length === 0) {
+        diagnostics.push({ line: 0, severity: 'error', message: 'No content to import' });
+        return { data: { id: uuidv4(), text: 'Root', children: [] }, diagnostics };
+    }
+
+    return { data: buildOutlineTree(items, diagnostics), diagnostics };
+};
+
+// =========================================================
+// MARKDOWN HEADINGS PARSER
+// =========================================================
+// "#" headings nest by their level, bullet lists below a heading become its children.
+// Paragraph text has no place in a mind map and is skipped.
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+
+export const parseMarkdownHeadings = (text: string): ParseResult<MindMapNode> => {
+    const diagnostics: ParseDiagnostic[] = [];
+    const lines = text.split('\n');
+
+    // Heading levels are relative to the biggest heading actually used
+    let minHeading = 7;
+    let inFence = false;
+    lines.forEach(line => {
+        if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+        const match = !inFence && line.match(HEADING_PATTERN);
+        if (match) minHeading = Math.min(minHeading, match[1].length);
+    });
+
+    const items: OutlineItem[] = [];
+    let headingLevel = -1; // Level of the current heading, -1 before the first one
+    let levelOf = createIndentTracker(diagnostics);
+    let inParagraph = false;
+    inFence = false;
+
+    lines.forEach((line, i) => {
+        const lineNumber = i + 1;
+        if (/^\s*(```|~~~)/.test(line)) {
+            if (!inFence) diagnostics.push({ line: lineNumber, severity: 'warning', message: 'Code block skipped' });
+            inFence = !inFence;
+            return;
+        }
+        if (inFence) return;
+        if (line.trim() === '') {
+            inParagraph = false;
+            return;
+        }
+
+        const heading = line.match(HEADING_PATTERN);
+        if (heading) {
+            headingLevel = heading[1].length - minHeading;
+            levelOf = createIndentTracker(diagnostics); // Lists restart below every heading
+            items.push({ level: headingLevel, text: heading[2], collapsed: false, lineNumber });
+            inParagraph = false;
+            return;
+        }
+
+        const match = line.match(LIST_ITEM_PATTERN)!;
+        if (!match[2]) {
+            // Only report the first line of every paragraph
+            if (!inParagraph) diagnostics.push({ line: lineNumber, severity: 'warning', message: 'Paragraph text is not a heading or list item, skipped' });
+            inParagraph = true;
+            return;
+        }
+        inParagraph = false;
+        items.push({
+            level: headingLevel + 1 + levelOf(match[1], lineNumber),
+            text: match[3],
+            collapsed: match[2].startsWith('+'),
+            lineNumber,
+        });
+    });
+
+    if (items.length === 0) {
+        diagnostics.push({ line: 0, severity: 'error', message: 'No headings or list items found' });
+        return { data: { id: uuidv4(), text: 'Root', children: [] }, diagnostics };
+    }
+
+    return { data: buildOutlineTree(items, diagnostics), diagnostics };
+};
+
 
 // =========================================================
 // MANDALA CHART PARSER
 // =========================================================
 
-export const parseMandala = (text: string): MandalaChartData => {
+export const parseMandala = (text: string): ParseResult<MandalaChartData> => {
+    const diagnostics: ParseDiagnostic[] = [];
+    const warn = (line: number, message: string) => diagnostics.push({ line, severity: 'warning', message });
+    const fail = (line: number, message: string) => diagnostics.push({ line, severity: 'error', message });
+
     // Initialize empty data
     const data: MandalaChartData = {
         centerGrid: createEmptyGrid(),
@@ -98,6 +256,17 @@ export const parseMandala = (text: string): MandalaChartData => {
     const lines = text.split('\n');
     let gridTarget: MandalaGridData | null = null;
     let processedCenterGrid = false; // Flag to prevent overwriting center grid with legacy duplicate headers
+    let gridCount = 0;
+    let sectionSeen = false; // Any "## " header so far, known or not
+    let filledIndices = new Set<number>(); // Explicit indices seen in the current section (duplicate detection)
+    let lastCell: MandalaCell | null = null; // Owner of the "> note" lines that follow an item
+
+    // Replaces the cell (keeping its id), so a duplicate index does not inherit the old note
+    const fillCell = (grid: MandalaGridData, index: number, content: string) => {
+        const { text, meta } = parseCellContent(content);
+        grid.cells[index] = { id: grid.cells[index].id, text, ...meta };
+        return grid.cells[index];
+    };
 
     // We expect headers: "# Title", "## Center Grid", "## Top Left Grid" etc.
     // Standard names from export.ts
@@ -107,8 +276,9 @@ export const parseMandala = (text: string): MandalaChartData => {
         'bottom left': 6, 'bottom center': 7, 'bottom right': 8
     };
 
-    for (const line of lines) {
-        const trimmed = line.trim();
+    for (let i = 0; i < lines.length; i++) {
+        const lineNumber = i + 1;
+        const trimmed = lines[i].trim();
         if (!trimmed) continue;
 
         // Check for Header
@@ -121,6 +291,9 @@ export const parseMandala = (text: string): MandalaChartData => {
         if (trimmed.startsWith('## ')) {
             // Section Header
             const headerText = trimmed.replace(/^##\s+/, '').toLowerCase();
+            filledIndices = new Set();
+            sectionSeen = true;
+            lastCell = null;
 
             // Determine grid
             // Support both new "Center Grid" and old "Main Grid" formats.
@@ -131,9 +304,11 @@ export const parseMandala = (text: string): MandalaChartData => {
                     // This is likely a legacy export containing a duplicate "Center Grid" placeholder.
                     // Ignore it to prevent overwriting real data with empty cells.
                     gridTarget = null;
+                    warn(lineNumber, 'Duplicate center grid section ignored');
                 } else {
                     gridTarget = data.centerGrid;
                     processedCenterGrid = true;
+                    gridCount++;
                 }
             } else {
                 // Find position
@@ -163,51 +338,83 @@ export const parseMandala = (text: string): MandalaChartData => {
                     // to prevent overwriting the real Center Grid with empty placeholder data.
                     if (foundIndex === 4) {
                         gridTarget = null;
+                        warn(lineNumber, `"${trimmed}" is the center placeholder, its items are ignored (use "## Center Grid")`);
                     } else {
                         gridTarget = data.surroundingGrids[foundIndex];
+                        gridCount++;
                     }
                 } else {
                     gridTarget = null;
+                    fail(lineNumber, `Unknown grid header "${trimmed}", its items are ignored`);
                 }
             }
             continue;
         }
 
+        // "> note" lines add to the cell above
+        const detail = parseDetailLine(trimmed);
+        if (detail && 'note' in detail) {
+            if (lastCell) {
+                lastCell.note = lastCell.note !== undefined ? `${lastCell.note}\n${detail.note}` : detail.note;
+            } else if (gridTarget || !sectionSeen) {
+                warn(lineNumber, 'Note line without an item above it, ignored');
+            }
+            continue;
+        }
+
         // List Item
-        if (gridTarget && trimmed.match(/^[-*]\s+/)) {
-            // "- [0] text" or "- (0) text" or just "- text"
-            // Parse index if present
-            const match = trimmed.match(/^[-*]\s+(?:\[(\d+)\]|\((\d+)\))?\s*(.*)/);
-            if (match) {
-                const indexStr = match[1] || match[2];
-                const content = match[3];
-
-                if (indexStr) {
-                    const idx = parseInt(indexStr, 10);
-                    if (idx >= 0 && idx < 9) {
-                        gridTarget.cells[idx].text = content;
-                    }
+        const isListItem = /^[-*]\s+/.test(trimmed);
+        if (!isListItem) {
+            warn(lineNumber, 'Line is neither a "## Grid" header nor a "- [i] Text" item, ignored');
+            continue;
+        }
+        lastCell = null; // The notes of an ignored item are ignored with it
+        if (!gridTarget) {
+            // Already reported on the header unless the item comes before any header
+            if (!sectionSeen) fail(lineNumber, 'Item outside of any grid section, ignored');
+            continue;
+        }
+
+        // "- [0] text" or "- (0) text" or just "- text"
+        // Parse index if present
+        const match = trimmed.match(/^[-*]\s+(?:\[(\d+)\]|\((\d+)\))?\s*(.*)/);
+        if (match) {
+            const indexStr = match[1] || match[2];
+            const content = match[3];
+
+            if (indexStr) {
+                const idx = parseInt(indexStr, 10);
+                if (idx >= 0 && idx < 9) {
+                    if (filledIndices.has(idx)) warn(lineNumber, `Index [${idx}] appears twice in this grid, the later value wins`);
+                    filledIndices.add(idx);
+                    lastCell = fillCell(gridTarget, idx, content);
                 } else {
-                    // No index provided?
-                    // We could auto-increment if we tracked it, but standard export provides index.
-                    // If manual input, maybe fill empty slots?
-                    // For now, strict mode: require index or ignore? 
-                    // Let's retry: simple fill first empty slot? 
-                    // Or just ignore without index to ensure accuracy?
-                    // User said "Review rules: [index] or (index) is optional".
-                    // If optional, we fill sequentially 0..8
-                    // But we need to know current fill count for this grid.
-                    // Let's implement sequential fill.
-                    const firstEmpty = gridTarget.cells.findIndex(c => c.text === '');
-                    if (firstEmpty !== -1) {
-                        gridTarget.cells[firstEmpty].text = content;
-                    }
+                    fail(lineNumber, `Cell index [${idx}] is out of range (0-8), item ignored`);
+                }
+            } else {
+                // No index provided?
+                // We could auto-increment if we tracked it, but standard export provides index.
+                // If manual input, maybe fill empty slots?
+                // For now, strict mode: require index or ignore? 
+                // Let's retry: simple fill first empty slot? 
+                // Or just ignore without index to ensure accuracy?
+                // User said "Review rules: [index] or (index) is optional".
+                // If optional, we fill sequentially 0..8
+                // But we need to know current fill count for this grid.
+                // Let's implement sequential fill.
+                const firstEmpty = gridTarget.cells.findIndex(c => c.text === '');
+                if (firstEmpty !== -1) {
+                    lastCell = fillCell(gridTarget, firstEmpty, content);
+                } else {
+                    fail(lineNumber, 'Grid is already full, item without index ignored');
                 }
             }
         }
     }
 
-    return data;
+    if (gridCount === 0) fail(0, 'No "## ... Grid" sections found');
+
+    return { data, diagnostics };
 };
 
 const createEmptyGrid = (): MandalaGridData => ({
@@ -215,3 +422,353 @@ const createEmptyGrid = (): MandalaGridData => ({
     title: '',
     cells: Array(9).fill(null).map(() => ({ id: uuidv4(), text: '' }))
 });
+
+const OUTER_GRID_INDICES = [0, 1, 2, 3, 5, 6, 7, 8];
+
+// =========================================================
+// MANDALA TABLE PARSER (9x9 CSV / TSV)
+// =========================================================
+// The inverse of exportMandalaDelimited: a spreadsheet range laid out like the chart on screen.
+
+interface TableRow {
+    fields: string[];
+    lineNumber: number; // Line the row starts on (quoted fields may span lines)
+}
+
+// Tabs win (spreadsheet paste), otherwise whichever of "," and ";" (European Excel) is more common
+const detectDelimiter = (text: string): string => {
+    if (text.includes('\t')) return '\t';
+    const count = (char: string) => text.split(char).length - 1;
+    return count(';') > count(',') ? ';' : ',';
+};
+
+// RFC 4180: quoted fields may contain delimiters, line breaks and "" for a quote
+const parseDelimited = (text: string, delimiter: string): TableRow[] => {
+    const rows: TableRow[] = [];
+    let fields: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let line = 1;
+    let rowLine = 1;
+
+    const endRow = () => {
+        fields.push(field);
+        // Blank lines carry no cells
+        if (fields.length > 1 || fields[0] !== '') rows.push({ fields, lineNumber: rowLine });
+        fields = [];
+        field = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                if (char === '\n') line++;
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            fields.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            endRow();
+            line++;
+            rowLine = line;
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || fields.length > 0) endRow();
+    return rows;
+};
+
+const looksLikeMandalaTable = (text: string) => {
+    const rows = parseDelimited(text, detectDelimiter(text));
+    return rows.length >= 3 && rows.filter(row => row.fields.length === 9).length >= rows.length / 2;
+};
+
+export const parseMandalaTable = (text: string): ParseResult<MandalaChartData> => {
+    const diagnostics: ParseDiagnostic[] = [];
+    const data: MandalaChartData = {
+        centerGrid: createEmptyGrid(),
+        surroundingGrids: Array(9).fill(null).map(() => createEmptyGrid())
+    };
+
+    const rows = parseDelimited(text, detectDelimiter(text));
+    if (rows.length === 0) {
+        diagnostics.push({ line: 0, severity: 'error', message: 'No content to import' });
+        return { data, diagnostics };
+    }
+    if (rows.length < 9) {
+        diagnostics.push({ line: 0, severity: 'warning', message: `Only ${rows.length} of 9 rows found, the rest is left empty` });
+    }
+    rows.slice(9).forEach(row => {
+        if (row.fields.some(f => f.trim() !== '')) {
+            diagnostics.push({ line: row.lineNumber, severity: 'error', message: 'Row beyond the 9x9 chart ignored' });
+        }
+    });
+
+    // Sub-goals appear twice in the chart: around the core and in the middle of their own grid
+    const subGoalCopies = new Map<number, { text: string; lineNumber: number }>();
+
+    rows.slice(0, 9).forEach(({ fields, lineNumber }, r) => {
+        if (fields.slice(9).some(f => f.trim() !== '')) {
+            diagnostics.push({ line: lineNumber, severity: 'error', message: `Row has ${fields.length} columns, cells beyond the 9th ignored` });
+        }
+        fields.slice(0, 9).forEach((field, c) => {
+            const text = field.trim();
+            const gridIndex = Math.floor(r / 3) * 3 + Math.floor(c / 3);
+            const cellIndex = (r % 3) * 3 + (c % 3);
+            if (gridIndex === 4) {
+                data.centerGrid.cells[cellIndex].text = text;
+            } else if (cellIndex === 4) {
+                subGoalCopies.set(gridIndex, { text, lineNumber });
+            } else {
+                data.surroundingGrids[gridIndex].cells[cellIndex].text = text;
+            }
+        });
+    });
+
+    // Keep the sync invariant of useMandalaData.updateCell; a copy filled in only one place is fine
+    subGoalCopies.forEach(({ text, lineNumber }, gridIndex) => {
+        const coreCell = data.centerGrid.cells[gridIndex];
+        if (coreCell.text === '') {
+            coreCell.text = text;
+        } else if (text !== '' && text !== coreCell.text) {
+            diagnostics.push({ line: lineNumber, severity: 'warning', message: `Sub-goal "${text}" differs from "${coreCell.text}" in the core grid, the core grid wins` });
+        }
+    });
+    OUTER_GRID_INDICES.forEach(gridIndex => {
+        data.surroundingGrids[gridIndex].cells[4].text = data.centerGrid.cells[gridIndex].text;
+    });
+
+    return { data, diagnostics };
+};
+
+// =========================================================
+// XML FORMATS (OPML, FREEMIND / FREEPLANE)
+// =========================================================
+// XML has no usable line numbers after parsing, so structural problems are reported for the whole document.
+
+const parseXml = (text: string, diagnostics: ParseDiagnostic[]): Document | null => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    const error = doc.getElementsByTagName('parsererror')[0];
+    if (!error) return doc;
+
+    // Chrome: "error on line 3 at column 5: ...", Firefox: "... Line Number 3, Column 5"
+    const message = error.textContent ?? '';
+    const line = message.match(/line(?: number)?\s+(\d+)/i);
+    const detail = message.match(/error on line \d+ at column \d+: ([^\n]+)/)?.[1] ?? message.split('\n')[0];
+    diagnostics.push({ line: line ? parseInt(line[1], 10) : 0, severity: 'error', message: `Invalid XML: ${detail.trim()}` });
+    return null;
+};
+
+const childElements = (el: Element, tagName: string) =>
+    Array.from(el.children).filter(child => child.tagName.toLowerCase() === tagName);
+
+const emptyRoot = (): MindMapNode => ({ id: uuidv4(), text: 'Root', children: [] });
+
+export const parseOpml = (text: string): ParseResult<MindMapNode> => {
+    const diagnostics: ParseDiagnostic[] = [];
+    const doc = parseXml(text, diagnostics);
+    if (!doc) return { data: emptyRoot(), diagnostics };
+
+    const body = doc.getElementsByTagName('body')[0];
+    const outlines = body ? childElements(body, 'outline') : [];
+    if (outlines.length === 0) {
+        diagnostics.push({ line: 0, severity: 'error', message: 'No <outline> elements found in <body>' });
+        return { data: emptyRoot(), diagnostics };
+    }
+
+    const toNode = (el: Element): MindMapNode => ({
+        id: uuidv4(),
+        text: el.getAttribute('text') ?? el.getAttribute('title') ?? '',
+        children: childElements(el, 'outline').map(toNode),
+    });
+
+    if (outlines.length === 1) return { data: toNode(outlines[0]), diagnostics };
+
+    // Several top-level outlines: the document title becomes the root
+    const title = doc.getElementsByTagName('title')[0]?.textContent?.trim();
+    diagnostics.push({ line: 0, severity: 'warning', message: `${outlines.length} top-level outlines grouped under "${title || 'Root'}"` });
+    return { data: { id: uuidv4(), text: title || 'Root', children: outlines.map(toNode) }, diagnostics };
+};
+
+export const parseFreeMind = (text: string): ParseResult<MindMapNode> => {
+    const diagnostics: ParseDiagnostic[] = [];
+    const doc = parseXml(text, diagnostics);
+    if (!doc) return { data: emptyRoot(), diagnostics };
+
+    const rootElement = childElements(doc.documentElement, 'node')[0];
+    if (doc.documentElement.tagName !== 'map' || !rootElement) {
+        diagnostics.push({ line: 0, severity: 'error', message: 'Not a FreeMind map (expected <map><node ...>)' });
+        return { data: emptyRoot(), diagnostics };
+    }
+
+    // Plain nodes use TEXT, formatted Freeplane nodes carry HTML in <richcontent TYPE="NODE">
+    const nodeText = (el: Element) => {
+        const plain = el.getAttribute('TEXT') ?? el.getAttribute('LOCALIZED_TEXT');
+        if (plain !== null) return plain;
+        const rich = childElements(el, 'richcontent').find(r => r.getAttribute('TYPE') === 'NODE');
+        return rich?.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+    };
+
+    const toNode = (el: Element): MindMapNode => {
+        const node: MindMapNode = {
+            id: uuidv4(),
+            text: nodeText(el),
+            children: childElements(el, 'node').map(toNode),
+        };
+        if (el.getAttribute('FOLDED') === 'true' && node.children.length > 0) node.isExpanded = false;
+        return node;
+    };
+
+    return { data: toNode(rootElement), diagnostics };
+};
+
+// =========================================================
+// JSON (LOSSLESS EXPORT)
+// =========================================================
+// Uses the saved-document codecs, so exports from older versions are migrated and invalid data is salvaged.
+
+const jsonError = (message: string) => ({ line: 0, severity: 'error' as const, message });
+
+// Like loading a saved document: validation problems are reported, then whatever is valid is salvaged
+const decodeDocument = <T>(codec: DocumentCodec<T>, text: string, diagnostics: ParseDiagnostic[]): T | null => {
+    try {
+        return codec.decode(text);
+    } catch (e) {
+        if (!(e instanceof DocumentLoadError)) throw e;
+        diagnostics.push(jsonError(e.message), ...e.details.map(jsonError));
+    }
+    const repaired = codec.repair(text);
+    if (repaired !== null) diagnostics.push({ line: 0, severity: 'warning', message: 'Invalid parts were repaired, check the preview' });
+    return repaired;
+};
+
+export const parseDocumentJson = (text: string): { result: ImportResult; diagnostics: ParseDiagnostic[] } => {
+    const diagnostics: ParseDiagnostic[] = [];
+    const failed = () => ({ result: { kind: 'mindmap' as const, data: emptyRoot() }, diagnostics });
+
+    try {
+        JSON.parse(text);
+    } catch (e) {
+        diagnostics.push(jsonError(`Invalid JSON: ${e instanceof Error ? e.message : String(e)}`));
+        return failed();
+    }
+
+    const kind = sniffDocumentKind(text);
+    if (kind === 'mandala') {
+        const data = decodeDocument(mandalaCodec, text, diagnostics);
+        return data ? { result: { kind, data }, diagnostics } : failed();
+    }
+    if (kind === 'mindmap') {
+        const data = decodeDocument(mindMapCodec, text, diagnostics);
+        return data ? { result: { kind, data }, diagnostics } : failed();
+    }
+    diagnostics.push(jsonError('Not a mind map or mandala chart document'));
+    return failed();
+};
+
+// =========================================================
+// FORMAT REGISTRY
+// =========================================================
+// Formats are tried in this order by auto-detection, the last one accepts anything.
+
+export type ImportResult =
+    | { kind: 'mindmap'; data: MindMapNode }
+    | { kind: 'mandala'; data: MandalaChartData };
+
+export interface ImportFormat {
+    id: string;
+    label: string;
+    extensions: string[]; // Used to preselect the format of an opened file
+    detect: (text: string) => boolean;
+    parse: (text: string) => { result: ImportResult; diagnostics: ParseDiagnostic[] };
+}
+
+const asMindMap = (parse: (text: string) => ParseResult<MindMapNode>) => (text: string) => {
+    const { data, diagnostics } = parse(text);
+    return { result: { kind: 'mindmap' as const, data }, diagnostics };
+};
+
+export const IMPORT_FORMATS: ImportFormat[] = [
+    {
+        id: 'json',
+        label: 'JSON (lossless export)',
+        extensions: ['json'],
+        detect: (text) => /^\s*\{/.test(text),
+        parse: parseDocumentJson,
+    },
+    {
+        id: 'mandala',
+        label: 'Mandala Chart (exported text)',
+        extensions: [],
+        // Mandala exports always contain a center grid section
+        detect: (text) => text.includes('## Center Grid') || text.includes('## Main Grid'),
+        parse: (text) => {
+            const { data, diagnostics } = parseMandala(text);
+            return { result: { kind: 'mandala', data }, diagnostics };
+        },
+    },
+    {
+        id: 'mandala-table',
+        label: 'Mandala Chart (9×9 CSV / TSV)',
+        extensions: ['csv', 'tsv'],
+        detect: looksLikeMandalaTable,
+        parse: (text) => {
+            const { data, diagnostics } = parseMandalaTable(text);
+            return { result: { kind: 'mandala', data }, diagnostics };
+        },
+    },
+    {
+        id: 'opml',
+        label: 'OPML',
+        extensions: ['opml'],
+        detect: (text) => /<opml[\s>]/i.test(text),
+        parse: asMindMap(parseOpml),
+    },
+    {
+        id: 'freemind',
+        label: 'FreeMind / Freeplane (.mm)',
+        extensions: ['mm'],
+        detect: (text) => /<map[\s>]/.test(text) && /<node[\s>]/.test(text),
+        parse: asMindMap(parseFreeMind),
+    },
+    {
+        id: 'markdown',
+        label: 'Markdown headings',
+        extensions: ['md', 'markdown'],
+        detect: (text) => /^#{1,6}\s+\S/m.test(text),
+        parse: asMindMap(parseMarkdownHeadings),
+    },
+    {
+        id: 'indented',
+        label: 'Indented text / bullet list',
+        extensions: ['txt'],
+        detect: () => true,
+        parse: asMindMap(parseMindMap),
+    },
+];
+
+export const detectImportFormat = (text: string): ImportFormat =>
+    IMPORT_FORMATS.find(format => format.detect(text))!;
+
+export const getImportFormat = (id: string): ImportFormat | undefined =>
+    IMPORT_FORMATS.find(format => format.id === id);
+
+// The format to preselect for an opened file. What the content is recognized as wins over the
+// extension (a mandala exported as .md is still a mandala); the extension only decides for content
+// that nothing but the catch-all format accepts.
+export const findImportFormatForFile = (fileName: string, text: string): ImportFormat | undefined => {
+    if (detectImportFormat(text) !== IMPORT_FORMATS[IMPORT_FORMATS.length - 1]) return undefined;
+    const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+    return IMPORT_FORMATS.find(format => format.extensions.includes(extension));
+};
@@ -0,0 +1,276 @@
+import type { MindMapNode, NodePosition } from '../types';
+
+// =========================================================
+// MIND MAP LAYOUT ENGINE
+// =========================================================
+// Places the visible nodes (folded branches are skipped) and draws the connectors between them.
+// Works on node centers with the root at (0, 0), so pinned positions stay valid when the tree
+// around them changes. Node sizes come from the caller: measured cards on screen, measured
+// text in the image export.
+
+export type MindMapLayout = 'right' | 'balanced' | 'radial' | 'org';
+
+export const MINDMAP_LAYOUTS: { id: MindMapLayout; label: string; icon: string }[] = [
+    { id: 'right', label: 'Tree', icon: '⊢' },
+    { id: 'balanced', label: 'Balanced', icon: '⟷' },
+    { id: 'radial', label: 'Radial', icon: '◎' },
+    { id: 'org', label: 'Org chart', icon: '⊤' },
+];
+
+export const isMindMapLayout = (value: unknown): value is MindMapLayout => MINDMAP_LAYOUTS.some(layout => layout.id === value);
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+// Center of the node plus its size
+export interface NodeBox extends Size {
+    x: number;
+    y: number;
+}
+
+export interface LayoutEdge {
+    parentId: string;
+    childId: string;
+    path: string; // SVG path data
+}
+
+export interface LayoutBounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+export interface MindMapLayoutResult {
+    boxes: Map<string, NodeBox>;
+    edges: LayoutEdge[];
+    bounds: LayoutBounds; // Around all boxes, without margin
+}
+
+const LEVEL_GAP = 64; // Horizontal trees: room for the connectors between the levels
+const SIBLING_GAP = 16;
+const ORG_LEVEL_GAP = 56;
+const ORG_SIBLING_GAP = 24;
+const RING_GAP = 260; // Radial: distance between the depth rings
+const RING_NODE_GAP = 48; // Radial: space between the nodes of a ring
+
+const getVisibleChildren = (node: MindMapNode) => (node.isExpanded === false ? [] : node.children);
+
+interface LayoutContext {
+    getSize: (node: MindMapNode) => Size;
+    boxes: Map<string, NodeBox>;
+}
+
+// =========================================================
+// TREES (right, balanced, org chart)
+// =========================================================
+// The same algorithm for both directions: children are stacked along the cross axis and every
+// parent is centered on its children. "main" is the axis the tree grows along.
+
+type Axis = 'horizontal' | 'vertical';
+
+const mainSize = (size: Size, axis: Axis) => (axis === 'horizontal' ? size.width : size.height);
+const crossSize = (size: Size, axis: Axis) => (axis === 'horizontal' ? size.height : size.width);
+
+const setBox = (ctx: LayoutContext, node: MindMapNode, main: number, cross: number, axis: Axis) => {
+    const size = ctx.getSize(node);
+    ctx.boxes.set(node.id, axis === 'horizontal'
+        ? { x: main, y: cross, ...size }
+        : { x: cross, y: main, ...size });
+};
+
+const shiftSubtree = (ctx: LayoutContext, node: MindMapNode, delta: number, axis: Axis) => {
+    const box = ctx.boxes.get(node.id);
+    if (box) {
+        if (axis === 'horizontal') box.y += delta;
+        else box.x += delta;
+    }
+    getVisibleChildren(node).forEach(child => shiftSubtree(ctx, child, delta, axis));
+};
+
+const getCross = (ctx: LayoutContext, node: MindMapNode, axis: Axis) => {
+    const box = ctx.boxes.get(node.id)!;
+    return axis === 'horizontal' ? box.y : box.x;
+};
+
+// Places the children of a node along the cross axis starting at `start`; returns where they end
+const placeChildren = (ctx: LayoutContext, children: MindMapNode[], parentMain: number, parentMainSize: number, start: number, direction: 1 | -1, axis: Axis): number => {
+    const levelGap = axis === 'horizontal' ? LEVEL_GAP : ORG_LEVEL_GAP;
+    const siblingGap = axis === 'horizontal' ? SIBLING_GAP : ORG_SIBLING_GAP;
+    let end = start;
+    children.forEach((child, i) => {
+        const childMain = parentMain + direction * (parentMainSize / 2 + levelGap + mainSize(ctx.getSize(child), axis) / 2);
+        end = placeTree(ctx, child, childMain, end + (i > 0 ? siblingGap : 0), direction, axis);
+    });
+    return end;
+};
+
+// Returns where the subtree ends along the cross axis
+const placeTree = (ctx: LayoutContext, node: MindMapNode, main: number, start: number, direction: 1 | -1, axis: Axis): number => {
+    const size = ctx.getSize(node);
+    const children = getVisibleChildren(node);
+    let end = placeChildren(ctx, children, main, mainSize(size, axis), start, direction, axis);
+
+    let cross = start + crossSize(size, axis) / 2;
+    if (children.length > 0) {
+        cross = (getCross(ctx, children[0], axis) + getCross(ctx, children[children.length - 1], axis)) / 2;
+    }
+    // A parent bigger than its children pushes them (and the next sibling) along
+    const overlap = start - (cross - crossSize(size, axis) / 2);
+    if (overlap > 0) {
+        children.forEach(child => shiftSubtree(ctx, child, overlap, axis));
+        cross += overlap;
+        end += overlap;
+    }
+    setBox(ctx, node, main, cross, axis);
+    return Math.max(end, cross + crossSize(size, axis) / 2);
+};
+
+const countLeaves = (node: MindMapNode): number => {
+    const children = getVisibleChildren(node);
+    return children.length === 0 ? 1 : children.reduce((sum, child) => sum + countLeaves(child), 0);
+};
+
+// Root in the middle, the first branches on the right (top to bottom), the rest on the left
+// (bottom to top), split so both sides hold about the same number of leaves
+const placeBalanced = (ctx: LayoutContext, root: MindMapNode) => {
+    const children = getVisibleChildren(root);
+    const total = children.reduce((sum, child) => sum + countLeaves(child), 0);
+    let rightLeaves = 0;
+    let splitIndex = 0;
+    while (splitIndex < children.length && rightLeaves + countLeaves(children[splitIndex]) / 2 <= total / 2) {
+        rightLeaves += countLeaves(children[splitIndex]);
+        splitIndex++;
+    }
+    // A single branch still goes to the right
+    if (splitIndex === 0 && children.length > 0) splitIndex = 1;
+
+    const rootWidth = ctx.getSize(root).width;
+    ctx.boxes.set(root.id, { x: 0, y: 0, ...ctx.getSize(root) });
+    const sides: [MindMapNode[], 1 | -1][] = [
+        [children.slice(0, splitIndex), 1],
+        [children.slice(splitIndex).reverse(), -1],
+    ];
+    sides.forEach(([side, direction]) => {
+        const end = placeChildren(ctx, side, 0, rootWidth, 0, direction, 'horizontal');
+        side.forEach(child => shiftSubtree(ctx, child, -end / 2, 'horizontal'));
+    });
+};
+
+// =========================================================
+// RADIAL
+// =========================================================
+// Every branch gets a slice of the circle in proportion to its leaves; depth d sits on ring d.
+
+const placeRadial = (ctx: LayoutContext, root: MindMapNode) => {
+    // A ring grows until its circumference fits all of its nodes
+    const arcByDepth: number[] = [];
+    const measure = (node: MindMapNode, depth: number) => {
+        const size = ctx.getSize(node);
+        arcByDepth[depth] = (arcByDepth[depth] ?? 0) + Math.max(size.width, size.height) + RING_NODE_GAP;
+        getVisibleChildren(node).forEach(child => measure(child, depth + 1));
+    };
+    measure(root, 0);
+    const radii = [0];
+    for (let depth = 1; depth < arcByDepth.length; depth++) {
+        radii[depth] = Math.max(radii[depth - 1] + RING_GAP, arcByDepth[depth] / (2 * Math.PI));
+    }
+
+    const place = (node: MindMapNode, depth: number, startAngle: number, endAngle: number) => {
+        const angle = (startAngle + endAngle) / 2;
+        ctx.boxes.set(node.id, { x: radii[depth] * Math.cos(angle), y: radii[depth] * Math.sin(angle), ...ctx.getSize(node) });
+        const children = getVisibleChildren(node);
+        const leaves = children.reduce((sum, child) => sum + countLeaves(child), 0);
+        let angleCursor = startAngle;
+        children.forEach(child => {
+            const share = ((endAngle - startAngle) * countLeaves(child)) / leaves;
+            place(child, depth + 1, angleCursor, angleCursor + share);
+            angleCursor += share;
+        });
+    };
+    // Clockwise, starting at the top
+    place(root, 0, -Math.PI / 2, (3 * Math.PI) / 2);
+};
+
+// =========================================================
+// CONNECTORS
+// =========================================================
+
+// Curved connector between two boxes. Trees connect facing edges, so pinned nodes on the
+// "wrong" side still get a sensible curve; radial connectors run from center to center
+// (the cards cover the ends).
+export const connectorPath = (from: NodeBox, to: NodeBox, layout: MindMapLayout): string => {
+    if (layout === 'org') {
+        const side = to.y >= from.y ? 1 : -1;
+        const startY = from.y + (side * from.height) / 2;
+        const endY = to.y - (side * to.height) / 2;
+        const midY = (startY + endY) / 2;
+        return `M${from.x} ${startY} C${from.x} ${midY} ${to.x} ${midY} ${to.x} ${endY}`;
+    }
+    if (layout === 'radial') {
+        const angle = Math.atan2(to.y, to.x);
+        const reach = Math.hypot(to.x - from.x, to.y - from.y) / 2;
+        const dx = Math.cos(angle) * reach;
+        const dy = Math.sin(angle) * reach;
+        return `M${from.x} ${from.y} C${from.x + dx} ${from.y + dy} ${to.x - dx} ${to.y - dy} ${to.x} ${to.y}`;
+    }
+    const side = to.x >= from.x ? 1 : -1;
+    const startX = from.x + (side * from.width) / 2;
+    const endX = to.x - (side * to.width) / 2;
+    const midX = (startX + endX) / 2;
+    return `M${startX} ${from.y} C${midX} ${from.y} ${midX} ${to.y} ${endX} ${to.y}`;
+};
+
+// =========================================================
+// ENTRY POINT
+// =========================================================
+
+// `getPinned` returns the manual position of a node (default: its stored one). A pinned node
+// takes its branch along; pinned nodes inside that branch keep their own position.
+export const layoutMindMap = (
+    root: MindMapNode,
+    layout: MindMapLayout,
+    getSize: (node: MindMapNode) => Size,
+    getPinned: (node: MindMapNode) => NodePosition | undefined = node => node.position,
+): MindMapLayoutResult => {
+    const ctx: LayoutContext = { getSize, boxes: new Map() };
+    if (layout === 'balanced') placeBalanced(ctx, root);
+    else if (layout === 'radial') placeRadial(ctx, root);
+    else placeTree(ctx, root, 0, 0, 1, layout === 'org' ? 'vertical' : 'horizontal');
+
+    // Move everything so the root sits at (0, 0)
+    const rootBox = ctx.boxes.get(root.id)!;
+    const [originX, originY] = [rootBox.x, rootBox.y];
+    ctx.boxes.forEach(box => {
+        box.x -= originX;
+        box.y -= originY;
+    });
+
+    const edges: LayoutEdge[] = [];
+    const applyPins = (node: MindMapNode, dx: number, dy: number, isRoot: boolean) => {
+        const box = ctx.boxes.get(node.id)!;
+        const pinned = isRoot ? undefined : getPinned(node);
+        if (pinned) {
+            [dx, dy] = [pinned.x - box.x, pinned.y - box.y];
+        }
+        box.x += dx;
+        box.y += dy;
+        getVisibleChildren(node).forEach(child => {
+            applyPins(child, dx, dy, false);
+            edges.push({ parentId: node.id, childId: child.id, path: connectorPath(box, ctx.boxes.get(child.id)!, layout) });
+        });
+    };
+    applyPins(root, 0, 0, true);
+
+    const bounds: LayoutBounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    ctx.boxes.forEach(box => {
+        bounds.minX = Math.min(bounds.minX, box.x - box.width / 2);
+        bounds.minY = Math.min(bounds.minY, box.y - box.height / 2);
+        bounds.maxX = Math.max(bounds.maxX, box.x + box.width / 2);
+        bounds.maxY = Math.max(bounds.maxY, box.y + box.height / 2);
+    });
+
+    return { boxes: ctx.boxes, edges, bounds };
+};
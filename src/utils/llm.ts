@@ -0,0 +1,73 @@
+// =========================================================
+// OPENAI-COMPATIBLE CHAT CLIENT
+// =========================================================
+// Talks to any server implementing POST {endpoint}/chat/completions
+// (OpenAI, Ollama, LM Studio, llama.cpp server, ...). Nothing is sent anywhere else.
+
+export interface LlmSettings {
+    endpoint: string; // Base URL, e.g. http://localhost:11434/v1
+    model: string;
+    apiKey: string; // Optional, sent as a Bearer token
+}
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+// Local models can be slow to load, give them time before giving up
+const REQUEST_TIMEOUT_MS = 60_000;
+
+// fetch() with a timeout that also honors the caller's abort signal
+export const fetchWithTimeout = async (url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<Response> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new Error(`No response within ${timeoutMs / 1000}s`)), timeoutMs);
+    const forwardAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', forwardAbort);
+    try {
+        return await fetch(url, { ...init, signal: controller.signal });
+    } catch (e) {
+        // Surface the timeout message instead of a generic AbortError
+        if (controller.signal.aborted && controller.signal.reason instanceof Error) throw controller.signal.reason;
+        throw e;
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', forwardAbort);
+    }
+};
+
+export const chatCompletion = async (settings: LlmSettings, messages: ChatMessage[], signal?: AbortSignal): Promise<string> => {
+    if (!settings.endpoint.trim()) throw new Error('No LLM endpoint configured');
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+
+    let response: Response;
+    try {
+        response = await fetchWithTimeout(`${settings.endpoint.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ model: settings.model, messages, temperature: 0.7 }),
+        }, REQUEST_TIMEOUT_MS, signal);
+    } catch (e) {
+        if (signal?.aborted) throw e;
+        throw new Error(`Could not reach the LLM endpoint ${settings.endpoint} (${e instanceof Error ? e.message : String(e)})`);
+    }
+    if (!response.ok) {
+        throw new Error(`LLM endpoint answered ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') throw new Error('Unexpected response from the LLM endpoint');
+    return content;
+};
+
+// Readable language name for prompts ("ja" -> "Japanese"), falls back to the code
+export const languageName = (code: string): string => {
+    try {
+        return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code;
+    } catch {
+        return code;
+    }
+};
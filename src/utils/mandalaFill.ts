@@ -0,0 +1,100 @@
+import type { MandalaChartData, MandalaGridData } from '../types';
+import { exportMandala, getPositionName } from './export';
+import { parseMandala } from './import';
+import { chatCompletion, languageName } from './llm';
+import type { LlmSettings } from './llm';
+
+// =========================================================
+// MANDALA FILL-IN (LLM)
+// =========================================================
+// Asks an OpenAI-compatible endpoint to fill the empty cells of one grid. The prompt and the
+// answer both use the mandala text format documented in the README ("System I/O Format for
+// LLMs"), so the answer goes through the regular parser and nothing model-specific is needed.
+
+// gridIndex 4 is the center grid: its outer cells are the 8 sub-goals
+export interface FillTarget {
+    gridIndex: number;
+}
+
+export interface FillSuggestion {
+    cellIndex: number;
+    text: string;
+}
+
+export const isCenterTarget = (target: FillTarget) => target.gridIndex === 4;
+
+export const getTargetGrid = (data: MandalaChartData, target: FillTarget): MandalaGridData =>
+    isCenterTarget(target) ? data.centerGrid : data.surroundingGrids[target.gridIndex];
+
+// Header of the target section, as written by exportMandala
+export const getSectionName = (target: FillTarget) =>
+    isCenterTarget(target) ? 'Center Grid' : `${getPositionName(target.gridIndex)} Grid`;
+
+// Index 4 is the theme of the grid (main goal / sub-goal), it is never filled in
+export const getEmptyCellIndices = (data: MandalaChartData, target: FillTarget): number[] =>
+    getTargetGrid(data, target).cells
+        .map((cell, index) => (index !== 4 && cell.text.trim() === '' ? index : -1))
+        .filter(index => index !== -1);
+
+// Same rules as the README, kept short so small local models follow them
+const FORMAT_RULES = [
+    'Mandala charts are written in this text format:',
+    '- "# Title" is the title of the chart.',
+    '- "## [Position] Grid" starts one of the 9 grids: "## Center Grid", "## Top Left Grid", "## Top Center Grid", "## Top Right Grid", "## Middle Left Grid", "## Middle Right Grid", "## Bottom Left Grid", "## Bottom Center Grid", "## Bottom Right Grid".',
+    '- "- [i] Text" is the cell with index i (0-8). The index mapping is:',
+    '  0 1 2',
+    '  3 4 5',
+    '  6 7 8',
+    '- Index 4 of the Center Grid is the main goal, its other cells are the 8 sub-goals.',
+    '- Each other grid belongs to the sub-goal at the same position of the Center Grid: its index 4 repeats that sub-goal, its other cells are concrete actions for it.',
+].join('\n');
+
+export const buildFillMessages = (data: MandalaChartData, target: FillTarget, language: string) => {
+    const grid = getTargetGrid(data, target);
+    const section = getSectionName(target);
+    const empty = getEmptyCellIndices(data, target);
+    const task = isCenterTarget(target)
+        ? `Suggest sub-goals for the main goal "${grid.cells[4].text}".`
+        : `Suggest concrete actions for the sub-goal "${grid.cells[4].text}" (main goal: "${data.centerGrid.cells[4].text}").`;
+
+    return [
+        {
+            role: 'system' as const,
+            content: `You help fill in mandala charts (9x9 goal-setting charts).\n${FORMAT_RULES}\nAnswer only in this format, without explanations or code fences.`,
+        },
+        {
+            role: 'user' as const,
+            content: [
+                'Current chart:',
+                exportMandala(data).trim(),
+                '',
+                task,
+                `Fill only the empty cells ${empty.map(i => `[${i}]`).join(', ')} of "## ${section}", each with a short, distinct text in ${languageName(language)} that does not repeat the existing cells.`,
+                `Answer with the "## ${section}" header followed by one "- [i] Text" line per empty cell.`,
+            ].join('\n'),
+        },
+    ];
+};
+
+// Reads the answer with the regular mandala parser and keeps the cells that were asked for
+export const parseFillResponse = (content: string, data: MandalaChartData, target: FillTarget): FillSuggestion[] => {
+    // Some models drop the header and answer with the items only
+    const text = /^\s*##\s/m.test(content) ? content : `## ${getSectionName(target)}\n${content}`;
+    const parsed = getTargetGrid(parseMandala(text).data, target);
+    const existing = new Set(getTargetGrid(data, target).cells.map(cell => cell.text.trim().toLowerCase()));
+
+    return getEmptyCellIndices(data, target)
+        .map(cellIndex => ({ cellIndex, text: parsed.cells[cellIndex].text.trim() }))
+        .filter(suggestion => suggestion.text !== '' && !existing.has(suggestion.text.toLowerCase()));
+};
+
+export const suggestCellFill = async (
+    data: MandalaChartData,
+    target: FillTarget,
+    settings: { llm: LlmSettings; language: string },
+    signal?: AbortSignal,
+): Promise<FillSuggestion[]> => {
+    if (getEmptyCellIndices(data, target).length === 0) return [];
+    const content = await chatCompletion(settings.llm, buildFillMessages(data, target, settings.language), signal);
+    return parseFillResponse(content, data, target);
+};
@@ -0,0 +1,206 @@
+import type { MandalaCell, MandalaChartData, MandalaGridData, MindMapNode, Mode, DocumentDataByMode } from '../types';
+
+// =========================================================
+// THREE-WAY MERGE
+// =========================================================
+// Combines two versions of a document that were edited at the same time (e.g. in two tabs)
+// from their common base. Changes are merged per node / per cell, field by field; only when
+// both sides changed the same field differently is there a conflict. The winner of a conflict
+// is chosen by the caller in a way both sides agree on, so every tab ends up with the same result.
+
+export interface MergeConflict {
+    label: string; // Text of the node or cell
+    keptTheirs: boolean; // Whether the other version won
+}
+
+export interface MergeResult<T> {
+    merged: T; // `ours` or `theirs` itself when the result equals one of them
+    conflicts: MergeConflict[];
+}
+
+export type Merge<T> = (base: T, ours: T, theirs: T, preferTheirs: boolean) => MergeResult<T>;
+
+export const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Field by field, so the order in which the keys were written does not matter
+export const sameFields = <T extends object>(a: T, b: T) =>
+    [...new Set([...Object.keys(a), ...Object.keys(b)])].every(key => sameValue(a[key as keyof T], b[key as keyof T]));
+
+type Fields = Record<string, unknown>;
+
+// Returns the merged fields and whether both sides changed one of them differently
+const mergeFields = (base: object, ours: object, theirs: object, preferTheirs: boolean) => {
+    const merged: Fields = {};
+    let isConflict = false;
+    new Set([...Object.keys(ours), ...Object.keys(theirs)]).forEach(key => {
+        const [b, o, t] = [base, ours, theirs].map(fields => (fields as Fields)[key]);
+        let value = o;
+        if (sameValue(o, b)) value = t;
+        else if (!sameValue(t, b) && !sameValue(o, t)) {
+            isConflict = true;
+            value = preferTheirs ? t : o;
+        }
+        if (value !== undefined) merged[key] = value;
+    });
+    return { merged, isConflict };
+};
+
+// =========================================================
+// MIND MAP
+// =========================================================
+
+const PARENT = '$parent'; // The parent id is merged like a field, so moves merge like edits
+
+interface FlatTree {
+    nodes: Map<string, Fields>; // Fields of each node (without id and children) plus PARENT
+    children: Map<string, string[]>;
+}
+
+const flatten = (root: MindMapNode): FlatTree => {
+    const tree: FlatTree = { nodes: new Map(), children: new Map() };
+    const visit = (node: MindMapNode, parentId: string | null) => {
+        const { id, children, ...fields } = node;
+        tree.nodes.set(id, { ...fields, [PARENT]: parentId });
+        tree.children.set(id, children.map(child => child.id));
+        children.forEach(child => visit(child, id));
+    };
+    visit(root, null);
+    return tree;
+};
+
+const sameMindMap = (a: MindMapNode, b: MindMapNode): boolean =>
+    a === b || (a.id === b.id
+        && sameFields({ ...a, children: undefined }, { ...b, children: undefined })
+        && a.children.length === b.children.length
+        && a.children.every((child, i) => sameMindMap(child, b.children[i])));
+
+// Whether the children that were there before are in a different order now (adding or removing is no reorder)
+const isReordered = (base: string[], list: string[]) =>
+    !sameValue(list.filter(id => base.includes(id)), base.filter(id => list.includes(id)));
+
+// The merged order of one parent's children: the side that reordered wins (the preferred side
+// if both did), children only the other side has keep their place after their predecessor
+const mergeChildOrder = (base: string[], ours: string[], theirs: string[], preferTheirs: boolean, belongs: (id: string) => boolean) => {
+    const [oursReordered, theirsReordered] = [isReordered(base, ours), isReordered(base, theirs)];
+    const useTheirs = oursReordered === theirsReordered ? preferTheirs : theirsReordered;
+    const [preferred, other] = useTheirs ? [theirs, ours] : [ours, theirs];
+    const order = preferred.filter(belongs);
+    other.forEach((id, i) => {
+        if (!belongs(id) || order.includes(id)) return;
+        const predecessor = other.slice(0, i).reverse().find(prev => order.includes(prev));
+        order.splice(predecessor === undefined ? 0 : order.indexOf(predecessor) + 1, 0, id);
+    });
+    return order;
+};
+
+const mergeMindMap: Merge<MindMapNode> = (base, ours, theirs, preferTheirs) => {
+    // A replaced document (import, reset) has a new root and wins as a whole over edits of the old one
+    if (ours.id !== theirs.id) {
+        const [oursReplaced, theirsReplaced] = [ours.id !== base.id, theirs.id !== base.id];
+        if (!oursReplaced && sameMindMap(ours, base)) return { merged: theirs, conflicts: [] };
+        if (!theirsReplaced && sameMindMap(theirs, base)) return { merged: ours, conflicts: [] };
+        const keptTheirs = oursReplaced && theirsReplaced ? preferTheirs : theirsReplaced;
+        return { merged: keptTheirs ? theirs : ours, conflicts: [{ label: (keptTheirs ? theirs : ours).text, keptTheirs }] };
+    }
+
+    const [b, o, t] = [flatten(base), flatten(ours), flatten(theirs)];
+    const merged = new Map<string, Fields>();
+    const conflicts: MergeConflict[] = [];
+    const addConflict = (fields: Fields, keptTheirs: boolean) => conflicts.push({ label: String(fields.text ?? ''), keptTheirs });
+
+    new Set([...o.nodes.keys(), ...t.nodes.keys()]).forEach(id => {
+        const [bn, on, tn] = [b.nodes.get(id), o.nodes.get(id), t.nodes.get(id)];
+        if (on && tn) {
+            const { merged: fields, isConflict } = mergeFields(bn ?? {}, on, tn, preferTheirs);
+            merged.set(id, fields);
+            if (isConflict) addConflict(fields, preferTheirs);
+            return;
+        }
+        const survivor = (on ?? tn)!;
+        if (!bn) {
+            merged.set(id, survivor); // Added on one side
+        } else if (!sameFields(survivor, bn)) {
+            merged.set(id, survivor); // Deleted on one side but edited on the other: the edit is kept
+            addConflict(survivor, tn !== undefined);
+        }
+        // Otherwise deleted on one side and untouched on the other: gone
+    });
+
+    // A branch deleted on one side while the other side added below it comes back
+    let restored = true;
+    while (restored) {
+        restored = false;
+        merged.forEach(fields => {
+            const parentId = fields[PARENT] as string | null;
+            if (parentId === null || merged.has(parentId)) return;
+            const parent = o.nodes.get(parentId) ?? t.nodes.get(parentId) ?? b.nodes.get(parentId);
+            if (!parent) return;
+            merged.set(parentId, parent);
+            addConflict(parent, t.nodes.has(parentId));
+            restored = true;
+        });
+    }
+
+    const build = (id: string, seen: Set<string>): MindMapNode => {
+        seen.add(id);
+        const fields = { ...merged.get(id) };
+        delete fields[PARENT];
+        const childIds = mergeChildOrder(
+            b.children.get(id) ?? [], o.children.get(id) ?? [], t.children.get(id) ?? [], preferTheirs,
+            childId => merged.get(childId)?.[PARENT] === id && !seen.has(childId),
+        );
+        // Children that arrived through a move on one side only and are not listed under this parent yet
+        merged.forEach((child, childId) => {
+            if (child[PARENT] === id && !childIds.includes(childId) && !seen.has(childId)) childIds.push(childId);
+        });
+        return { ...fields, id, children: childIds.filter(childId => !seen.has(childId)).map(childId => build(childId, seen)) } as MindMapNode;
+    };
+
+    const seen = new Set<string>();
+    const root = build(ours.id, seen);
+    // Concurrent moves that put two branches below each other: the loop goes back below the root,
+    // cut at its smallest id so both sides cut it at the same place
+    [...merged.keys()].sort().forEach(id => {
+        if (seen.has(id)) return;
+        merged.set(id, { ...merged.get(id), [PARENT]: ours.id });
+        root.children.push(build(id, seen));
+    });
+
+    const result = sameMindMap(root, ours) ? ours : sameMindMap(root, theirs) ? theirs : root;
+    return { merged: result, conflicts };
+};
+
+// =========================================================
+// MANDALA
+// =========================================================
+// Every cell is merged on its own. Both copies of a sub-goal get the same input, so they stay equal.
+
+const mergeMandala: Merge<MandalaChartData> = (base, ours, theirs, preferTheirs) => {
+    const conflicts: MergeConflict[] = [];
+    const mergeGrid = (b: MandalaGridData, o: MandalaGridData, t: MandalaGridData): MandalaGridData => {
+        const cells = o.cells.map((cell, i): MandalaCell => {
+            const { merged, isConflict } = mergeFields(b.cells[i], cell, t.cells[i], preferTheirs);
+            const next = { ...merged, id: cell.id } as MandalaCell;
+            if (isConflict && !conflicts.some(c => c.label === next.text)) conflicts.push({ label: next.text, keptTheirs: preferTheirs });
+            return sameFields(next, cell) ? cell : next;
+        });
+        return cells.every((cell, i) => cell === o.cells[i]) ? o : { ...o, cells };
+    };
+    const centerGrid = mergeGrid(base.centerGrid, ours.centerGrid, theirs.centerGrid);
+    const surroundingGrids = ours.surroundingGrids.map((grid, i) => mergeGrid(base.surroundingGrids[i], grid, theirs.surroundingGrids[i]));
+
+    if (centerGrid === ours.centerGrid && surroundingGrids.every((grid, i) => grid === ours.surroundingGrids[i])) {
+        return { merged: ours, conflicts };
+    }
+    const merged = { centerGrid, surroundingGrids };
+    const isTheirs = [merged.centerGrid, ...merged.surroundingGrids].every((grid, i) => {
+        const other = i === 0 ? theirs.centerGrid : theirs.surroundingGrids[i - 1];
+        return grid.cells.every((cell, j) => sameFields({ ...cell, id: undefined }, { ...other.cells[j], id: undefined }));
+    });
+    return { merged: isTheirs ? theirs : merged, conflicts };
+};
+
+export const MERGERS: { [M in Mode]: Merge<DocumentDataByMode[M]> } = {
+    mindmap: mergeMindMap,
+    mandala: mergeMandala,
+};
@@ -0,0 +1,142 @@
+import type { NodeColor, NodeMeta } from '../types';
+
+// =========================================================
+// NODE METADATA
+// =========================================================
+// Notes, links, tags, color, icon, priority and progress of mind map nodes.
+// JSON keeps them as they are; the text format writes them as an attribute block at the end
+// of the node line plus "> note" and "<url>" lines below it:
+//
+//   - Launch {#work #q3 !1 60% color:red icon:🚀}
+//     > Talk to marketing first
+//     <https://example.com/plan>
+//     - Child node
+
+export const NODE_COLORS: { id: NodeColor; label: string; hex: string }[] = [
+    { id: 'red', label: 'Red', hex: '#EF4444' },
+    { id: 'orange', label: 'Orange', hex: '#F97316' },
+    { id: 'yellow', label: 'Yellow', hex: '#EAB308' },
+    { id: 'green', label: 'Green', hex: '#22C55E' },
+    { id: 'blue', label: 'Blue', hex: '#3B82F6' },
+    { id: 'purple', label: 'Purple', hex: '#A855F7' },
+    { id: 'pink', label: 'Pink', hex: '#EC4899' },
+    { id: 'gray', label: 'Gray', hex: '#64748B' },
+];
+
+export const isNodeColor = (value: unknown): value is NodeColor => NODE_COLORS.some(color => color.id === value);
+
+export const getNodeColorHex = (color: NodeColor | undefined) => NODE_COLORS.find(c => c.id === color)?.hex;
+
+export const MIN_PRIORITY = 1;
+export const MAX_PRIORITY = 5;
+
+export const META_KEYS: (keyof NodeMeta)[] = ['note', 'links', 'tags', 'color', 'icon', 'priority', 'progress'];
+
+export const hasMeta = (node: NodeMeta) => META_KEYS.some(key => node[key] !== undefined);
+
+// "#Big idea" -> "Big-idea": tags are single tokens so they survive the text format
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#+/, '').replace(/[\s{}]+/g, '-');
+
+export const parseTagList = (text: string): string[] =>
+    Array.from(new Set(text.split(/[,\s]+/).map(normalizeTag).filter(tag => tag !== '')));
+
+// Sets the given fields on the node (mutates it); empty values remove the field
+export const applyMetaPatch = (node: NodeMeta, patch: Partial<NodeMeta>) => {
+    Object.assign(node, patch);
+    META_KEYS.forEach(key => {
+        const value = node[key];
+        if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) delete node[key];
+    });
+};
+
+// =========================================================
+// TEXT FORMAT
+// =========================================================
+
+// The block must be the last thing on the line; "\{" keeps a literal one in the text
+const META_BLOCK_PATTERN = /^(.*?)(\\?)\{([^{}]*)\}\s*$/;
+const LINK_LINE_PATTERN = /^<(\S+)>$/;
+
+// Parses the inside of a "{...}" block. Null unless every token is an attribute, so ordinary
+// text that happens to end with braces stays text.
+const parseMetaTokens = (block: string): NodeMeta | null => {
+    const meta: NodeMeta = {};
+    const tokens = block.trim().split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) return null;
+    for (const token of tokens) {
+        let match: RegExpMatchArray | null;
+        if ((match = token.match(/^#(.+)$/))) {
+            meta.tags = [...(meta.tags ?? []), match[1]];
+        } else if ((match = token.match(/^!(\d)$/)) && Number(match[1]) >= MIN_PRIORITY && Number(match[1]) <= MAX_PRIORITY) {
+            meta.priority = Number(match[1]);
+        } else if ((match = token.match(/^(\d{1,3})%$/)) && Number(match[1]) <= 100) {
+            meta.progress = Number(match[1]);
+        } else if ((match = token.match(/^color:(.+)$/)) && isNodeColor(match[1])) {
+            meta.color = match[1];
+        } else if ((match = token.match(/^icon:(.+)$/))) {
+            meta.icon = match[1];
+        } else {
+            return null;
+        }
+    }
+    return meta;
+};
+
+// "\{#tag}" at the end of a text is a literal block that was escaped by escapeTrailingBlock
+const unescapeTrailingBlock = <T>(text: string, parseTokens: (block: string) => T | null) => {
+    const match = text.match(META_BLOCK_PATTERN);
+    return match && match[2] && parseTokens(match[3]) ? `${match[1]}{${match[3]}}` : text;
+};
+
+// Splits the trailing attribute block off a text. `parseTokens` decides which blocks count,
+// so mandala cells can use the same syntax with their own attributes (see cellStatus.ts).
+export const splitTrailingBlock = <T>(content: string, parseTokens: (block: string) => T | null): { text: string; meta: T | null } => {
+    const match = content.match(META_BLOCK_PATTERN);
+    const meta = match && !match[2] ? parseTokens(match[3]) : null;
+    if (match && meta) return { text: unescapeTrailingBlock(match[1].trimEnd(), parseTokens), meta };
+    return { text: unescapeTrailingBlock(content, parseTokens), meta: null };
+};
+
+// A text that ends like an attribute block gets its brace escaped
+export const escapeTrailingBlock = <T>(text: string, parseTokens: (block: string) => T | null) => {
+    const block = text.match(META_BLOCK_PATTERN);
+    return block && !block[2] && parseTokens(block[3]) ? `${block[1]}\\{${block[3]}}` : text;
+};
+
+// Node text of a line in the text format, with its trailing attribute block split off
+export const parseNodeLine = (content: string): { text: string; meta: NodeMeta } => {
+    // A leading backslash escapes text that would look like a note or link line
+    const unescaped = content.startsWith('\\') ? content.slice(1) : content;
+    const { text, meta } = splitTrailingBlock(unescaped, parseMetaTokens);
+    return { text, meta: meta ?? {} };
+};
+
+// "> note" and "<url>" lines (no bullet) belong to the node above them
+export const parseDetailLine = (content: string): { note: string } | { link: string } | null => {
+    if (content === '>' || content.startsWith('> ')) return { note: content.slice(2) };
+    const link = content.match(LINK_LINE_PATTERN);
+    if (link) return { link: link[1] };
+    return null;
+};
+
+// The node line without indentation and bullet
+export const formatNodeLine = (node: { text: string } & NodeMeta): string => {
+    let text = node.text;
+    if (text.startsWith('\\') || parseDetailLine(text)) text = `\\${text}`;
+    text = escapeTrailingBlock(text, parseMetaTokens);
+
+    const tokens = [
+        ...(node.tags ?? []).map(tag => `#${tag}`),
+        node.priority !== undefined ? `!${node.priority}` : '',
+        node.progress !== undefined ? `${node.progress}%` : '',
+        node.color ? `color:${node.color}` : '',
+        node.icon ? `icon:${node.icon}` : '',
+    ].filter(Boolean);
+    return tokens.length > 0 ? `${text} {${tokens.join(' ')}}` : text;
+};
+
+// Note and link lines of a node, without indentation
+export const formatDetailLines = (node: NodeMeta): string[] => [
+    ...(node.note !== undefined ? node.note.split('\n').map(line => (line === '' ? '>' : `> ${line}`)) : []),
+    ...(node.links ?? []).map(link => `<${link}>`),
+];
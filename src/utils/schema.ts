@@ -0,0 +1,360 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Mode, MindMapNode, MandalaChartData, MandalaGridData, MandalaCell, MandalaCellMeta, DocumentDataByMode, NodeMeta, NodePosition } from '../types';
+import { isNodeColor, MAX_PRIORITY, MIN_PRIORITY } from './nodeMeta';
+import { isCellStatus, isDueDate } from './cellStatus';
+
+// =========================================================
+// DOCUMENT SCHEMA: VERSIONS, MIGRATIONS, VALIDATION
+// =========================================================
+// Saved documents are wrapped in an envelope: { schemaVersion, kind, data }.
+// Version 1 is the bare JSON written before the envelope existed (mindmap-data-v1 / mandala-data-v1).
+// To change a shape: bump CURRENT_SCHEMA_VERSION and append a migration for each kind.
+
+export const CURRENT_SCHEMA_VERSION = 5;
+
+// Anything bigger than this is treated as corrupt instead of freezing the tab while parsing
+export const MAX_DOCUMENT_SIZE = 5 * 1024 * 1024;
+
+type Migration = (data: unknown) => unknown;
+
+// MIGRATIONS[kind][n] upgrades data from version n + 1 to n + 2
+const MIGRATIONS: Record<Mode, Migration[]> = {
+    mindmap: [
+        // v1 -> v2: envelope introduced, shape unchanged
+        (data) => data,
+        // v2 -> v3: optional node metadata (note, links, tags, color, icon, priority, progress)
+        (data) => data,
+        // v3 -> v4: shape unchanged
+        (data) => data,
+        // v4 -> v5: optional pinned node position
+        (data) => data,
+    ],
+    mandala: [
+        (data) => data,
+        (data) => data,
+        // v3 -> v4: optional cell status, due date and note
+        (data) => data,
+        (data) => data,
+    ],
+};
+
+export type LoadErrorReason = 'invalid-json' | 'too-large' | 'newer-version' | 'invalid-schema';
+
+export class DocumentLoadError extends Error {
+    reason: LoadErrorReason;
+    details: string[];
+    raw: string;
+
+    constructor(reason: LoadErrorReason, message: string, raw: string, details: string[] = []) {
+        super(message);
+        this.name = 'DocumentLoadError';
+        this.reason = reason;
+        this.details = details;
+        this.raw = raw;
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Stop collecting after this many problems, the list is shown to the user
+const MAX_ERRORS = 20;
+
+// =========================================================
+// VALIDATION
+// =========================================================
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isIntegerInRange = (value: unknown, min: number, max: number): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+// Checks of the optional metadata fields, shared by validation and repair
+const NODE_META_CHECKS: { [K in keyof Required<NodeMeta>]: { check: (value: unknown) => boolean; expected: string } } = {
+    note: { check: value => typeof value === 'string', expected: 'a string' },
+    links: { check: isStringArray, expected: 'an array of strings' },
+    tags: { check: isStringArray, expected: 'an array of strings' },
+    color: { check: isNodeColor, expected: 'a palette color' },
+    icon: { check: value => typeof value === 'string', expected: 'a string' },
+    priority: { check: value => isIntegerInRange(value, MIN_PRIORITY, MAX_PRIORITY), expected: `an integer ${MIN_PRIORITY}-${MAX_PRIORITY}` },
+    progress: { check: value => isIntegerInRange(value, 0, 100), expected: 'an integer 0-100' },
+};
+
+const NODE_META_KEYS = Object.keys(NODE_META_CHECKS) as (keyof NodeMeta)[];
+
+const isNodePosition = (value: unknown): value is NodePosition =>
+    isRecord(value) && Number.isFinite(value.x) && Number.isFinite(value.y);
+
+const CELL_META_CHECKS: { [K in keyof Required<MandalaCellMeta>]: { check: (value: unknown) => boolean; expected: string } } = {
+    status: { check: isCellStatus, expected: '"todo", "doing" or "done"' },
+    due: { check: isDueDate, expected: 'a YYYY-MM-DD date' },
+    note: { check: value => typeof value === 'string', expected: 'a string' },
+};
+
+const CELL_META_KEYS = Object.keys(CELL_META_CHECKS) as (keyof MandalaCellMeta)[];
+
+const validateMindMapNode = (value: unknown, path: string, errors: string[], seenIds: Set<string>) => {
+    if (errors.length >= MAX_ERRORS) return;
+    if (!isRecord(value)) {
+        errors.push(`${path}: expected a node object`);
+        return;
+    }
+    if (typeof value.id !== 'string' || value.id === '') {
+        errors.push(`${path}.id: expected a non-empty string`);
+    } else if (seenIds.has(value.id)) {
+        errors.push(`${path}.id: duplicate id "${value.id}"`);
+    } else {
+        seenIds.add(value.id);
+    }
+    if (typeof value.text !== 'string') errors.push(`${path}.text: expected a string`);
+    if (value.isExpanded !== undefined && typeof value.isExpanded !== 'boolean') {
+        errors.push(`${path}.isExpanded: expected a boolean`);
+    }
+    NODE_META_KEYS.forEach(key => {
+        const { check, expected } = NODE_META_CHECKS[key];
+        if (value[key] !== undefined && !check(value[key])) errors.push(`${path}.${key}: expected ${expected}`);
+    });
+    if (value.position !== undefined && !isNodePosition(value.position)) errors.push(`${path}.position: expected { x, y } numbers`);
+    if (!Array.isArray(value.children)) {
+        errors.push(`${path}.children: expected an array`);
+        return;
+    }
+    value.children.forEach((child, i) => validateMindMapNode(child, `${path}.children[${i}]`, errors, seenIds));
+};
+
+const validateMandalaGrid = (value: unknown, path: string, errors: string[]) => {
+    if (!isRecord(value)) {
+        errors.push(`${path}: expected a grid object`);
+        return;
+    }
+    if (typeof value.id !== 'string') errors.push(`${path}.id: expected a string`);
+    if (typeof value.title !== 'string') errors.push(`${path}.title: expected a string`);
+    if (!Array.isArray(value.cells) || value.cells.length !== 9) {
+        errors.push(`${path}.cells: expected exactly 9 cells`);
+        return;
+    }
+    value.cells.forEach((cell, i) => {
+        if (!isRecord(cell) || typeof cell.id !== 'string' || typeof cell.text !== 'string') {
+            errors.push(`${path}.cells[${i}]: expected { id, text } strings`);
+            return;
+        }
+        CELL_META_KEYS.forEach(key => {
+            const { check, expected } = CELL_META_CHECKS[key];
+            if (cell[key] !== undefined && !check(cell[key])) errors.push(`${path}.cells[${i}].${key}: expected ${expected}`);
+        });
+    });
+};
+
+const validateMandala = (value: unknown, errors: string[]) => {
+    if (!isRecord(value)) {
+        errors.push('chart: expected an object');
+        return;
+    }
+    validateMandalaGrid(value.centerGrid, 'centerGrid', errors);
+    if (!Array.isArray(value.surroundingGrids) || value.surroundingGrids.length !== 9) {
+        errors.push('surroundingGrids: expected exactly 9 grids');
+        return;
+    }
+    value.surroundingGrids.forEach((grid, i) => validateMandalaGrid(grid, `surroundingGrids[${i}]`, errors));
+};
+
+const VALIDATORS: Record<Mode, (value: unknown) => string[]> = {
+    mindmap: (value) => {
+        const errors: string[] = [];
+        validateMindMapNode(value, 'root', errors, new Set());
+        return errors.slice(0, MAX_ERRORS);
+    },
+    mandala: (value) => {
+        const errors: string[] = [];
+        validateMandala(value, errors);
+        return errors.slice(0, MAX_ERRORS);
+    },
+};
+
+// =========================================================
+// REPAIR (best effort salvage for the recovery screen)
+// =========================================================
+
+const repairMindMapNode = (value: unknown, seenIds: Set<string>): MindMapNode | null => {
+    if (!isRecord(value)) return null;
+    let id = typeof value.id === 'string' && value.id !== '' ? value.id : uuidv4();
+    if (seenIds.has(id)) id = uuidv4();
+    seenIds.add(id);
+
+    const node: MindMapNode = {
+        id,
+        text: typeof value.text === 'string' ? value.text : String(value.text ?? ''),
+        children: Array.isArray(value.children)
+            ? value.children.map(c => repairMindMapNode(c, seenIds)).filter((c): c is MindMapNode => c !== null)
+            : [],
+    };
+    if (typeof value.isExpanded === 'boolean') node.isExpanded = value.isExpanded;
+    if (isNodePosition(value.position)) node.position = { x: value.position.x, y: value.position.y };
+    // Invalid metadata is dropped field by field
+    NODE_META_KEYS.forEach(key => {
+        if (value[key] !== undefined && NODE_META_CHECKS[key].check(value[key])) Object.assign(node, { [key]: value[key] });
+    });
+    return node;
+};
+
+const repairMandalaGrid = (value: unknown): MandalaGridData => {
+    const grid = isRecord(value) ? value : {};
+    const cells = Array.isArray(grid.cells) ? grid.cells : [];
+    return {
+        id: typeof grid.id === 'string' ? grid.id : uuidv4(),
+        title: typeof grid.title === 'string' ? grid.title : '',
+        cells: Array.from({ length: 9 }).map((_, i): MandalaCell => {
+            const cell = isRecord(cells[i]) ? cells[i] : {};
+            const repaired: MandalaCell = {
+                id: typeof cell.id === 'string' ? cell.id : uuidv4(),
+                text: typeof cell.text === 'string' ? cell.text : '',
+            };
+            CELL_META_KEYS.forEach(key => {
+                if (cell[key] !== undefined && CELL_META_CHECKS[key].check(cell[key])) Object.assign(repaired, { [key]: cell[key] });
+            });
+            return repaired;
+        }),
+    };
+};
+
+const repairMandala = (value: unknown): MandalaChartData | null => {
+    if (!isRecord(value)) return null;
+    const grids = Array.isArray(value.surroundingGrids) ? value.surroundingGrids : [];
+    return {
+        centerGrid: repairMandalaGrid(value.centerGrid),
+        surroundingGrids: Array.from({ length: 9 }).map((_, i) => repairMandalaGrid(grids[i])),
+    };
+};
+
+const REPAIRERS: Record<Mode, (value: unknown) => unknown> = {
+    mindmap: (value) => repairMindMapNode(value, new Set()),
+    mandala: repairMandala,
+};
+
+// =========================================================
+// CODEC
+// =========================================================
+
+interface Envelope {
+    version: number;
+    kind?: Mode;
+    data: unknown;
+}
+
+// Bare data (no envelope) is version 1
+const readEnvelope = (parsed: unknown): Envelope => {
+    if (isRecord(parsed) && typeof parsed.schemaVersion === 'number' && 'data' in parsed) {
+        return {
+            version: parsed.schemaVersion,
+            kind: parsed.kind === 'mindmap' || parsed.kind === 'mandala' ? parsed.kind : undefined,
+            data: parsed.data,
+        };
+    }
+    return { version: 1, data: parsed };
+};
+
+const migrate = (kind: Mode, data: unknown, fromVersion: number): unknown => {
+    let current = data;
+    for (let v = fromVersion; v < CURRENT_SCHEMA_VERSION; v++) {
+        current = MIGRATIONS[kind][v - 1](current);
+    }
+    return current;
+};
+
+export interface DocumentCodec<T> {
+    kind: Mode;
+    encode: (data: T) => string;
+    // Throws DocumentLoadError when the saved data cannot be used as-is
+    decode: (raw: string) => T;
+    // Salvages what it can from broken data, null if nothing is usable
+    repair: (raw: string) => T | null;
+    encodeHistory: (history: { past: T[]; future: T[] }) => string;
+    // Undo history is a convenience: anything invalid is dropped instead of reported
+    decodeHistory: (raw: string) => { past: T[]; future: T[] } | null;
+}
+
+const createCodec = <T>(kind: Mode): DocumentCodec<T> => {
+    const validate = VALIDATORS[kind];
+
+    const decode = (raw: string): T => {
+        if (raw.length > MAX_DOCUMENT_SIZE) {
+            throw new DocumentLoadError('too-large', `Saved data is too large (${Math.round(raw.length / 1024)} KB)`, raw);
+        }
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(raw);
+        } catch (e) {
+            throw new DocumentLoadError('invalid-json', 'Saved data is not valid JSON', raw, [String(e)]);
+        }
+        const { version, kind: savedKind, data } = readEnvelope(parsed);
+        if (version > CURRENT_SCHEMA_VERSION) {
+            throw new DocumentLoadError('newer-version', `Saved data uses schema v${version}, this app only supports up to v${CURRENT_SCHEMA_VERSION}`, raw);
+        }
+        if (savedKind && savedKind !== kind) {
+            throw new DocumentLoadError('invalid-schema', `Saved data is a ${savedKind}, expected a ${kind}`, raw);
+        }
+        const migrated = migrate(kind, data, version);
+        const errors = validate(migrated);
+        if (errors.length > 0) {
+            throw new DocumentLoadError('invalid-schema', 'Saved data does not match the expected structure', raw, errors);
+        }
+        return migrated as T;
+    };
+
+    const repair = (raw: string): T | null => {
+        try {
+            const { version, data } = readEnvelope(JSON.parse(raw));
+            const migrated = version <= CURRENT_SCHEMA_VERSION ? migrate(kind, data, version) : data;
+            return REPAIRERS[kind](migrated) as T | null;
+        } catch {
+            return null;
+        }
+    };
+
+    const encodeHistory = (history: { past: T[]; future: T[] }) =>
+        JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, kind, past: history.past, future: history.future });
+
+    const decodeHistory = (raw: string) => {
+        try {
+            const parsed = JSON.parse(raw);
+            if (!isRecord(parsed) || !Array.isArray(parsed.past) || !Array.isArray(parsed.future)) return null;
+            const version = typeof parsed.schemaVersion === 'number' ? parsed.schemaVersion : 1;
+            if (version > CURRENT_SCHEMA_VERSION) return null;
+            const upgrade = (entries: unknown[]) => entries.map(e => migrate(kind, e, version));
+            const past = upgrade(parsed.past);
+            const future = upgrade(parsed.future);
+            if ([...past, ...future].some(e => validate(e).length > 0)) return null;
+            return { past: past as T[], future: future as T[] };
+        } catch {
+            return null;
+        }
+    };
+
+    return {
+        kind,
+        encode: (data) => JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, kind, data }),
+        decode,
+        repair,
+        encodeHistory,
+        decodeHistory,
+    };
+};
+
+export const mindMapCodec = createCodec<MindMapNode>('mindmap');
+export const mandalaCodec = createCodec<MandalaChartData>('mandala');
+
+export const CODECS: { [M in Mode]: DocumentCodec<DocumentDataByMode[M]> } = { mindmap: mindMapCodec, mandala: mandalaCodec };
+
+// Guesses the kind of saved data (used to rebuild a lost library index)
+export const sniffDocumentKind = (raw: string): Mode | null => {
+    try {
+        const { kind, data } = readEnvelope(JSON.parse(raw));
+        if (kind) return kind;
+        if (isRecord(data) && 'centerGrid' in data) return 'mandala';
+        if (isRecord(data) && 'children' in data) return 'mindmap';
+    } catch {
+        // Unreadable data has no kind
+    }
+    return null;
+};
@@ -0,0 +1,141 @@
+import type { MindMapNode, MandalaChartData } from '../types';
+
+// =========================================================
+// TEXT SEARCH
+// =========================================================
+// Shared by the search bar of both views. The query is compiled into one RegExp, which is used
+// to highlight the hits inside node and cell texts and to replace them.
+
+export interface SearchOptions {
+    caseSensitive: boolean;
+    wholeWord: boolean;
+    regex: boolean; // Otherwise the query is literal text
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = { caseSensitive: false, wholeWord: false, regex: false };
+
+export interface TextRange {
+    start: number;
+    end: number; // Exclusive
+}
+
+export interface CompiledSearch {
+    pattern: RegExp | null; // null for an empty or invalid query
+    error: string | null; // Syntax error of a regex query
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// \b only knows ASCII letters, so word boundaries are spelled out for any script
+const WORD_CHAR = '[\\p{L}\\p{N}_]';
+
+// A RegExp is used instead of toLowerCase + indexOf so the ranges stay valid for characters
+// whose lowercase form has a different length
+export const compileSearch = (query: string, options: SearchOptions): CompiledSearch => {
+    if (query === '') return { pattern: null, error: null };
+    let source = options.regex ? query : escapeRegExp(query);
+    if (options.wholeWord) source = `(?<!${WORD_CHAR})(?:${source})(?!${WORD_CHAR})`;
+    try {
+        return { pattern: new RegExp(source, options.caseSensitive ? 'gu' : 'giu'), error: null };
+    } catch (e) {
+        return { pattern: null, error: e instanceof Error ? e.message : String(e) };
+    }
+};
+
+// Empty matches (e.g. "^" or "x*") are not hits, they could not be highlighted
+export const findTextRanges = (text: string, pattern: RegExp | null): TextRange[] => {
+    if (!pattern) return [];
+    return Array.from(text.matchAll(pattern), match => ({ start: match.index, end: match.index + match[0].length }))
+        .filter(range => range.end > range.start);
+};
+
+export const matchesPattern = (text: string, pattern: RegExp | null) => findTextRanges(text, pattern).length > 0;
+
+// The replacement for one hit with "$1", "$<name>", "$&", "$`", "$'" and "$$" expanded as String.replace would
+const expandReplacement = (replacement: string, match: RegExpExecArray, text: string) =>
+    replacement.replace(/\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g, (token, ref: string, name: string | undefined) => {
+        if (ref === '$') return '$';
+        if (ref === '&') return match[0];
+        if (ref === '`') return text.slice(0, match.index);
+        if (ref === "'") return text.slice(match.index + match[0].length);
+        if (name !== undefined) return match.groups ? match.groups[name] ?? '' : token;
+        const groupCount = match.length - 1;
+        const index = Number(ref);
+        if (index >= 1 && index <= groupCount) return match[index] ?? '';
+        const single = Number(ref[0]);
+        if (ref.length === 2 && single >= 1 && single <= groupCount) return (match[single] ?? '') + ref[1];
+        return token;
+    });
+
+// Replaces every hit in the text, the same hits findTextRanges highlights (empty matches stay as they are).
+// "$1" style references only work in regex mode, a literal query inserts the replacement as it is.
+export const replaceText = (text: string, pattern: RegExp, replacement: string, options: SearchOptions): string => {
+    let result = '';
+    let end = 0;
+    for (const match of text.matchAll(pattern)) {
+        if (match[0] === '') continue;
+        result += text.slice(end, match.index) + (options.regex ? expandReplacement(replacement, match, text) : replacement);
+        end = match.index + match[0].length;
+    }
+    return result + text.slice(end);
+};
+
+// =========================================================
+// MIND MAP
+// =========================================================
+
+// All matching nodes in document order, including nodes inside folded branches
+export const searchMindMap = (root: MindMapNode, pattern: RegExp | null): MindMapNode[] => {
+    const matches: MindMapNode[] = [];
+    const visit = (node: MindMapNode) => {
+        if (matchesPattern(node.text, pattern)) matches.push(node);
+        node.children.forEach(visit);
+    };
+    if (pattern) visit(root);
+    return matches;
+};
+
+// The matches and all of their ancestors: everything else is dimmed in filter mode
+export const collectMatchBranches = (root: MindMapNode, matchIds: Set<string>): Set<string> => {
+    const result = new Set<string>();
+    const visit = (node: MindMapNode): boolean => {
+        // Every child is visited, a branch can hold several matches
+        const hasMatchBelow = node.children.map(visit).some(Boolean);
+        if (hasMatchBelow || matchIds.has(node.id)) {
+            result.add(node.id);
+            return true;
+        }
+        return false;
+    };
+    visit(root);
+    return result;
+};
+
+// =========================================================
+// MANDALA CHART
+// =========================================================
+
+// Position as laid out on screen: gridIndex 4 is the center grid
+export interface MandalaCellRef {
+    gridIndex: number;
+    cellIndex: number;
+}
+
+export const cellKey = (ref: MandalaCellRef) => `${ref.gridIndex}:${ref.cellIndex}`;
+
+export const getCellText = (data: MandalaChartData, ref: MandalaCellRef) =>
+    (ref.gridIndex === 4 ? data.centerGrid : data.surroundingGrids[ref.gridIndex]).cells[ref.cellIndex].text;
+
+// Row by row over the whole 9x9 square, like reading the chart
+export const searchMandala = (data: MandalaChartData, pattern: RegExp | null): MandalaCellRef[] => {
+    if (!pattern) return [];
+    const refs: MandalaCellRef[] = [];
+    for (let row = 0; row < 9; row++) {
+        for (let column = 0; column < 9; column++) {
+            const gridIndex = Math.floor(row / 3) * 3 + Math.floor(column / 3);
+            const cellIndex = (row % 3) * 3 + (column % 3);
+            if (matchesPattern(getCellText(data, { gridIndex, cellIndex }), pattern)) refs.push({ gridIndex, cellIndex });
+        }
+    }
+    return refs;
+};
@@ -0,0 +1,96 @@
+import type { MindMapNode } from '../types';
+import type { LayoutBounds, NodeBox } from './layout';
+import type { MandalaCellRef } from './search';
+
+// =========================================================
+// MULTI-SELECTION
+// =========================================================
+// Range, toggle and rectangle selection for both views. Mind map ranges follow the visible
+// order (top to bottom as the keyboard walks it); mandala ranges are rectangles on the 9x9 board.
+
+// Everything from the anchor to the target, both included. Without a usable anchor only the target.
+export const selectRange = (order: string[], anchorId: string, targetId: string): Set<string> => {
+    const from = order.indexOf(anchorId);
+    const to = order.indexOf(targetId);
+    if (from === -1 || to === -1) return new Set([targetId]);
+    return new Set(order.slice(Math.min(from, to), Math.max(from, to) + 1));
+};
+
+export const toggleSelection = <T>(selection: Set<T>, item: T): Set<T> => {
+    const next = new Set(selection);
+    if (next.has(item)) next.delete(item);
+    else next.add(item);
+    return next;
+};
+
+// =========================================================
+// MIND MAP
+// =========================================================
+
+const findParent = (node: MindMapNode, id: string): MindMapNode | null => {
+    for (const child of node.children) {
+        if (child.id === id) return node;
+        const parent = findParent(child, id);
+        if (parent) return parent;
+    }
+    return null;
+};
+
+// The node and its siblings; the root has none
+export const getSiblingIds = (root: MindMapNode, id: string): string[] =>
+    findParent(root, id)?.children.map(child => child.id) ?? [id];
+
+// The node and its visible descendants (folded branches stay folded and unselected)
+export const getSubtreeIds = (root: MindMapNode, id: string): string[] => {
+    const ids: string[] = [];
+    const collect = (node: MindMapNode) => {
+        ids.push(node.id);
+        if (node.isExpanded !== false) node.children.forEach(collect);
+    };
+    const find = (node: MindMapNode): MindMapNode | undefined =>
+        node.id === id ? node : node.children.map(find).find(found => found !== undefined);
+    const start = find(root);
+    if (start) collect(start);
+    return ids;
+};
+
+// Nodes touched by a marquee rectangle, in layout coordinates
+export const getBoxesInRect = (boxes: Map<string, NodeBox>, rect: LayoutBounds): string[] =>
+    [...boxes].filter(([, box]) =>
+        box.x + box.width / 2 >= rect.minX && box.x - box.width / 2 <= rect.maxX &&
+        box.y + box.height / 2 >= rect.minY && box.y - box.height / 2 <= rect.maxY,
+    ).map(([id]) => id);
+
+// =========================================================
+// MANDALA
+// =========================================================
+
+// Row and column on the 9x9 board of all cells (grid 4 is the center grid)
+export const toBoardPosition = (ref: MandalaCellRef) => ({
+    row: Math.floor(ref.gridIndex / 3) * 3 + Math.floor(ref.cellIndex / 3),
+    col: (ref.gridIndex % 3) * 3 + (ref.cellIndex % 3),
+});
+
+const fromBoardPosition = (row: number, col: number): MandalaCellRef => ({
+    gridIndex: Math.floor(row / 3) * 3 + Math.floor(col / 3),
+    cellIndex: (row % 3) * 3 + (col % 3),
+});
+
+// All cells of the rectangle spanned by two cells, row by row
+export const getCellRectangle = (a: MandalaCellRef, b: MandalaCellRef): MandalaCellRef[] => {
+    const [from, to] = [toBoardPosition(a), toBoardPosition(b)];
+    const cells: MandalaCellRef[] = [];
+    for (let row = Math.min(from.row, to.row); row <= Math.max(from.row, to.row); row++) {
+        for (let col = Math.min(from.col, to.col); col <= Math.max(from.col, to.col); col++) {
+            cells.push(fromBoardPosition(row, col));
+        }
+    }
+    return cells;
+};
+
+// Sorted the way the board is read: row by row, left to right
+export const sortByBoardPosition = (refs: MandalaCellRef[]): MandalaCellRef[] =>
+    [...refs].sort((a, b) => {
+        const [pa, pb] = [toBoardPosition(a), toBoardPosition(b)];
+        return pa.row - pb.row || pa.col - pb.col;
+    });
@@ -0,0 +1,29 @@
+import { storage } from './storage';
+
+// =========================================================
+// USER SETTINGS
+// =========================================================
+// Small preference objects, one storage key per feature ("settings-<name>").
+// Saved values are merged over the defaults, so settings added later get their default.
+
+const settingsKey = (name: string) => `settings-${name}`;
+
+export const loadSettings = <T extends object>(name: string, defaults: T): T => {
+    const saved = storage.getItem(settingsKey(name));
+    if (saved === null) return defaults;
+    try {
+        const parsed = JSON.parse(saved);
+        return typeof parsed === 'object' && parsed !== null ? { ...defaults, ...parsed } : defaults;
+    } catch {
+        console.warn(`Dropped unreadable settings "${name}"`);
+        return defaults;
+    }
+};
+
+export const saveSettings = <T extends object>(name: string, value: T) => {
+    try {
+        storage.setItem(settingsKey(name), JSON.stringify(value));
+    } catch (e) {
+        console.warn(`Failed to save settings "${name}"`, e);
+    }
+};
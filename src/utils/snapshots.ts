@@ -0,0 +1,292 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { MandalaCell, MandalaChartData, MindMapNode, Mode, Snapshot } from '../types';
+import { storage } from './storage';
+import type { StorageBackendName } from './storage';
+import { CODECS } from './schema';
+import { getPositionName } from './export';
+import { sameFields } from './merge';
+
+// =========================================================
+// VERSION SNAPSHOTS
+// =========================================================
+// Named snapshots are taken by the user, automatic ones while a document is being edited.
+// The list of a document is stored next to it (oldest first), like its undo history.
+
+// An automatic snapshot is taken when the newest one is at least this old and the document changed since
+export const AUTO_SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+
+// Older automatic snapshots are dropped beyond this; named ones are kept until deleted
+export const AUTO_SNAPSHOT_LIMIT = 30;
+
+// The snapshots of one document may take up this many characters. localStorage is small and shared
+// by every document, so a full snapshot list must not leave the documents themselves without room.
+const SNAPSHOT_BUDGET: Record<StorageBackendName, number> = {
+    localstorage: 500_000,
+    indexeddb: 20_000_000,
+};
+
+export const snapshotStorageKey = (storageKey: string) => `${storageKey}-snapshots`;
+
+const isSnapshot = (value: unknown): value is Snapshot => {
+    if (typeof value !== 'object' || value === null) return false;
+    const snapshot = value as Record<string, unknown>;
+    return typeof snapshot.id === 'string' && typeof snapshot.isAuto === 'boolean'
+        && typeof snapshot.createdAt === 'number' && typeof snapshot.data === 'string'
+        && (snapshot.name === undefined || typeof snapshot.name === 'string');
+};
+
+// Unreadable entries are dropped, the readable ones kept
+export const parseSnapshots = (saved: string | null): Snapshot[] => {
+    if (saved === null) return [];
+    try {
+        const parsed = JSON.parse(saved);
+        return Array.isArray(parsed) ? parsed.filter(isSnapshot) : [];
+    } catch {
+        console.warn('Dropped unreadable snapshots');
+        return [];
+    }
+};
+
+export const saveSnapshots = (key: string, snapshots: Snapshot[]) => {
+    try {
+        storage.setItem(key, JSON.stringify(snapshots));
+    } catch (e) {
+        console.error(`Failed to save snapshots "${key}"`, e);
+    }
+};
+
+export const createSnapshot = (data: string, isAuto: boolean, name?: string): Snapshot => {
+    const snapshot: Snapshot = { id: uuidv4(), isAuto, createdAt: Date.now(), data };
+    if (name?.trim()) snapshot.name = name.trim();
+    return snapshot;
+};
+
+const sizeOf = (snapshots: Snapshot[]) => snapshots.reduce((sum, s) => sum + s.data.length, 0);
+
+// Why `snapshot` cannot be added, or null if it fits (older automatic snapshots make room for it)
+export const snapshotBudgetError = (snapshots: Snapshot[], snapshot: Snapshot, budget = SNAPSHOT_BUDGET[storage.backendName()]): string | null => {
+    if (sizeOf(snapshots.filter(s => !s.isAuto)) + snapshot.data.length <= budget) return null;
+    return 'There is no room for another snapshot of this document. Delete some named snapshots first.';
+};
+
+// Older automatic snapshots are dropped beyond the limit and the budget; a snapshot that does not
+// fit even then is not added (see snapshotBudgetError)
+export const addSnapshot = (snapshots: Snapshot[], snapshot: Snapshot, budget = SNAPSHOT_BUDGET[storage.backendName()]): Snapshot[] => {
+    if (snapshotBudgetError(snapshots, snapshot, budget)) return snapshots;
+    const next = [...snapshots, snapshot];
+    const autoIds = next.filter(s => s.isAuto).map(s => s.id);
+    const dropped = new Set(autoIds.slice(0, Math.max(0, autoIds.length - AUTO_SNAPSHOT_LIMIT)));
+    let size = sizeOf(next.filter(s => !dropped.has(s.id)));
+    next.forEach(s => {
+        if (size <= budget || !s.isAuto || s === snapshot || dropped.has(s.id)) return;
+        dropped.add(s.id);
+        size -= s.data.length;
+    });
+    return next.filter(s => !dropped.has(s.id));
+};
+
+// Whether the periodic snapshot is due for a document encoded as `data`
+export const isAutoSnapshotDue = (snapshots: Snapshot[], data: string, now: number = Date.now()) => {
+    const newest = snapshots[snapshots.length - 1];
+    return !newest || (newest.data !== data && now - newest.createdAt >= AUTO_SNAPSHOT_INTERVAL_MS);
+};
+
+export const getSnapshotLabel = (snapshot: Snapshot) => snapshot.name ?? 'Automatic snapshot';
+
+export type VersionContent =
+    | { mode: 'mindmap'; data: MindMapNode }
+    | { mode: 'mandala'; data: MandalaChartData };
+
+// null if the snapshot can no longer be read (e.g. written by a newer version of the app)
+export const decodeSnapshot = (mode: Mode, data: string): VersionContent | null => {
+    try {
+        return mode === 'mindmap'
+            ? { mode, data: CODECS.mindmap.decode(data) }
+            : { mode, data: CODECS.mandala.decode(data) };
+    } catch (e) {
+        console.warn('Failed to read a snapshot', e);
+        return null;
+    }
+};
+
+// =========================================================
+// MIND MAP DIFF
+// =========================================================
+// Nodes are matched by id, so a node that was renamed and moved is still the same node.
+
+export type NodeChangeKind = 'added' | 'removed' | 'moved' | 'renamed' | 'edited';
+
+export interface NodeChange {
+    kinds: NodeChangeKind[];
+    previousText?: string; // When renamed
+    previousParent?: string; // Text of the old parent when moved
+}
+
+// One line of the diff outline: the newer tree with the removed nodes shown where they were
+export interface DiffRow {
+    node: MindMapNode; // As in the newer version (the older one for removed nodes)
+    depth: number;
+    change: NodeChange | null;
+    hasChangedDescendant: boolean;
+}
+
+interface NodeInfo {
+    node: MindMapNode;
+    parent: MindMapNode | null;
+}
+
+const indexTree = (root: MindMapNode) => {
+    const index = new Map<string, NodeInfo>();
+    const visit = (node: MindMapNode, parent: MindMapNode | null) => {
+        index.set(node.id, { node, parent });
+        node.children.forEach(child => visit(child, node));
+    };
+    visit(root, null);
+    return index;
+};
+
+// Everything but the text, children and layout state counts as the node's details
+const detailsOf = (node: MindMapNode) => ({ ...node, id: undefined, text: undefined, children: undefined, isExpanded: undefined, position: undefined });
+
+export const diffMindMap = (before: MindMapNode, after: MindMapNode): DiffRow[] => {
+    const [old, next] = [indexTree(before), indexTree(after)];
+    const rows: DiffRow[] = [];
+
+    const changeOf = (id: string): NodeChange | null => {
+        const [was, is] = [old.get(id), next.get(id)];
+        if (!was) return { kinds: ['added'] };
+        if (!is) return { kinds: ['removed'] };
+        const change: NodeChange = { kinds: [] };
+        if (was.parent?.id !== is.parent?.id) {
+            change.kinds.push('moved');
+            change.previousParent = was.parent?.text ?? '';
+        }
+        if (was.node.text !== is.node.text) {
+            change.kinds.push('renamed');
+            change.previousText = was.node.text;
+        }
+        if (!sameFields(detailsOf(was.node), detailsOf(is.node))) change.kinds.push('edited');
+        return change.kinds.length > 0 ? change : null;
+    };
+
+    // Returns whether anything in the subtree changed
+    const visit = (node: MindMapNode, depth: number, isRemoved: boolean): boolean => {
+        const row: DiffRow = { node, depth, change: isRemoved ? { kinds: ['removed'] } : changeOf(node.id), hasChangedDescendant: false };
+        rows.push(row);
+        const children = isRemoved ? node.children.filter(child => !next.has(child.id)) : node.children;
+        children.forEach(child => {
+            if (visit(child, depth + 1, isRemoved)) row.hasChangedDescendant = true;
+        });
+        // Children removed since, below the node they were under (children that moved away show up at their new place)
+        if (!isRemoved) {
+            old.get(node.id)?.node.children.filter(child => !next.has(child.id)).forEach(child => {
+                visit(child, depth + 1, true);
+                row.hasChangedDescendant = true;
+            });
+        }
+        return row.change !== null || row.hasChangedDescendant;
+    };
+    visit(after, 0, false);
+    return rows;
+};
+
+// Puts the branch `id` of an older version back into `current`: in place if the node still exists,
+// otherwise below its old parent (or the root). Nodes of the branch that now live elsewhere in the
+// map stay there; the restored branch gets copies of them.
+export const restoreBranch = (current: MindMapNode, snapshot: MindMapNode, id: string): MindMapNode | null => {
+    const [old, now] = [indexTree(snapshot), indexTree(current)];
+    const source = old.get(id);
+    if (!source) return null;
+    if (!source.parent) return snapshot; // The root: the whole version
+
+    const replaced = new Set<string>();
+    const collect = (node: MindMapNode) => {
+        replaced.add(node.id);
+        node.children.forEach(collect);
+    };
+    const existing = now.get(id)?.node;
+    if (existing) collect(existing);
+
+    const reuseIds = (node: MindMapNode): MindMapNode => ({
+        ...node,
+        id: now.has(node.id) && !replaced.has(node.id) ? uuidv4() : node.id,
+        children: node.children.map(reuseIds),
+    });
+    const branch = reuseIds(source.node);
+
+    const oldParentId = source.parent.id;
+    const oldIndex = source.parent.children.findIndex(child => child.id === id);
+    const parentId = existing ? null : now.has(oldParentId) ? oldParentId : current.id;
+
+    const rebuild = (node: MindMapNode): MindMapNode => {
+        if (node.id === id) return branch;
+        const children = node.children.map(rebuild);
+        if (node.id === parentId) {
+            const at = parentId === oldParentId ? Math.min(oldIndex, children.length) : children.length;
+            children.splice(at, 0, branch);
+        }
+        return { ...node, children };
+    };
+    return rebuild(current);
+};
+
+// =========================================================
+// MANDALA DIFF
+// =========================================================
+
+export interface CellChange {
+    gridIndex: number; // 4 is the center grid
+    cellIndex: number;
+    before: MandalaCell;
+    after: MandalaCell;
+}
+
+const cellContent = (cell: MandalaCell) => ({ ...cell, id: undefined });
+
+export const getGridOf = (data: MandalaChartData, gridIndex: number) =>
+    gridIndex === 4 ? data.centerGrid : data.surroundingGrids[gridIndex];
+
+export const describeCell = (change: CellChange) =>
+    `${getPositionName(change.gridIndex)} grid, ${getPositionName(change.cellIndex).toLowerCase()}`;
+
+// The centers of the outer grids repeat the sub-goals of the center grid, so they are not listed twice
+export const diffMandala = (before: MandalaChartData, after: MandalaChartData): CellChange[] => {
+    const changes: CellChange[] = [];
+    for (let gridIndex = 0; gridIndex < 9; gridIndex++) {
+        const [was, is] = [getGridOf(before, gridIndex), getGridOf(after, gridIndex)];
+        is.cells.forEach((cell, cellIndex) => {
+            if (gridIndex !== 4 && cellIndex === 4) return;
+            if (!sameFields(cellContent(was.cells[cellIndex]), cellContent(cell))) {
+                changes.push({ gridIndex, cellIndex, before: was.cells[cellIndex], after: cell });
+            }
+        });
+    }
+    return changes;
+};
+
+// Puts one grid of an older version back, together with the copies of its sub-goal.
+// Cells keep their current ids.
+export const restoreGrid = (current: MandalaChartData, snapshot: MandalaChartData, gridIndex: number): MandalaChartData => {
+    const restoreCell = (cell: MandalaCell, from: MandalaCell): MandalaCell => ({ ...cellContent(from), id: cell.id });
+
+    if (gridIndex === 4) {
+        return {
+            centerGrid: { ...current.centerGrid, cells: current.centerGrid.cells.map((cell, i) => restoreCell(cell, snapshot.centerGrid.cells[i])) },
+            surroundingGrids: current.surroundingGrids.map((grid, i) => i === 4 ? grid : {
+                ...grid,
+                cells: grid.cells.map((cell, j) => j === 4 ? restoreCell(cell, snapshot.centerGrid.cells[i]) : cell),
+            }),
+        };
+    }
+    const restored = snapshot.surroundingGrids[gridIndex];
+    return {
+        centerGrid: {
+            ...current.centerGrid,
+            cells: current.centerGrid.cells.map((cell, i) => i === gridIndex ? restoreCell(cell, restored.cells[4]) : cell),
+        },
+        surroundingGrids: current.surroundingGrids.map((grid, i) => i !== gridIndex ? grid : {
+            ...grid,
+            cells: grid.cells.map((cell, j) => restoreCell(cell, restored.cells[j])),
+        }),
+    };
+};
@@ -0,0 +1,199 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// =========================================================
+// PERSISTENT STORAGE
+// =========================================================
+// Key/value storage with an IndexedDB backend and a localStorage fallback.
+// All entries are loaded into an in-memory cache once at startup (initStorage), so reads stay
+// synchronous for the hooks; writes update the cache and are written through to the backend.
+// Other tabs of the app are told about every write (see subscribe), since neither backend
+// reports changes made elsewhere in a way that works for both.
+
+export type StorageBackendName = 'indexeddb' | 'localstorage';
+
+interface StorageBackend {
+    name: StorageBackendName;
+    loadAll: () => Promise<Map<string, string>>;
+    // IndexedDB writes are async; localStorage writes are sync so quota errors reach the caller
+    set: (key: string, value: string) => Promise<void> | void;
+    remove: (key: string) => Promise<void> | void;
+}
+
+const DB_NAME = 'mindmap-text';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+// Keys written by this app (others may share the origin's localStorage, e.g. on GitHub Pages)
+const isAppKey = (key: string) =>
+    key.startsWith('document-') || key.startsWith('settings-')
+    || key.startsWith('mindmap-data-v1') || key.startsWith('mandala-data-v1');
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+});
+
+const createIndexedDbBackend = async (): Promise<StorageBackend> => {
+    const db = await openDatabase();
+    return {
+        name: 'indexeddb',
+        loadAll: async () => {
+            const entries = new Map<string, string>();
+            const tx = db.transaction(STORE_NAME, 'readonly');
+            const request = tx.objectStore(STORE_NAME).openCursor();
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (cursor) {
+                    entries.set(String(cursor.key), cursor.value);
+                    cursor.continue();
+                }
+            };
+            await transactionDone(tx);
+            return entries;
+        },
+        // Readwrite transactions on the same store run in creation order, so writes never reorder
+        set: (key, value) => {
+            const tx = db.transaction(STORE_NAME, 'readwrite');
+            tx.objectStore(STORE_NAME).put(value, key);
+            return transactionDone(tx);
+        },
+        remove: (key) => {
+            const tx = db.transaction(STORE_NAME, 'readwrite');
+            tx.objectStore(STORE_NAME).delete(key);
+            return transactionDone(tx);
+        },
+    };
+};
+
+const localStorageBackend: StorageBackend = {
+    name: 'localstorage',
+    loadAll: async () => {
+        const entries = new Map<string, string>();
+        for (let i = 0; i < localStorage.length; i++) {
+            const key = localStorage.key(i);
+            if (key !== null && isAppKey(key)) entries.set(key, localStorage.getItem(key) ?? '');
+        }
+        return entries;
+    },
+    set: (key, value) => localStorage.setItem(key, value),
+    remove: (key) => localStorage.removeItem(key),
+};
+
+const cache = new Map<string, string>();
+let backend: StorageBackend = localStorageBackend;
+
+// First run with IndexedDB: move everything the app saved in localStorage over
+const importFromLocalStorage = async (target: StorageBackend, entries: Map<string, string>) => {
+    const legacy = await localStorageBackend.loadAll();
+    for (const [key, value] of legacy) {
+        await target.set(key, value);
+        entries.set(key, value);
+    }
+    legacy.forEach((_, key) => localStorage.removeItem(key));
+};
+
+// Must resolve before the app renders. Never rejects: falls back to localStorage.
+export const initStorage = async (): Promise<StorageBackendName> => {
+    let entries: Map<string, string>;
+    try {
+        if (typeof indexedDB === 'undefined') throw new Error('IndexedDB is not supported');
+        const idb = await createIndexedDbBackend();
+        entries = await idb.loadAll();
+        if (entries.size === 0) await importFromLocalStorage(idb, entries);
+        backend = idb;
+    } catch (e) {
+        console.warn('IndexedDB unavailable, falling back to localStorage', e);
+        backend = localStorageBackend;
+        entries = await localStorageBackend.loadAll();
+    }
+    cache.clear();
+    entries.forEach((value, key) => cache.set(key, value));
+    return backend.name;
+};
+
+// =========================================================
+// OTHER TABS
+// =========================================================
+
+export const TAB_ID = uuidv4();
+
+// Passed through setItem to the other tabs, so they can tell which version a write is based on
+export interface Revision {
+    id: string;
+    parent: string | null;
+}
+
+// A write made by another tab. Its value is already in this tab's cache when listeners hear of it.
+export interface ExternalChange {
+    key: string;
+    value: string | null; // null when removed
+    tabId: string;
+    revision?: Revision;
+}
+
+type ChangeListener = (change: ExternalChange) => void;
+
+const listeners = new Set<ChangeListener>();
+const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel('mindmap-text-storage');
+
+channel?.addEventListener('message', (event: MessageEvent<ExternalChange>) => {
+    const change = event.data;
+    if (change.value === null) cache.delete(change.key);
+    else cache.set(change.key, change.value);
+    listeners.forEach(listener => listener(change));
+});
+
+const announce = (key: string, value: string | null, revision?: Revision) => {
+    try {
+        channel?.postMessage({ key, value, tabId: TAB_ID, revision } satisfies ExternalChange);
+    } catch (e) {
+        console.warn(`Failed to tell other tabs about "${key}"`, e);
+    }
+};
+
+const reportWriteError = (key: string) => (e: unknown) => {
+    console.error(`Failed to write "${key}" to ${backend.name}`, e);
+};
+
+// Synchronous, localStorage-like facade over the cache
+export const storage = {
+    getItem: (key: string): string | null => cache.get(key) ?? null,
+
+    // Throws on localStorage quota errors (the cache is left untouched in that case)
+    setItem: (key: string, value: string, revision?: Revision) => {
+        const pending = backend.set(key, value);
+        cache.set(key, value);
+        pending?.catch(reportWriteError(key));
+        announce(key, value, revision);
+    },
+
+    removeItem: (key: string) => {
+        const pending = backend.remove(key);
+        cache.delete(key);
+        pending?.catch(reportWriteError(key));
+        announce(key, null);
+    },
+
+    // Writes made by other tabs. Returns the unsubscribe function.
+    subscribe: (listener: ChangeListener) => {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    },
+
+    keys: (): string[] => Array.from(cache.keys()),
+
+    backendName: (): StorageBackendName => backend.name,
+};
@@ -0,0 +1,171 @@
+import type { MindMapNode } from '../types';
+import { chatCompletion, fetchWithTimeout, languageName } from './llm';
+import type { LlmSettings } from './llm';
+import { readAllDocuments } from './documents';
+import { mandalaToMindMap } from './convert';
+
+// =========================================================
+// AUTO-EXPAND SUGGESTION PROVIDERS
+// =========================================================
+// A provider turns a node into candidate child texts. The user picks from them in the
+// suggestion popover, nothing is inserted without confirmation.
+
+export type SuggestionProviderId = 'wikipedia' | 'llm' | 'documents';
+
+export interface AutoExpandSettings {
+    providerId: SuggestionProviderId;
+    language: string; // Language code: Wikipedia subdomain and LLM answer language
+    count: number; // How many suggestions to offer
+    wikipediaEndpoint: string; // "{lang}" is replaced by the language code
+    llm: LlmSettings;
+}
+
+export const DEFAULT_AUTO_EXPAND_SETTINGS: AutoExpandSettings = {
+    providerId: 'wikipedia',
+    language: 'ja',
+    count: 3,
+    wikipediaEndpoint: 'https://{lang}.wikipedia.org/w/api.php',
+    llm: { endpoint: 'http://localhost:11434/v1', model: 'llama3.2', apiKey: '' },
+};
+
+export interface SuggestionContext {
+    text: string;
+    path: string[]; // Ancestor texts from the root, excluding the node itself
+    existing: string[]; // Texts of the current children, never suggested again
+    documentId: string; // The current document, excluded by the documents provider
+}
+
+export interface SuggestionProvider {
+    id: SuggestionProviderId;
+    label: string;
+    requiresNetwork: boolean;
+    suggest: (context: SuggestionContext, settings: AutoExpandSettings, signal: AbortSignal) => Promise<string[]>;
+}
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+// Drops the query itself, existing children and duplicates, keeps the order
+const finalize = (candidates: string[], context: SuggestionContext, count: number): string[] => {
+    const seen = new Set([normalize(context.text), ...context.existing.map(normalize)]);
+    const result: string[] = [];
+    for (const candidate of candidates) {
+        const key = normalize(candidate);
+        if (key === '' || seen.has(key)) continue;
+        seen.add(key);
+        result.push(candidate.trim());
+        if (result.length >= count) break;
+    }
+    return result;
+};
+
+// =========================================================
+// WIKIPEDIA (OpenSearch)
+// =========================================================
+
+const WIKIPEDIA_TIMEOUT_MS = 10_000;
+
+const wikipediaProvider: SuggestionProvider = {
+    id: 'wikipedia',
+    label: 'Wikipedia',
+    requiresNetwork: true,
+    suggest: async (context, settings, signal) => {
+        const endpoint = settings.wikipediaEndpoint.replace('{lang}', encodeURIComponent(settings.language || 'en'));
+        // Fetch extra candidates, the query itself and disambiguations are filtered out
+        const url = `${endpoint}?action=opensearch&search=${encodeURIComponent(context.text)}&limit=${Math.min(50, settings.count * 3 + 5)}&format=json&origin=*`;
+        const response = await fetchWithTimeout(url, {}, WIKIPEDIA_TIMEOUT_MS, signal);
+        if (!response.ok) throw new Error(`Wikipedia answered ${response.status} ${response.statusText}`);
+        const data = await response.json();
+        // data[1] contains the titles
+        const titles: string[] = Array.isArray(data?.[1]) ? data[1] : [];
+        // "Text (disambiguation)" style entries repeat the query
+        const keywords = titles.filter(title => !title.includes(context.text + ' '));
+        return finalize(keywords, context, settings.count);
+    },
+};
+
+// =========================================================
+// LLM (OpenAI-compatible endpoint)
+// =========================================================
+
+// One idea per line; strips bullets, numbering and surrounding quotes the model may add anyway
+export const parseLlmList = (content: string): string[] => content
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').replace(/^["「](.*)["」]$/, '$1').trim())
+    .filter(line => line !== '');
+
+const llmProvider: SuggestionProvider = {
+    id: 'llm',
+    label: 'LLM (OpenAI-compatible)',
+    requiresNetwork: false, // Usually a local server
+    suggest: async (context, settings, signal) => {
+        const path = [...context.path, context.text].join(' > ');
+        const content = await chatCompletion(settings.llm, [
+            {
+                role: 'system',
+                content: 'You help brainstorm mind maps. Answer with one short idea per line: no numbering, no explanations, no extra text.',
+            },
+            {
+                role: 'user',
+                content: [
+                    `Mind map branch: ${path}`,
+                    context.existing.length > 0 ? `Existing child nodes: ${context.existing.join(', ')}` : '',
+                    `Suggest ${settings.count} new child nodes for "${context.text}" in ${languageName(settings.language)}.`,
+                ].filter(Boolean).join('\n'),
+            },
+        ], signal);
+        return finalize(parseLlmList(content), context, settings.count);
+    },
+};
+
+// =========================================================
+// OTHER DOCUMENTS (offline)
+// =========================================================
+// Looks for nodes with the same (or a related) text in the user's other mind maps and mandala
+// charts and suggests what was written below them there.
+
+const documentsProvider: SuggestionProvider = {
+    id: 'documents',
+    label: 'My Other Documents (offline)',
+    requiresNetwork: false,
+    suggest: async (context, settings) => {
+        const query = normalize(context.text);
+        if (query === '') return [];
+        const scores = new Map<string, { text: string; score: number }>();
+        const add = (text: string, score: number) => {
+            const key = normalize(text);
+            const entry = scores.get(key) ?? { text, score: 0 };
+            entry.score += score;
+            scores.set(key, entry);
+        };
+
+        const visit = (node: MindMapNode, parent: MindMapNode | null) => {
+            const key = normalize(node.text);
+            const exact = key === query;
+            // Partial matches only for meaningful lengths, one letter matches everything
+            const related = !exact && query.length >= 2 && key.length >= 2 && (key.includes(query) || query.includes(key));
+            if (exact || related) {
+                node.children.forEach(child => add(child.text, exact ? 3 : 1));
+                // Siblings of an exact match are related ideas on the same level
+                if (exact && parent) {
+                    parent.children.forEach(sibling => {
+                        if (sibling !== node) add(sibling.text, 0.5);
+                    });
+                }
+            }
+            node.children.forEach(child => visit(child, node));
+        };
+
+        readAllDocuments().forEach(doc => {
+            if (doc.id === context.documentId) return;
+            visit(doc.mode === 'mindmap' ? doc.data : mandalaToMindMap(doc.data), null);
+        });
+
+        const ranked = Array.from(scores.values()).sort((a, b) => b.score - a.score).map(entry => entry.text);
+        return finalize(ranked, context, settings.count);
+    },
+};
+
+export const SUGGESTION_PROVIDERS: SuggestionProvider[] = [wikipediaProvider, llmProvider, documentsProvider];
+
+export const getSuggestionProvider = (id: SuggestionProviderId): SuggestionProvider =>
+    SUGGESTION_PROVIDERS.find(provider => provider.id === id) ?? wikipediaProvider;